@@ -13,6 +13,7 @@ import {
   type BikeDiscoveryResult,
 } from "@/lib/gemini";
 import { validateMotorcycle, fillMissingData } from "@/engine/validator";
+import { isVehicleClass } from "@/engine/vehicle-classes";
 
 // ============================================
 // TYPES
@@ -50,14 +51,27 @@ function convertToMotorcycle(
     model: result.model,
     variant: result.variant,
     year: result.year,
+    // An unrecognised class would pick no overrides anyway; leave it unset
+    vehicleClass: isVehicleClass(result.vehicleClass) ? result.vehicleClass : undefined,
+    powertrain: result.powertrain,
     engineCC: result.engineCC,
     power: result.power,
     torque: result.torque,
+    coolingType: result.coolingType,
+    cylinders: result.cylinders,
+    peakPowerRpm: result.peakPowerRpm,
+    peakTorqueRpm: result.peakTorqueRpm,
     kerbWeight: result.kerbWeight,
     seatHeight: result.seatHeight,
     wheelbase: result.wheelbase,
     groundClearance: result.groundClearance,
     fuelCapacity: result.fuelCapacity,
+    batteryCapacity: result.batteryCapacity,
+    certifiedRange: result.certifiedRange,
+    realRange: result.realRange,
+    chargingTime: result.chargingTime,
+    motorPeakPower: result.motorPeakPower,
+    motorPeakTorque: result.motorPeakTorque,
     frontBrake: result.frontBrake,
     rearBrake: result.rearBrake,
     absType: result.absType,
@@ -67,7 +81,16 @@ function convertToMotorcycle(
     rearSuspension: result.rearSuspension,
     rearSuspensionTravel: result.rearSuspensionTravel,
     handlebarType: result.handlebarType,
+    tractionControl: result.tractionControl,
+    ridingModes: result.ridingModes,
+    clutch: result.clutch,
+    quickshifter: result.quickshifter,
+    cruiseControl: result.cruiseControl,
+    lighting: result.lighting,
+    display: result.display,
     exShowroomPrice: result.exShowroomPrice,
+    fuelEfficiency: result.fuelEfficiency,
+    fuelEfficiencySource: result.fuelEfficiencySource,
     confidence: result.confidence,
     searchQuery: query,
   };
@@ -238,14 +261,21 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     model: "390 Duke",
     variant: "Standard",
     year: 2025,
+    vehicleClass: "naked",
     engineCC: 399, // Updated for 2025 Gen 3
     power: 46,     // Updated for 2025 Gen 3
     torque: 39,    // Updated for 2025 Gen 3
+    coolingType: "liquid",
+    cylinders: 1,
+    peakPowerRpm: 8500,
+    peakTorqueRpm: 6500,
     kerbWeight: 168,
     seatHeight: 820, // Updated
     wheelbase: 1357,
     groundClearance: 183,
     fuelCapacity: 15, // Updated
+    fuelEfficiency: 28,
+    fuelEfficiencySource: "real-world",
     frontBrake: "disc",
     rearBrake: "disc",
     absType: "cornering-abs",
@@ -255,6 +285,13 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     rearSuspension: "WP APEX Monoshock Adjustable",
     rearSuspensionTravel: 150,
     handlebarType: "standard",
+    tractionControl: "lean-sensitive",
+    ridingModes: 3,
+    clutch: "slipper-assist",
+    quickshifter: "bidirectional",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "tft-navigation",
     exShowroomPrice: 330000,
     confidence: "high",
   },
@@ -263,14 +300,21 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     model: "390 Duke",
     variant: "Standard",
     year: 2025,
+    vehicleClass: "naked",
     engineCC: 399,
     power: 46,
     torque: 39,
+    coolingType: "liquid",
+    cylinders: 1,
+    peakPowerRpm: 8500,
+    peakTorqueRpm: 6500,
     kerbWeight: 168,
     seatHeight: 820,
     wheelbase: 1357,
     groundClearance: 183,
     fuelCapacity: 15,
+    fuelEfficiency: 28,
+    fuelEfficiencySource: "real-world",
     frontBrake: "disc",
     rearBrake: "disc",
     absType: "cornering-abs",
@@ -280,6 +324,13 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     rearSuspension: "WP APEX Monoshock Adjustable",
     rearSuspensionTravel: 150,
     handlebarType: "standard",
+    tractionControl: "lean-sensitive",
+    ridingModes: 3,
+    clutch: "slipper-assist",
+    quickshifter: "bidirectional",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "tft-navigation",
     exShowroomPrice: 330000,
     confidence: "high",
   },
@@ -288,14 +339,21 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     model: "Himalayan 450",
     variant: "Base",
     year: 2025,
+    vehicleClass: "adv",
     engineCC: 452,
     power: 40,
     torque: 40,
+    coolingType: "liquid",
+    cylinders: 1,
+    peakPowerRpm: 8000,
+    peakTorqueRpm: 5500,
     kerbWeight: 196,
     seatHeight: 825,
     wheelbase: 1465,
     groundClearance: 230,
     fuelCapacity: 17,
+    fuelEfficiency: 30,
+    fuelEfficiencySource: "real-world",
     frontBrake: "disc",
     rearBrake: "disc",
     absType: "switchable-abs",
@@ -305,6 +363,13 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     rearSuspension: "monoshock",
     rearSuspensionTravel: 200,
     handlebarType: "raised",
+    tractionControl: "none",
+    ridingModes: 2,
+    clutch: "slipper-assist",
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "tft-navigation",
     exShowroomPrice: 298000,
     confidence: "high",
   },
@@ -313,14 +378,21 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     model: "Himalayan 450",
     variant: "Base",
     year: 2025,
+    vehicleClass: "adv",
     engineCC: 452,
     power: 40,
     torque: 40,
+    coolingType: "liquid",
+    cylinders: 1,
+    peakPowerRpm: 8000,
+    peakTorqueRpm: 5500,
     kerbWeight: 196,
     seatHeight: 825,
     wheelbase: 1465,
     groundClearance: 230,
     fuelCapacity: 17,
+    fuelEfficiency: 30,
+    fuelEfficiencySource: "real-world",
     frontBrake: "disc",
     rearBrake: "disc",
     absType: "switchable-abs",
@@ -330,6 +402,13 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     rearSuspension: "monoshock",
     rearSuspensionTravel: 200,
     handlebarType: "raised",
+    tractionControl: "none",
+    ridingModes: 2,
+    clutch: "slipper-assist",
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "tft-navigation",
     exShowroomPrice: 298000,
     confidence: "high",
   },
@@ -338,14 +417,21 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     model: "Pulsar NS200",
     variant: "ABS",
     year: 2025,
+    vehicleClass: "naked",
     engineCC: 199,
     power: 24.5,
     torque: 18.7,
+    coolingType: "liquid",
+    cylinders: 1,
+    peakPowerRpm: 9750,
+    peakTorqueRpm: 8000,
     kerbWeight: 158,
     seatHeight: 805,
     wheelbase: 1363,
     groundClearance: 168,
     fuelCapacity: 12,
+    fuelEfficiency: 38,
+    fuelEfficiencySource: "real-world",
     frontBrake: "disc",
     rearBrake: "disc",
     absType: "dual-channel",
@@ -355,6 +441,13 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     rearSuspension: "monoshock",
     rearSuspensionTravel: 120,
     handlebarType: "clip-on",
+    tractionControl: "none",
+    ridingModes: 3,
+    clutch: "standard",
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "lcd",
     exShowroomPrice: 158000,
     confidence: "high",
   },
@@ -363,14 +456,21 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     model: "Pulsar NS200",
     variant: "ABS",
     year: 2025,
+    vehicleClass: "naked",
     engineCC: 199,
     power: 24.5,
     torque: 18.7,
+    coolingType: "liquid",
+    cylinders: 1,
+    peakPowerRpm: 9750,
+    peakTorqueRpm: 8000,
     kerbWeight: 158,
     seatHeight: 805,
     wheelbase: 1363,
     groundClearance: 168,
     fuelCapacity: 12,
+    fuelEfficiency: 38,
+    fuelEfficiencySource: "real-world",
     frontBrake: "disc",
     rearBrake: "disc",
     absType: "dual-channel",
@@ -380,6 +480,13 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     rearSuspension: "monoshock",
     rearSuspensionTravel: 120,
     handlebarType: "clip-on",
+    tractionControl: "none",
+    ridingModes: 3,
+    clutch: "standard",
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "lcd",
     exShowroomPrice: 158000,
     confidence: "high",
   },
@@ -388,14 +495,21 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     model: "CB350",
     variant: "DLX Pro",
     year: 2025,
+    vehicleClass: "cruiser",
     engineCC: 348,
     power: 21,
     torque: 30,
+    coolingType: "air",
+    cylinders: 1,
+    peakPowerRpm: 5500,
+    peakTorqueRpm: 3000,
     kerbWeight: 181,
     seatHeight: 800,
     wheelbase: 1441,
     groundClearance: 166,
     fuelCapacity: 15,
+    fuelEfficiency: 35,
+    fuelEfficiencySource: "real-world",
     frontBrake: "disc",
     rearBrake: "disc",
     absType: "dual-channel",
@@ -405,6 +519,13 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     rearSuspension: "twin",
     rearSuspensionTravel: 105,
     handlebarType: "raised",
+    tractionControl: "switchable",
+    ridingModes: 0,
+    clutch: "slipper-assist",
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "lcd",
     exShowroomPrice: 220000,
     confidence: "high",
   },
@@ -413,14 +534,21 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     model: "CB350",
     variant: "DLX Pro",
     year: 2025,
+    vehicleClass: "cruiser",
     engineCC: 348,
     power: 21,
     torque: 30,
+    coolingType: "air",
+    cylinders: 1,
+    peakPowerRpm: 5500,
+    peakTorqueRpm: 3000,
     kerbWeight: 181,
     seatHeight: 800,
     wheelbase: 1441,
     groundClearance: 166,
     fuelCapacity: 15,
+    fuelEfficiency: 35,
+    fuelEfficiencySource: "real-world",
     frontBrake: "disc",
     rearBrake: "disc",
     absType: "dual-channel",
@@ -430,9 +558,240 @@ const MOCK_BIKES: Record<string, Partial<Motorcycle>> = {
     rearSuspension: "twin",
     rearSuspensionTravel: 105,
     handlebarType: "raised",
+    tractionControl: "switchable",
+    ridingModes: 0,
+    clutch: "slipper-assist",
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "lcd",
     exShowroomPrice: 220000,
     confidence: "high",
   },
+  "ultraviolette f77": {
+    brand: "Ultraviolette",
+    model: "F77 Mach 2",
+    variant: "Recon",
+    year: 2025,
+    vehicleClass: "sport",
+    powertrain: "electric",
+    engineCC: 0,
+    power: 40,
+    torque: 100,
+    kerbWeight: 207,
+    seatHeight: 800,
+    wheelbase: 1340,
+    groundClearance: 160,
+    fuelCapacity: 0,
+    batteryCapacity: 10.3,
+    certifiedRange: 323,
+    realRange: 230,
+    chargingTime: 5.5,
+    motorPeakPower: 30,
+    motorPeakTorque: 100,
+    frontBrake: "disc",
+    rearBrake: "disc",
+    absType: "dual-channel",
+    frontTyreWidth: 110,
+    rearTyreWidth: 150,
+    frontSuspension: "USD 41mm",
+    rearSuspension: "monoshock",
+    handlebarType: "standard",
+    tractionControl: "switchable",
+    ridingModes: 3,
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "tft",
+    exShowroomPrice: 399000,
+    confidence: "medium",
+  },
+  "f77": { // Alias
+    brand: "Ultraviolette",
+    model: "F77 Mach 2",
+    variant: "Recon",
+    year: 2025,
+    vehicleClass: "sport",
+    powertrain: "electric",
+    engineCC: 0,
+    power: 40,
+    torque: 100,
+    kerbWeight: 207,
+    seatHeight: 800,
+    wheelbase: 1340,
+    groundClearance: 160,
+    fuelCapacity: 0,
+    batteryCapacity: 10.3,
+    certifiedRange: 323,
+    realRange: 230,
+    chargingTime: 5.5,
+    motorPeakPower: 30,
+    motorPeakTorque: 100,
+    frontBrake: "disc",
+    rearBrake: "disc",
+    absType: "dual-channel",
+    frontTyreWidth: 110,
+    rearTyreWidth: 150,
+    frontSuspension: "USD 41mm",
+    rearSuspension: "monoshock",
+    handlebarType: "standard",
+    tractionControl: "switchable",
+    ridingModes: 3,
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "full-led",
+    display: "tft",
+    exShowroomPrice: 399000,
+    confidence: "medium",
+  },
+  "honda activa": {
+    brand: "Honda",
+    model: "Activa",
+    variant: "STD",
+    year: 2025,
+    vehicleClass: "scooter",
+    engineCC: 110,
+    power: 7.7,
+    torque: 8.9,
+    coolingType: "air",
+    cylinders: 1,
+    peakPowerRpm: 8000,
+    peakTorqueRpm: 5500,
+    kerbWeight: 106,
+    seatHeight: 692,
+    wheelbase: 1260,
+    groundClearance: 162,
+    fuelCapacity: 5.3,
+    fuelEfficiency: 50,
+    fuelEfficiencySource: "real-world",
+    frontBrake: "drum",
+    rearBrake: "drum",
+    absType: "none",
+    frontTyreWidth: 90,
+    rearTyreWidth: 90,
+    frontSuspension: "Telescopic",
+    rearSuspension: "other",
+    handlebarType: "standard",
+    tractionControl: "none",
+    ridingModes: 0,
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "led-headlamp",
+    display: "analogue",
+    exShowroomPrice: 78000,
+    confidence: "high",
+  },
+  "activa": { // Alias
+    brand: "Honda",
+    model: "Activa",
+    variant: "STD",
+    year: 2025,
+    vehicleClass: "scooter",
+    engineCC: 110,
+    power: 7.7,
+    torque: 8.9,
+    coolingType: "air",
+    cylinders: 1,
+    peakPowerRpm: 8000,
+    peakTorqueRpm: 5500,
+    kerbWeight: 106,
+    seatHeight: 692,
+    wheelbase: 1260,
+    groundClearance: 162,
+    fuelCapacity: 5.3,
+    fuelEfficiency: 50,
+    fuelEfficiencySource: "real-world",
+    frontBrake: "drum",
+    rearBrake: "drum",
+    absType: "none",
+    frontTyreWidth: 90,
+    rearTyreWidth: 90,
+    frontSuspension: "Telescopic",
+    rearSuspension: "other",
+    handlebarType: "standard",
+    tractionControl: "none",
+    ridingModes: 0,
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "led-headlamp",
+    display: "analogue",
+    exShowroomPrice: 78000,
+    confidence: "high",
+  },
+  "tvs jupiter 125": {
+    brand: "TVS",
+    model: "Jupiter 125",
+    variant: "Disc",
+    year: 2025,
+    vehicleClass: "scooter",
+    engineCC: 124.8,
+    power: 8,
+    torque: 10.5,
+    coolingType: "air",
+    cylinders: 1,
+    peakPowerRpm: 6500,
+    peakTorqueRpm: 4500,
+    kerbWeight: 108,
+    seatHeight: 765,
+    wheelbase: 1275,
+    groundClearance: 163,
+    fuelCapacity: 5.1,
+    fuelEfficiency: 50,
+    fuelEfficiencySource: "real-world",
+    frontBrake: "disc",
+    rearBrake: "drum",
+    absType: "none",
+    frontTyreWidth: 90,
+    rearTyreWidth: 90,
+    frontSuspension: "Telescopic",
+    rearSuspension: "other",
+    handlebarType: "standard",
+    tractionControl: "none",
+    ridingModes: 0,
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "led-headlamp",
+    display: "lcd",
+    exShowroomPrice: 86000,
+    confidence: "high",
+  },
+  "jupiter 125": { // Alias
+    brand: "TVS",
+    model: "Jupiter 125",
+    variant: "Disc",
+    year: 2025,
+    vehicleClass: "scooter",
+    engineCC: 124.8,
+    power: 8,
+    torque: 10.5,
+    coolingType: "air",
+    cylinders: 1,
+    peakPowerRpm: 6500,
+    peakTorqueRpm: 4500,
+    kerbWeight: 108,
+    seatHeight: 765,
+    wheelbase: 1275,
+    groundClearance: 163,
+    fuelCapacity: 5.1,
+    fuelEfficiency: 50,
+    fuelEfficiencySource: "real-world",
+    frontBrake: "disc",
+    rearBrake: "drum",
+    absType: "none",
+    frontTyreWidth: 90,
+    rearTyreWidth: 90,
+    frontSuspension: "Telescopic",
+    rearSuspension: "other",
+    handlebarType: "standard",
+    tractionControl: "none",
+    ridingModes: 0,
+    quickshifter: "none",
+    cruiseControl: "none",
+    lighting: "led-headlamp",
+    display: "lcd",
+    exShowroomPrice: 86000,
+    confidence: "high",
+  },
 };
 
 /**
@@ -9,6 +9,7 @@ import type { ScoredMotorcycle, ComparisonResult, FactorWeights } from "@/types"
 import { FACTOR_METADATA } from "@/types";
 import { isGeminiConfigured, generateExplanation, generateComparisonExplanation } from "@/lib/gemini";
 import { compareScores } from "@/engine/scoring";
+import { getAggregationMethodMeta } from "@/engine/aggregation";
 
 // ============================================
 // TYPES
@@ -163,6 +164,23 @@ function identifyTradeoffs(scoredBike: ScoredMotorcycle): string[] {
   return tradeoffs.slice(0, 3);
 }
 
+/**
+ * Point out bikes that another bike beats on every factor (no AI)
+ */
+function describeDominance(rankedBikes: ScoredMotorcycle[]): string[] {
+  const nameOf = (id: string) => {
+    const bike = rankedBikes.find((b) => b.motorcycle.id === id)?.motorcycle;
+    return bike ? `${bike.brand} ${bike.model}` : id;
+  };
+
+  return rankedBikes
+    .filter((scored) => scored.dominatedBy && scored.dominatedBy.length > 0)
+    .map(
+      (scored) =>
+        `The ${nameOf(scored.motorcycle.id)} is beaten on every factor by the ${nameOf(scored.dominatedBy![0])}, so no choice of weights would rank it higher.`
+    );
+}
+
 /**
  * Generate a local technical explanation (no AI)
  */
@@ -303,6 +321,10 @@ export async function explainComparison(
     return "Add more bikes to see a comparison.";
   }
 
+  // Dominance holds whatever the weights, so it is appended to either explanation
+  const dominanceNotes = describeDominance(rankedBikes);
+  const withDominance = (text: string) => [text, ...dominanceNotes].join(" ");
+
   const winner = rankedBikes[0];
   const runnerUp = rankedBikes[1];
   const comparison = compareScores(winner, runnerUp);
@@ -319,7 +341,7 @@ export async function explainComparison(
 
   if (isGeminiConfigured()) {
     try {
-      return await generateComparisonExplanation(
+      const aiExplanation = await generateComparisonExplanation(
         {
           name: `${winner.motorcycle.brand} ${winner.motorcycle.model}`,
           score: winner.finalScore,
@@ -330,6 +352,7 @@ export async function explainComparison(
         },
         keyDifferences
       );
+      return withDominance(aiExplanation);
     } catch (error) {
       console.warn("AI comparison failed, using local fallback:", error);
     }
@@ -340,12 +363,31 @@ export async function explainComparison(
   const runnerUpName = `${runnerUp.motorcycle.brand} ${runnerUp.motorcycle.model}`;
   const scoreDiff = winner.finalScore - runnerUp.finalScore;
 
+  // Inside the ranking policy's minimum gap the points don't decide; the tie-breakers do
+  if (winner.tie?.tiedWith.includes(runnerUp.motorcycle.id)) {
+    return withDominance(
+      `${winnerName} and ${runnerUpName} are statistically tied for #${winner.rank}. ${winnerName} is listed first: ${winner.tie.message.charAt(0).toLowerCase()}${winner.tie.message.slice(1)}.`
+    );
+  }
+
+  // Ranked by another method: weighted-sum points don't explain the order
+  if (winner.aggregate) {
+    const method = getAggregationMethodMeta(winner.aggregate.method);
+    return withDominance(
+      `${winnerName} ranks ahead of ${runnerUpName} under ${method.label} (${method.description.toLowerCase()}).`
+    );
+  }
+
   if (keyDifferences.length > 0) {
     const topDiff = keyDifferences[0];
-    return `${winnerName} ranked higher than ${runnerUpName} by ${scoreDiff} points, primarily due to better ${topDiff.factor.toLowerCase()} (${topDiff.winnerScore} vs ${topDiff.loserScore}).`;
+    return withDominance(
+      `${winnerName} ranked higher than ${runnerUpName} by ${scoreDiff} points, primarily due to better ${topDiff.factor.toLowerCase()} (${topDiff.winnerScore} vs ${topDiff.loserScore}).`
+    );
   }
 
-  return `${winnerName} scored ${winner.finalScore}/100, ${scoreDiff} points ahead of ${runnerUpName}.`;
+  return withDominance(
+    `${winnerName} scored ${winner.finalScore}/100, ${scoreDiff} points ahead of ${runnerUpName}.`
+  );
 }
 
 /**
@@ -10,11 +10,21 @@
 import {
   BikeSearch,
   WeightSliders,
+  AhpQuestionnaire,
   PillionToggle,
   ResultsGrid,
+  SpecComparisonTable,
   Explanation,
   RadarChart,
+  SensitivityChart,
+  LoadScenarioCompare,
+  AggregationPanel,
   ExportButton,
+  RulesetLoader,
+  RiderProfileCard,
+  CostOfOwnershipCard,
+  CustomFactorsCard,
+  ConstraintsPanel,
 } from "@/components/motologix";
 import { useAppStore } from "@/store/app-store";
 import { Button } from "@/components/ui/button";
@@ -61,8 +71,26 @@ export default function Home() {
             {/* Pillion Toggle */}
             <PillionToggle />
 
+            {/* Rider Profile */}
+            <RiderProfileCard />
+
+            {/* Cost of Ownership */}
+            <CostOfOwnershipCard />
+
+            {/* Hard Constraints */}
+            <ConstraintsPanel />
+
+            {/* Custom Factors */}
+            <CustomFactorsCard />
+
             {/* Weight Sliders */}
             <WeightSliders />
+
+            {/* Guided Weights (AHP) */}
+            <AhpQuestionnaire />
+
+            {/* Scoring Ruleset */}
+            <RulesetLoader />
           </div>
 
           {/* Right Column - Results */}
@@ -70,11 +98,23 @@ export default function Home() {
             {/* Explanation */}
             <Explanation />
 
-            {/* Radar Chart */}
-            <RadarChart />
+            {/* Radar Chart + Weight Sensitivity */}
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <RadarChart />
+              <SensitivityChart />
+            </div>
+
+            {/* One bike under two load scenarios */}
+            <LoadScenarioCompare />
+
+            {/* Ranking Method */}
+            <AggregationPanel />
 
             {/* Results Grid */}
             <ResultsGrid />
+
+            {/* Specs side by side */}
+            <SpecComparisonTable />
           </div>
         </div>
       </main>
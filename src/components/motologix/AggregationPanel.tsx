@@ -0,0 +1,210 @@
+"use client";
+
+/**
+ * AggregationPanel Component
+ *
+ * Picks how factor scores are combined into a ranking and shows
+ * where the different methods disagree on the order. Also sets the
+ * ranking policy: how close two scores must be to count as a tie, and
+ * which factors break ties, in order.
+ */
+
+import { useAppStore } from "@/store/app-store";
+import { AGGREGATION_METHODS, compareAggregationMethods, getAggregationMethodMeta } from "@/engine";
+import { FACTOR_METADATA, type AggregationMethod, type FactorKey } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+export function AggregationPanel() {
+  const scoredMotorcycles = useAppStore((state) => state.scoredMotorcycles);
+  const weights = useAppStore((state) => state.weights);
+  const aggregationMethod = useAppStore((state) => state.aggregationMethod);
+  const setAggregationMethod = useAppStore((state) => state.setAggregationMethod);
+  const rankingPolicy = useAppStore((state) => state.rankingPolicy);
+  const setRankingPolicy = useAppStore((state) => state.setRankingPolicy);
+  const runComparison = useAppStore((state) => state.runComparison);
+
+  if (scoredMotorcycles.length < 2) {
+    return null;
+  }
+
+  const comparison = compareAggregationMethods(scoredMotorcycles, weights);
+  const selected = getAggregationMethodMeta(aggregationMethod);
+
+  const handleChange = (value: string) => {
+    setAggregationMethod(value as AggregationMethod);
+    runComparison();
+  };
+
+  const handleGapChange = (value: string) => {
+    const gap = Number(value);
+    if (!Number.isFinite(gap) || gap < 0) return;
+    setRankingPolicy({ minMeaningfulGap: gap });
+    runComparison();
+  };
+
+  const handleTieBreakersChange = (tieBreakers: FactorKey[]) => {
+    setRankingPolicy({ tieBreakers });
+    runComparison();
+  };
+
+  const { tieBreakers } = rankingPolicy;
+  const unusedFactors = FACTOR_METADATA.filter((f) => !tieBreakers.includes(f.key));
+
+  return (
+    <Card className="w-full border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between gap-2 text-lg">
+          <span className="flex items-center gap-2">
+            <span>🧮</span>
+            Ranking Method
+          </span>
+          <Badge variant="outline" className="font-mono">
+            {comparison.unanimous ? "All methods agree" : "Methods disagree"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>{selected.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={aggregationMethod} onValueChange={handleChange} className="w-full">
+          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4">
+            {AGGREGATION_METHODS.map((meta) => (
+              <TabsTrigger key={meta.method} value={meta.method} className="text-xs">
+                {meta.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {/* Rank under each method; cells that differ from the bike's best rank are highlighted */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground">
+                <th className="text-left font-medium py-2 pr-2">Bike</th>
+                {AGGREGATION_METHODS.map((meta) => (
+                  <th
+                    key={meta.method}
+                    className={`text-center font-medium py-2 px-2 ${meta.method === aggregationMethod ? "text-primary" : ""}`}
+                  >
+                    {meta.label}
+                    <div className="text-[10px] font-normal">{meta.scoreLabel}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.rows.map((row) => {
+                const bike = scoredMotorcycles.find((s) => s.motorcycle.id === row.motorcycleId)!.motorcycle;
+                const bestRank = Math.min(...Object.values(row.ranks));
+                return (
+                  <tr key={row.motorcycleId} className="border-t border-border/50">
+                    <td className="py-2 pr-2 font-medium">
+                      {bike.brand} {bike.model}
+                    </td>
+                    {AGGREGATION_METHODS.map((meta) => {
+                      const rank = row.ranks[meta.method];
+                      const score = row.scores[meta.method];
+                      return (
+                        <td
+                          key={meta.method}
+                          className={`text-center py-2 px-2 font-mono ${rank !== bestRank ? "bg-amber-500/10 text-amber-600 dark:text-amber-400" : ""}`}
+                        >
+                          #{rank}
+                          {score !== null && (
+                            <span className="text-xs text-muted-foreground"> · {score}</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Ranking policy */}
+        <div className="space-y-3 pt-3 border-t border-border/50">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-muted-foreground">Count as tied when closer than</span>
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={rankingPolicy.minMeaningfulGap}
+                onChange={(e) => handleGapChange(e.target.value)}
+                className="h-8 w-20 text-sm font-mono"
+              />
+              <span className="text-xs text-muted-foreground">pts</span>
+            </div>
+          </div>
+          {aggregationMethod === "lexicographic" && (
+            <p className="text-xs text-muted-foreground">
+              {selected.label} has no score gap, so it never reports ties.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <span className="text-sm text-muted-foreground">Break ties on</span>
+            <div className="flex flex-wrap gap-2">
+              {tieBreakers.map((key, i) => (
+                <Badge key={key} variant="outline" className="gap-1 pr-1">
+                  <span className="font-mono text-muted-foreground">{i + 1}.</span>
+                  {FACTOR_METADATA.find((f) => f.key === key)?.label ?? key}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-5 px-1"
+                    disabled={i === 0}
+                    onClick={() =>
+                      handleTieBreakersChange([
+                        ...tieBreakers.slice(0, i - 1),
+                        key,
+                        tieBreakers[i - 1],
+                        ...tieBreakers.slice(i + 1),
+                      ])
+                    }
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-5 px-1"
+                    onClick={() => handleTieBreakersChange(tieBreakers.filter((k) => k !== key))}
+                  >
+                    ✕
+                  </Button>
+                </Badge>
+              ))}
+              {tieBreakers.length === 0 && (
+                <span className="text-xs text-muted-foreground">No tie-breakers: tied bikes keep score order</span>
+              )}
+            </div>
+            {unusedFactors.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => handleTieBreakersChange([...tieBreakers, e.target.value as FactorKey])}
+                className="h-8 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+              >
+                <option value="" disabled>
+                  Add tie-breaker…
+                </option>
+                {unusedFactors.map((factor) => (
+                  <option key={factor.key} value={factor.key}>
+                    {factor.label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
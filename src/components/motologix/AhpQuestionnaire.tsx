@@ -0,0 +1,186 @@
+"use client";
+
+/**
+ * AhpQuestionnaire Component
+ *
+ * Guided alternative to the weight sliders: answers pairwise
+ * "which matters more?" questions and derives factor weights with AHP,
+ * warning when the answers contradict each other.
+ */
+
+import { useState } from "react";
+import { useAppStore } from "@/store/app-store";
+import { computeAhpWeights, getAhpQuestions, type PairwiseJudgement } from "@/engine";
+import { FACTOR_METADATA, type FactorKey } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+const QUESTIONS = getAhpQuestions();
+
+// Saaty scale values, from "left side much more" to "right side much more"
+const SCALE: Array<{ value: number; label: string }> = [
+  { value: 9, label: "Far more" },
+  { value: 5, label: "More" },
+  { value: 3, label: "A bit more" },
+  { value: 1, label: "Equal" },
+  { value: 1 / 3, label: "A bit more" },
+  { value: 1 / 5, label: "More" },
+  { value: 1 / 9, label: "Far more" },
+];
+
+function labelOf(key: FactorKey): string {
+  return FACTOR_METADATA.find((f) => f.key === key)?.label ?? key;
+}
+
+export function AhpQuestionnaire() {
+  const weights = useAppStore((state) => state.weights);
+  const setWeights = useAppStore((state) => state.setWeights);
+  const runComparison = useAppStore((state) => state.runComparison);
+  const motorcycles = useAppStore((state) => state.motorcycles);
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<Record<number, number>>({});
+
+  const answeredCount = Object.keys(answers).length;
+  const isComplete = answeredCount === QUESTIONS.length;
+
+  const judgements: PairwiseJudgement[] = Object.entries(answers).map(([index, value]) => {
+    const [a, b] = QUESTIONS[Number(index)];
+    return { a, b, value };
+  });
+  const result = computeAhpWeights(judgements);
+
+  const [left, right] = QUESTIONS[step];
+
+  const handleAnswer = (value: number) => {
+    setAnswers({ ...answers, [step]: value });
+    if (step < QUESTIONS.length - 1) {
+      setStep(step + 1);
+    }
+  };
+
+  const handleApply = () => {
+    // Optional factors aren't asked about, so they keep their current weight
+    const optionalWeights = Object.fromEntries(
+      FACTOR_METADATA.filter((f) => f.optional).map((f) => [f.key, weights[f.key]])
+    );
+    setWeights({ ...result.weights, ...optionalWeights });
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+    setIsOpen(false);
+  };
+
+  const handleRestart = () => {
+    setAnswers({});
+    setStep(0);
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <span className="text-xl">🤔</span>
+          Guided Weights
+        </CardTitle>
+        <CardDescription>
+          Answer &quot;which matters more?&quot; questions instead of dragging sliders
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isOpen ? (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setIsOpen(true)}>
+            Start questionnaire ({QUESTIONS.length} questions)
+          </Button>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                Question {step + 1} of {QUESTIONS.length}
+              </span>
+              <span>{answeredCount} answered</span>
+            </div>
+
+            <div className="space-y-3">
+              <p className="text-sm text-center">
+                <span className="font-medium">{labelOf(left)}</span>
+                <span className="text-muted-foreground"> vs </span>
+                <span className="font-medium">{labelOf(right)}</span>
+                <br />
+                <span className="text-xs text-muted-foreground">Which matters more, and by how much?</span>
+              </p>
+              <div className="grid grid-cols-7 gap-1">
+                {SCALE.map((option, i) => (
+                  <Button
+                    key={i}
+                    variant={answers[step] === option.value ? "default" : "outline"}
+                    size="sm"
+                    className="h-auto px-1 py-2 text-[10px] whitespace-normal leading-tight"
+                    onClick={() => handleAnswer(option.value)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>← {labelOf(left)}</span>
+                <span>{labelOf(right)} →</span>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" disabled={step === 0} onClick={() => setStep(step - 1)}>
+                Back
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={step === QUESTIONS.length - 1}
+                onClick={() => setStep(step + 1)}
+              >
+                Skip
+              </Button>
+              <Button variant="ghost" size="sm" className="ml-auto" onClick={handleRestart}>
+                Restart
+              </Button>
+            </div>
+
+            {answeredCount > 0 && (
+              <div className="space-y-2 pt-2 border-t border-border/50">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Consistency ratio</span>
+                  <Badge
+                    variant="outline"
+                    className={
+                      result.isConsistent
+                        ? "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20"
+                        : "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
+                    }
+                  >
+                    {result.consistencyRatio.toFixed(2)} {result.isConsistent ? "ok" : "inconsistent"}
+                  </Badge>
+                </div>
+                {result.contradictions.slice(0, 3).map((contradiction) => (
+                  <p key={contradiction.factors.join("-")} className="text-xs text-destructive">
+                    ⚠️ Contradiction: {contradiction.message}
+                  </p>
+                ))}
+                {!result.isConsistent && result.contradictions.length === 0 && (
+                  <p className="text-xs text-destructive">
+                    ⚠️ Your answers don&apos;t quite agree on how much more each factor matters
+                  </p>
+                )}
+                <Button size="sm" className="w-full" disabled={!isComplete} onClick={handleApply}>
+                  {isComplete
+                    ? "Use these weights"
+                    : `Answer all questions to apply (${QUESTIONS.length - answeredCount} left)`}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
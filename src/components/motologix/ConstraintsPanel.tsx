@@ -0,0 +1,189 @@
+"use client";
+
+/**
+ * ConstraintsPanel Component
+ *
+ * Hard limits that eliminate bikes before ranking:
+ * budget, seat height, ABS, fuel tank and minimum factor scores.
+ */
+
+import { useState } from "react";
+import { useAppStore } from "@/store/app-store";
+import { FACTOR_METADATA, type FactorKey, type Motorcycle, type ScoringConstraints } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+type AbsRequirement = "any" | "abs" | "dual";
+
+const ABS_OPTIONS: Array<{
+  value: AbsRequirement;
+  label: string;
+  types?: Motorcycle["absType"][];
+}> = [
+  { value: "any", label: "Any" },
+  {
+    value: "abs",
+    label: "Any ABS",
+    types: ["single-channel", "dual-channel", "switchable-abs", "cornering-abs"],
+  },
+  {
+    value: "dual",
+    label: "Dual-channel+",
+    types: ["dual-channel", "switchable-abs", "cornering-abs"],
+  },
+];
+
+function getAbsRequirement(constraints: ScoringConstraints): AbsRequirement {
+  const count = constraints.requiredAbsTypes?.length ?? 0;
+  if (count === 0) return "any";
+  return constraints.requiredAbsTypes!.includes("single-channel") ? "abs" : "dual";
+}
+
+function parseOptional(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export function ConstraintsPanel() {
+  const constraints = useAppStore((state) => state.constraints);
+  const setConstraints = useAppStore((state) => state.setConstraints);
+  const runComparison = useAppStore((state) => state.runComparison);
+  const motorcycles = useAppStore((state) => state.motorcycles);
+  const [minFactor, setMinFactor] = useState<FactorKey>(FACTOR_METADATA[0].key);
+  const [minScore, setMinScore] = useState("");
+
+  const update = (patch: Partial<ScoringConstraints>) => {
+    setConstraints({ ...constraints, ...patch });
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+  };
+
+  const handleAbsChange = (value: string) => {
+    const option = ABS_OPTIONS.find((o) => o.value === value);
+    update({ requiredAbsTypes: option?.types });
+  };
+
+  const handleAddMinScore = () => {
+    const score = parseOptional(minScore);
+    if (score === undefined || score > 10) return;
+    update({ minFactorScores: { ...constraints.minFactorScores, [minFactor]: score } });
+    setMinScore("");
+  };
+
+  const handleRemoveMinScore = (factor: FactorKey) => {
+    const remaining = { ...constraints.minFactorScores };
+    delete remaining[factor];
+    update({ minFactorScores: remaining });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <span className="text-xl">🚧</span>
+          Hard Constraints
+        </CardTitle>
+        <CardDescription>Bikes that fail these are excluded, not just penalised</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Max price (₹ lakh)</span>
+            <Input
+              type="number"
+              inputMode="decimal"
+              placeholder="No limit"
+              defaultValue={constraints.maxExShowroomPrice ? constraints.maxExShowroomPrice / 100000 : ""}
+              onBlur={(e) => {
+                const lakh = parseOptional(e.target.value);
+                update({ maxExShowroomPrice: lakh !== undefined ? lakh * 100000 : undefined });
+              }}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Max seat height (mm)</span>
+            <Input
+              type="number"
+              inputMode="numeric"
+              placeholder="No limit"
+              defaultValue={constraints.maxSeatHeight ?? ""}
+              onBlur={(e) => update({ maxSeatHeight: parseOptional(e.target.value) })}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Min fuel tank (L, petrol bikes)</span>
+            <Input
+              type="number"
+              inputMode="decimal"
+              placeholder="No limit"
+              defaultValue={constraints.minFuelCapacity ?? ""}
+              onBlur={(e) => update({ minFuelCapacity: parseOptional(e.target.value) })}
+            />
+          </label>
+        </div>
+
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">ABS requirement</span>
+          <Tabs value={getAbsRequirement(constraints)} onValueChange={handleAbsChange} className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
+              {ABS_OPTIONS.map((option) => (
+                <TabsTrigger key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs text-muted-foreground">Minimum factor scores</span>
+          <div className="flex gap-2">
+            <select
+              value={minFactor}
+              onChange={(e) => setMinFactor(e.target.value as FactorKey)}
+              className="flex-1 h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+            >
+              {FACTOR_METADATA.map((factor) => (
+                <option key={factor.key} value={factor.key}>
+                  {factor.label}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              step={0.5}
+              placeholder="1-10"
+              value={minScore}
+              onChange={(e) => setMinScore(e.target.value)}
+              className="w-20"
+            />
+            <Button variant="outline" size="sm" onClick={handleAddMinScore} className="h-9">
+              Add
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(constraints.minFactorScores ?? {}).map(([factor, score]) => (
+              <Badge key={factor} variant="secondary" className="gap-1">
+                {FACTOR_METADATA.find((f) => f.key === factor)?.label} ≥ {score}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveMinScore(factor as FactorKey)}
+                  className="ml-1 hover:text-destructive"
+                  aria-label="Remove"
+                >
+                  ×
+                </button>
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+/**
+ * CostOfOwnershipCard Component
+ *
+ * Collects how long the bike will be owned, how far it is ridden each
+ * month and the fuel price, which drive the total cost of ownership
+ * shown per bike and the optional cost-of-ownership factor. The owner's
+ * city (picked by name or PIN code) sets the service network and rates
+ * the ownership factors are judged on.
+ */
+
+import { useState } from "react";
+import { useAppStore } from "@/store/app-store";
+import { DEFAULT_TCO_SETTINGS, type CityTier, type TcoSettings } from "@/types";
+import { SERVICE_REGIONS, findServiceRegionByPin } from "@/engine/service-network";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const FIELDS: Array<{ key: keyof TcoSettings; label: string; unit: string; min: number; max: number }> = [
+  { key: "horizonYears", label: "Ownership", unit: "years", min: 1, max: 20 },
+  { key: "monthlyKm", label: "Monthly distance", unit: "km", min: 50, max: 10000 },
+  { key: "fuelPricePerLitre", label: "Fuel price", unit: "₹/L", min: 1, max: 500 },
+  { key: "electricityPricePerKwh", label: "Electricity price", unit: "₹/kWh", min: 0, max: 100 },
+];
+
+const TIER_LABELS: Record<CityTier, string> = {
+  1: "Metros",
+  2: "Mid-sized cities",
+  3: "Smaller towns",
+};
+
+type FormValues = Record<keyof TcoSettings, string>;
+
+function toFormValues(settings: TcoSettings): FormValues {
+  return {
+    horizonYears: settings.horizonYears.toString(),
+    monthlyKm: settings.monthlyKm.toString(),
+    fuelPricePerLitre: settings.fuelPricePerLitre.toString(),
+    electricityPricePerKwh: settings.electricityPricePerKwh.toString(),
+  };
+}
+
+export function CostOfOwnershipCard() {
+  const tcoSettings = useAppStore((state) => state.tcoSettings);
+  const setTcoSettings = useAppStore((state) => state.setTcoSettings);
+  const runComparison = useAppStore((state) => state.runComparison);
+  const motorcycles = useAppStore((state) => state.motorcycles);
+  const serviceRegionId = useAppStore((state) => state.serviceRegionId);
+  const setServiceRegion = useAppStore((state) => state.setServiceRegion);
+  const [values, setValues] = useState<FormValues>(() => toFormValues(tcoSettings));
+  const [pin, setPin] = useState("");
+  const [pinMessage, setPinMessage] = useState<string | null>(null);
+
+  const parsed = FIELDS.map((field) => {
+    const value = parseFloat(values[field.key]);
+    return Number.isFinite(value) && value >= field.min && value <= field.max ? value : undefined;
+  });
+  const isValid = parsed.every((value) => value !== undefined);
+
+  const apply = (settings: TcoSettings) => {
+    setTcoSettings(settings);
+    setValues(toFormValues(settings));
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+  };
+
+  const selectRegion = (regionId: string | null) => {
+    setServiceRegion(regionId);
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+  };
+
+  // Look the PIN up once all six digits are in
+  const handlePinChange = (value: string) => {
+    setPin(value);
+    if (value.trim().length < 6) {
+      setPinMessage(null);
+      return;
+    }
+    const region = findServiceRegionByPin(value);
+    if (region) {
+      setPinMessage(null);
+      selectRegion(region.id);
+    } else {
+      setPinMessage("Not a listed city: pick \"Other mid-sized city\" or \"Smaller town\"");
+    }
+  };
+
+  const handleApply = () => {
+    if (!isValid) return;
+    apply({
+      horizonYears: Math.round(parsed[0]!),
+      monthlyKm: parsed[1]!,
+      fuelPricePerLitre: parsed[2]!,
+      electricityPricePerKwh: parsed[3]!,
+    });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <span className="text-xl">💰</span>
+          Cost of Ownership
+        </CardTitle>
+        <CardDescription>
+          {tcoSettings.horizonYears} years at {tcoSettings.monthlyKm} km a month. Give the
+          Total Cost of Ownership factor a weight to score it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Your city (service network and rates)</span>
+          <div className="flex gap-2">
+            <select
+              value={serviceRegionId ?? ""}
+              onChange={(e) => selectRegion(e.target.value || null)}
+              className="h-9 flex-1 rounded-md border border-input bg-transparent px-2 text-sm"
+            >
+              <option value="">Not set (typical city)</option>
+              {([1, 2, 3] as CityTier[]).map((tier) => (
+                <optgroup key={tier} label={TIER_LABELS[tier]}>
+                  {SERVICE_REGIONS.filter((region) => region.tier === tier).map((region) => (
+                    <option key={region.id} value={region.id}>
+                      {region.name}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <Input
+              placeholder="PIN code"
+              inputMode="numeric"
+              maxLength={6}
+              value={pin}
+              onChange={(e) => handlePinChange(e.target.value)}
+              className="w-28"
+            />
+          </div>
+          {pinMessage && <p className="text-xs text-destructive">{pinMessage}</p>}
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          {FIELDS.map((field) => (
+            <label key={field.key} className="space-y-1">
+              <span className="text-xs text-muted-foreground">
+                {field.label} ({field.unit})
+              </span>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min={field.min}
+                max={field.max}
+                value={values[field.key]}
+                onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleApply} disabled={!isValid} size="sm" className="flex-1">
+            Apply
+          </Button>
+          <Button onClick={() => apply({ ...DEFAULT_TCO_SETTINGS })} variant="ghost" size="sm">
+            Reset
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
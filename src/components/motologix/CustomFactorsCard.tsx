@@ -0,0 +1,143 @@
+"use client";
+
+/**
+ * CustomFactorsCard Component
+ *
+ * Lets users define their own factors with a formula over motorcycle
+ * fields, e.g. clamp(10 - (seatHeight - 760) / 20, 1, 10). Custom factors
+ * start at zero weight and are weighted with the sliders like any other.
+ */
+
+import { useState } from "react";
+import { useAppStore } from "@/store/app-store";
+import type { CustomFactorKey, FactorMeta } from "@/types";
+import { createCustomFactor } from "@/engine/custom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+const CATEGORIES: FactorMeta["category"][] = ["safety", "comfort", "practicality", "enjoyment"];
+
+const EXAMPLE_FORMULA = "clamp(10 - (seatHeight - 760) / 20, 1, 10)";
+
+export function CustomFactorsCard() {
+  const customFactors = useAppStore((state) => state.customFactors);
+  const addCustomFactor = useAppStore((state) => state.addCustomFactor);
+  const removeCustomFactor = useAppStore((state) => state.removeCustomFactor);
+  const runComparison = useAppStore((state) => state.runComparison);
+  const motorcycles = useAppStore((state) => state.motorcycles);
+  const [label, setLabel] = useState("");
+  const [category, setCategory] = useState<FactorMeta["category"]>("comfort");
+  const [expression, setExpression] = useState("");
+
+  // Validate as the user types; the store validates again on add
+  let problem: string | null = null;
+  if (label.trim() && expression.trim()) {
+    try {
+      createCustomFactor({ label, category, expression }, customFactors);
+    } catch (error) {
+      problem = error instanceof Error ? error.message : "Invalid custom factor";
+    }
+  }
+  const canAdd = label.trim() !== "" && expression.trim() !== "" && problem === null;
+
+  const recalculate = () => {
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    addCustomFactor({ label, category, expression });
+    setLabel("");
+    setExpression("");
+    recalculate();
+  };
+
+  const handleRemove = (key: CustomFactorKey) => {
+    removeCustomFactor(key);
+    recalculate();
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <span className="text-xl">🧮</span>
+          Custom Factors
+        </CardTitle>
+        <CardDescription>
+          Score what matters to you with a formula over the specs. New factors start at 0% weight.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {customFactors.length > 0 && (
+          <div className="space-y-2">
+            {customFactors.map((factor) => (
+              <div
+                key={factor.key}
+                className="flex items-start justify-between gap-2 rounded-md border border-border/50 p-2"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{factor.label}</span>
+                    <Badge variant="outline" className="text-xs capitalize">
+                      {factor.category}
+                    </Badge>
+                  </div>
+                  <p className="text-xs font-mono text-muted-foreground break-all">{factor.expression}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(factor.key)}
+                  className="text-sm text-muted-foreground hover:text-destructive"
+                  aria-label={`Remove ${factor.label}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Name, e.g. Flat-footing"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as FactorMeta["category"])}
+              className="h-9 rounded-md border border-input bg-transparent px-2 text-sm capitalize"
+            >
+              {CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            placeholder={EXAMPLE_FORMULA}
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            className="font-mono text-xs"
+          />
+          {problem && <p className="text-xs text-destructive">{problem}</p>}
+          <p className="text-xs text-muted-foreground">
+            Use spec fields (seatHeight, kerbWeight, power, torque, realWorldRange, …), arithmetic,
+            comparisons, cond ? a : b and clamp, min, max, abs, round, sqrt, pow, has, contains. The
+            result is clamped to 1-10; a missing spec scores 5.
+          </p>
+          <Button onClick={handleAdd} disabled={!canAdd} size="sm" className="w-full">
+            Add factor
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
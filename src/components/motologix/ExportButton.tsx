@@ -9,13 +9,15 @@
 import { useState } from "react";
 import { useAppStore } from "@/store/app-store";
 import { Button } from "@/components/ui/button";
-import { FACTOR_METADATA, type FactorKey } from "@/types";
+import { getFactorMetadata } from "@/engine/custom";
+import { isElectric } from "@/engine/electric";
 
 export function ExportButton() {
   const [isExporting, setIsExporting] = useState(false);
   const scoredMotorcycles = useAppStore((state) => state.scoredMotorcycles);
   const comparison = useAppStore((state) => state.comparison);
   const weights = useAppStore((state) => state.weights);
+  const customFactors = useAppStore((state) => state.customFactors);
 
   const handleExport = async () => {
     if (scoredMotorcycles.length === 0) return;
@@ -117,18 +119,32 @@ export function ExportButton() {
         doc.setFontSize(9);
         doc.setFont("helvetica", "normal");
         doc.text(
-          `${bike.engineCC}cc | ${bike.power} bhp | ${bike.kerbWeight} kg | ABS: ${bike.absType}`,
+          `${isElectric(bike) ? `Electric ${bike.batteryCapacity} kWh` : `${bike.engineCC}cc`} | ${bike.power} bhp | ${bike.kerbWeight} kg | ABS: ${bike.absType}`,
+          margin,
+          yPos
+        );
+        yPos += 6;
+
+        // Cost of ownership
+        const { tco } = scoredBike;
+        doc.text(
+          tco.total !== null
+            ? `Cost over ${tco.horizonYears} years: Rs ${tco.total.toLocaleString("en-IN")} (Rs ${tco.perKm}/km)`
+            : `Running cost over ${tco.horizonYears} years: Rs ${tco.runningCost.toLocaleString("en-IN")} + price`,
           margin,
           yPos
         );
         yPos += 6;
 
         // Factor scores (top 5)
-        const sortedFactors = FACTOR_METADATA.map((f) => ({
-          label: f.label,
-          score: scoredBike.factorScores[f.key as FactorKey],
-          weight: weights[f.key],
-        })).sort((a, b) => b.score * b.weight - a.score * a.weight);
+        const sortedFactors = getFactorMetadata(customFactors)
+          .filter((f) => scoredBike.factorScores[f.key] !== undefined)
+          .map((f) => ({
+            label: f.label,
+            score: scoredBike.factorScores[f.key],
+            weight: scoredBike.notApplicable[f.key] ? 0 : (weights[f.key] ?? 0),
+          }))
+          .sort((a, b) => b.score * b.weight - a.score * a.weight);
 
         doc.setFontSize(8);
         const topFactors = sortedFactors.slice(0, 5);
@@ -0,0 +1,132 @@
+"use client";
+
+/**
+ * LoadScenarioCompare Component
+ *
+ * Scores one of the compared bikes under two load scenarios side by side,
+ * e.g. commuting solo against touring two-up with luggage, and lists the
+ * factors that change.
+ */
+
+import { useState } from "react";
+import { useAppStore } from "@/store/app-store";
+import type { LoadScenarioId } from "@/types";
+import { LOAD_SCENARIOS, getDefaultLoadScenario, resolveLoad } from "@/engine/load";
+import { getFactorMetadata } from "@/engine/custom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const SELECT_CLASS = "h-9 w-full rounded-md border border-input bg-transparent px-2 text-sm";
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? "+" : ""}${Number(delta.toFixed(1))}`;
+}
+
+export function LoadScenarioCompare() {
+  const scoredMotorcycles = useAppStore((state) => state.scoredMotorcycles);
+  const pillionMode = useAppStore((state) => state.pillionMode);
+  const loadScenario = useAppStore((state) => state.loadScenario);
+  const riderProfile = useAppStore((state) => state.riderProfile);
+  const customFactors = useAppStore((state) => state.customFactors);
+  const scoreLoadScenarios = useAppStore((state) => state.scoreLoadScenarios);
+  const [bikeId, setBikeId] = useState<string | null>(null);
+  const [first, setFirst] = useState<LoadScenarioId | null>(null);
+  const [second, setSecond] = useState<LoadScenarioId>("pillion-luggage");
+
+  if (scoredMotorcycles.length === 0) {
+    return null;
+  }
+
+  // Defaults: the top bike, under the scenario it was ranked with
+  const bike =
+    scoredMotorcycles.find((scored) => scored.motorcycle.id === bikeId)?.motorcycle ??
+    scoredMotorcycles[0].motorcycle;
+  const scenarios: [LoadScenarioId, LoadScenarioId] = [
+    first ?? loadScenario ?? getDefaultLoadScenario(pillionMode),
+    second,
+  ];
+  const [a, b] = scoreLoadScenarios(bike.id, scenarios);
+  if (!a || !b) {
+    return null;
+  }
+
+  const changes = getFactorMetadata(customFactors)
+    .map((factor) => ({
+      label: factor.label,
+      scoreA: a.factorScores[factor.key],
+      scoreB: b.factorScores[factor.key],
+    }))
+    .filter((row) => row.scoreA !== undefined && row.scoreB !== undefined && row.scoreA !== row.scoreB);
+  const loads = scenarios.map((id) => resolveLoad(id, riderProfile ?? undefined));
+
+  return (
+    <Card className="w-full border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <span>🧳</span>
+          Load Scenarios
+        </CardTitle>
+        <CardDescription>How one bike scores with a different load on board</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <select
+          value={bike.id}
+          onChange={(e) => setBikeId(e.target.value)}
+          className={SELECT_CLASS}
+        >
+          {scoredMotorcycles.map(({ motorcycle }) => (
+            <option key={motorcycle.id} value={motorcycle.id}>
+              {motorcycle.brand} {motorcycle.model}
+            </option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-2 gap-3">
+          {[a, b].map((scored, i) => (
+            <div key={i} className="space-y-2 rounded-md border border-border/50 p-3">
+              <select
+                value={scenarios[i]}
+                onChange={(e) =>
+                  (i === 0 ? setFirst : setSecond)(e.target.value as LoadScenarioId)
+                }
+                className={SELECT_CLASS}
+              >
+                {LOAD_SCENARIOS.map((scenario) => (
+                  <option key={scenario.id} value={scenario.id}>
+                    {scenario.label}
+                  </option>
+                ))}
+              </select>
+              <div className="flex items-baseline justify-between">
+                <span className="text-xs text-muted-foreground">
+                  {loads[i].payload} kg on board ·{" "}
+                  {Math.round((loads[i].payload / bike.kerbWeight) * 100)}% of kerb weight
+                </span>
+                <span className="text-2xl font-bold font-mono">{scored.finalScore}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {changes.length > 0 ? (
+          <div className="space-y-1">
+            {changes.map((row) => (
+              <div key={row.label} className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">{row.label}</span>
+                <span className="font-mono">
+                  {row.scoreA} → {row.scoreB}{" "}
+                  <span className={row.scoreB > row.scoreA ? "text-green-500" : "text-red-500"}>
+                    ({formatDelta(row.scoreB - row.scoreA)})
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">
+            No factor changes between these scenarios.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,10 +7,14 @@
  * - None: No pillion consideration
  * - Primary: Peer/girlfriend (comfort important)
  * - Secondary: Parents (stability and safety critical)
+ *
+ * plus the load scenario (solo, luggage, adult or child pillion), which
+ * follows the pillion mode unless one is picked.
  */
 
 import { useAppStore } from "@/store/app-store";
-import type { PillionMode } from "@/types";
+import type { LoadScenarioId, PillionMode } from "@/types";
+import { LOAD_SCENARIOS, getDefaultLoadScenario, getLoadScenario } from "@/engine/load";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
@@ -43,6 +47,8 @@ const PILLION_OPTIONS: Array<{
 export function PillionToggle() {
   const pillionMode = useAppStore((state) => state.pillionMode);
   const setPillionMode = useAppStore((state) => state.setPillionMode);
+  const loadScenario = useAppStore((state) => state.loadScenario);
+  const setLoadScenario = useAppStore((state) => state.setLoadScenario);
   const runComparison = useAppStore((state) => state.runComparison);
   const motorcycles = useAppStore((state) => state.motorcycles);
 
@@ -54,7 +60,16 @@ export function PillionToggle() {
     }
   };
 
+  const handleLoadChange = (value: string) => {
+    setLoadScenario(value ? (value as LoadScenarioId) : null);
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+  };
+
   const currentOption = PILLION_OPTIONS.find((o) => o.value === pillionMode);
+  const defaultLoad = getLoadScenario(getDefaultLoadScenario(pillionMode));
+  const currentLoad = loadScenario ? getLoadScenario(loadScenario) : defaultLoad;
 
   return (
     <Card className="w-full">
@@ -86,6 +101,23 @@ export function PillionToggle() {
             {currentOption.description}
           </p>
         )}
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">Load</span>
+          <select
+            value={loadScenario ?? ""}
+            onChange={(e) => handleLoadChange(e.target.value)}
+            className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          >
+            <option value="">Match pillion mode ({defaultLoad.label})</option>
+            {LOAD_SCENARIOS.map((scenario) => (
+              <option key={scenario.id} value={scenario.id}>
+                {scenario.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="text-xs text-muted-foreground text-center">{currentLoad.description}</p>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,141 @@
+"use client";
+
+/**
+ * PresetPicker Component
+ *
+ * Picks a named weight preset (built-in persona or user-saved),
+ * shows how far the sliders have moved from it, and saves,
+ * exports and imports user presets as JSON.
+ */
+
+import { useRef, useState, type ChangeEvent } from "react";
+import { useAppStore } from "@/store/app-store";
+import { BUILT_IN_PRESETS, exportPresets, weightDistance } from "@/engine/presets";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+export function PresetPicker() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const weights = useAppStore((state) => state.weights);
+  const pillionMode = useAppStore((state) => state.pillionMode);
+  const activePresetId = useAppStore((state) => state.activePresetId);
+  const userPresets = useAppStore((state) => state.userPresets);
+  const applyPreset = useAppStore((state) => state.applyPreset);
+  const saveUserPreset = useAppStore((state) => state.saveUserPreset);
+  const deleteUserPreset = useAppStore((state) => state.deleteUserPreset);
+  const importPresets = useAppStore((state) => state.importPresets);
+  const runComparison = useAppStore((state) => state.runComparison);
+  const motorcycles = useAppStore((state) => state.motorcycles);
+  const [presetName, setPresetName] = useState("");
+
+  const active = [...BUILT_IN_PRESETS, ...userPresets].find((p) => p.id === activePresetId);
+  const distance = active ? weightDistance(weights, active.weights) : null;
+  const isUserPreset = active ? userPresets.some((p) => p.id === active.id) : false;
+
+  const handleSelect = (id: string) => {
+    if (!id) return;
+    applyPreset(id);
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+  };
+
+  const handleSave = () => {
+    saveUserPreset(presetName);
+    setPresetName("");
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(userPresets)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "motologix-presets.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    importPresets(await file.text());
+    e.target.value = ""; // Allow re-importing the same file
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg bg-muted/30 border border-border/50">
+      <div className="flex items-center gap-2">
+        <select
+          value={activePresetId ?? ""}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+        >
+          <option value="" disabled>
+            Choose a preset…
+          </option>
+          <optgroup label="Personas">
+            {BUILT_IN_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="My presets">
+              {userPresets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {isUserPreset && (
+          <Button variant="ghost" size="sm" onClick={() => deleteUserPreset(active!.id)}>
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {active && (
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-muted-foreground truncate">{active.description}</span>
+          <Badge variant="outline" className="font-mono shrink-0">
+            {distance === 0 ? "matches preset" : `${distance} pts from preset`}
+            {active.pillionMode !== pillionMode && " · pillion differs"}
+          </Badge>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Save current as…"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          className="h-8 text-sm"
+        />
+        <Button variant="outline" size="sm" onClick={handleSave} disabled={!presetName.trim()}>
+          Save
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="ghost" size="sm" onClick={handleExport} disabled={userPresets.length === 0}>
+          Export JSON
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+          Import JSON
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+    </div>
+  );
+}
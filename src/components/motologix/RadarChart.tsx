@@ -8,8 +8,7 @@
  */
 
 import { useAppStore } from "@/store/app-store";
-import type { FactorKey } from "@/types";
-import { FACTOR_METADATA } from "@/types";
+import { getFactorMetadata } from "@/engine/custom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Radar,
@@ -37,6 +36,7 @@ interface RadarChartProps {
 
 export function RadarChart({ showOnlyTop = 3 }: RadarChartProps) {
   const scoredMotorcycles = useAppStore((state) => state.scoredMotorcycles);
+  const customFactors = useAppStore((state) => state.customFactors);
 
   if (scoredMotorcycles.length === 0) {
     return null;
@@ -46,20 +46,22 @@ export function RadarChart({ showOnlyTop = 3 }: RadarChartProps) {
   const bikesToShow = scoredMotorcycles.slice(0, showOnlyTop);
 
   // Prepare data for radar chart
-  // Each data point is a factor, with values for each bike
-  const chartData = FACTOR_METADATA.map((factor) => {
-    const dataPoint: Record<string, string | number> = {
-      factor: factor.label.split(" ")[0], // Short label for radar
-      fullLabel: factor.label,
-    };
+  // Each data point is a factor, with values for each bike (custom factors once scored)
+  const chartData = getFactorMetadata(customFactors)
+    .filter((factor) => bikesToShow[0].factorScores[factor.key] !== undefined)
+    .map((factor) => {
+      const dataPoint: Record<string, string | number> = {
+        factor: factor.label.split(" ")[0], // Short label for radar
+        fullLabel: factor.label,
+      };
 
-    bikesToShow.forEach((bike) => {
-      const bikeName = `${bike.motorcycle.brand} ${bike.motorcycle.model}`;
-      dataPoint[bikeName] = bike.factorScores[factor.key as FactorKey];
-    });
+      bikesToShow.forEach((bike) => {
+        const bikeName = `${bike.motorcycle.brand} ${bike.motorcycle.model}`;
+        dataPoint[bikeName] = bike.factorScores[factor.key];
+      });
 
-    return dataPoint;
-  });
+      return dataPoint;
+    });
 
   return (
     <Card className="w-full border-border/50 bg-card/50 backdrop-blur-sm">
@@ -67,6 +69,9 @@ export function RadarChart({ showOnlyTop = 3 }: RadarChartProps) {
         <CardTitle className="flex items-center gap-2 text-lg">
           <span>📊</span>
           Factor Comparison
+          {bikesToShow[0].relative && (
+            <span className="text-xs font-normal text-muted-foreground">(relative)</span>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="pb-4">
@@ -4,17 +4,31 @@
  * ResultsGrid Component
  *
  * Displays ranked motorcycle results as cards with staggered animations.
+ * Bikes eliminated by hard constraints are listed separately with the reasons.
+ * In uncertainty mode each score shows its interval and chance of ranking first.
+ * Bikes beaten on every factor by another bike are flagged as dominated.
+ * Statistically tied bikes share a rank and say which tie-breaker ordered them.
+ * Each card shows the bike's estimated total cost of ownership.
+ * Electric bikes show battery size and charging cost in place of engine and fuel.
  */
 
 import { useAppStore } from "@/store/app-store";
-import type { ScoredMotorcycle } from "@/types";
+import type { ScoredMotorcycle, ExcludedMotorcycle, RankTie, TcoEstimate } from "@/types";
+import {
+  getAggregationMethodMeta,
+  getRealWorldRange,
+  getVehicleClass,
+  isElectric,
+  type ScoreInterval,
+} from "@/engine";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { ScoreBreakdown } from "./ScoreBreakdown";
 import { motion, AnimatePresence } from "framer-motion";
 
-// Rank badges
-function RankBadge({ rank }: { rank: number }) {
+// Rank badges; a shared rank is marked "tied" and explains the order on hover
+function RankBadge({ rank, tie, tiedNames = [] }: { rank: number; tie?: RankTie; tiedNames?: string[] }) {
   const colors: Record<number, string> = {
     1: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20",
     2: "bg-zinc-200/50 text-zinc-700 dark:bg-zinc-700/50 dark:text-zinc-200 border-zinc-500/20",
@@ -28,8 +42,13 @@ function RankBadge({ rank }: { rank: number }) {
   };
 
   return (
-    <Badge variant="outline" className={`${colors[rank] || "bg-zinc-600"} text-lg px-3 py-1 border`}>
+    <Badge
+      variant="outline"
+      className={`${colors[rank] || "bg-zinc-600"} text-lg px-3 py-1 border`}
+      title={tie ? `Tied with ${tiedNames.join(", ")}. ${tie.message}` : undefined}
+    >
       {emojis[rank] || `#${rank}`}
+      {tie && <span className="ml-1 text-xs font-normal">tied</span>}
     </Badge>
   );
 }
@@ -55,8 +74,120 @@ function ConfidenceBadge({ confidence }: { confidence: "high" | "medium" | "low"
   );
 }
 
+// Point score, or "72 (68–76), 61% chance of #1" in uncertainty mode
+function ScoreDisplay({ scoredBike, interval }: { scoredBike: ScoredMotorcycle; interval?: ScoreInterval }) {
+  const score = scoredBike.finalScore;
+  // Relative scores only mean something within this comparison
+  const scaleLabel = scoredBike.relative ? `/100 relative (${scoredBike.relative.method})` : "/100";
+
+  // Ranked by another method: show that method's score in its own units
+  if (scoredBike.aggregate) {
+    const method = getAggregationMethodMeta(scoredBike.aggregate.method);
+    return (
+      <div className="text-right">
+        <div className="flex items-baseline justify-end gap-1">
+          <span className="text-3xl font-bold text-primary">
+            {scoredBike.aggregate.score ?? `#${scoredBike.aggregate.rank}`}
+          </span>
+          {interval && interval.low !== null && (
+            <span className="text-sm text-muted-foreground font-mono">
+              ({interval.low}–{interval.high})
+            </span>
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {method.label} · {method.scoreLabel}
+        </div>
+        {interval && (
+          <div className="text-xs text-muted-foreground">
+            {Math.round(interval.winProbability * 100)}% chance of #1
+          </div>
+        )}
+        <div className="text-xs text-muted-foreground">Weighted sum {score}{scaleLabel}</div>
+      </div>
+    );
+  }
+
+  if (!interval) {
+    return (
+      <div className="text-right">
+        <div className="text-3xl font-bold text-primary">{score}</div>
+        <div className="text-xs text-muted-foreground">{scaleLabel}</div>
+        {scoredBike.relative && (
+          <div className="text-xs text-muted-foreground">
+            Absolute {scoredBike.relative.absoluteFinalScore}/100
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-right">
+      <div className="flex items-baseline justify-end gap-1">
+        <span className="text-3xl font-bold text-primary">{score}</span>
+        <span className="text-sm text-muted-foreground font-mono">
+          ({interval.low}–{interval.high})
+        </span>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {scoredBike.relative && "relative · "}
+        {Math.round(interval.winProbability * 100)}% chance of #1
+      </div>
+    </div>
+  );
+}
+
+const toLakh = (amount: number) => `₹${(amount / 100000).toFixed(2)} L`;
+
+// Total cost of ownership with its parts
+function TcoSummary({ tco }: { tco: TcoEstimate }) {
+  const parts = [
+    { label: tco.energyWhPerKm !== null ? "Charging" : "Fuel", amount: tco.fuel },
+    { label: "Service", amount: tco.service },
+    { label: "Tyres", amount: tco.tyres },
+    { label: "Insurance", amount: tco.insurance },
+  ];
+
+  return (
+    <div className="pt-2 border-t border-border/50 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          Cost over {tco.horizonYears} years ({tco.totalKm.toLocaleString("en-IN")} km)
+        </span>
+        <span className="font-bold font-mono">
+          {tco.total !== null ? toLakh(tco.total) : `${toLakh(tco.runningCost)} + price`}
+          {tco.perKm !== null && (
+            <span className="text-xs font-normal text-muted-foreground"> · ₹{tco.perKm}/km</span>
+          )}
+        </span>
+      </div>
+      <p className="text-[10px] text-muted-foreground text-right">
+        {parts.map((part) => `${part.label} ${toLakh(part.amount)}`).join(" · ")}
+        {tco.energyWhPerKm !== null
+          ? ` · ${tco.energyWhPerKm} Wh/km (${tco.mileageSource})`
+          : ` · ${tco.mileageKmpl} km/l (${tco.mileageSource})`}
+      </p>
+    </div>
+  );
+}
+
 // Single result card
-function ResultCard({ scoredBike, isTop, index }: { scoredBike: ScoredMotorcycle; isTop: boolean; index: number }) {
+function ResultCard({
+  scoredBike,
+  isTop,
+  index,
+  interval,
+  dominatorName,
+  tiedNames,
+}: {
+  scoredBike: ScoredMotorcycle;
+  isTop: boolean;
+  index: number;
+  interval?: ScoreInterval;
+  dominatorName?: string;
+  tiedNames?: string[];
+}) {
   const bike = scoredBike.motorcycle;
 
   return (
@@ -71,7 +202,7 @@ function ResultCard({ scoredBike, isTop, index }: { scoredBike: ScoredMotorcycle
           <div className="flex items-start justify-between">
             <div className="space-y-1">
               <div className="flex items-center gap-3">
-                <RankBadge rank={scoredBike.rank} />
+                <RankBadge rank={scoredBike.rank} tie={scoredBike.tie} tiedNames={tiedNames} />
                 <CardTitle className="text-xl font-heading">
                   {bike.brand} {bike.model}
                 </CardTitle>
@@ -83,13 +214,21 @@ function ResultCard({ scoredBike, isTop, index }: { scoredBike: ScoredMotorcycle
               </div>
               <CardDescription>
                 {bike.year && `${bike.year} · `}
-                {bike.engineCC}cc · {bike.power} bhp · {bike.kerbWeight} kg
+                {bike.vehicleClass && `${getVehicleClass(bike.vehicleClass).label} · `}
+                {isElectric(bike) ? `Electric · ${bike.batteryCapacity} kWh` : `${bike.engineCC}cc`} · {bike.power} bhp · {bike.kerbWeight} kg
               </CardDescription>
+              {scoredBike.tie && (
+                <p className="text-xs text-muted-foreground">
+                  Statistically tied with {tiedNames?.join(", ")} · {scoredBike.tie.message}
+                </p>
+              )}
+              {dominatorName && (
+                <Badge variant="outline" className="bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20">
+                  Dominated · beaten on every factor by {dominatorName}
+                </Badge>
+              )}
             </div>
-            <div className="text-right">
-              <div className="text-3xl font-bold text-primary">{scoredBike.finalScore}</div>
-              <div className="text-xs text-muted-foreground">/100</div>
-            </div>
+            <ScoreDisplay scoredBike={scoredBike} interval={interval} />
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -108,8 +247,13 @@ function ResultCard({ scoredBike, isTop, index }: { scoredBike: ScoredMotorcycle
               <div className="font-medium">{bike.wheelbase} mm</div>
             </div>
             <div className="space-y-1 p-2 rounded-md bg-muted/50">
-              <div className="text-muted-foreground text-xs uppercase tracking-wider">Fuel</div>
-              <div className="font-medium">{bike.fuelCapacity} L</div>
+              <div className="text-muted-foreground text-xs uppercase tracking-wider">Range</div>
+              <div className="font-medium">
+                {getRealWorldRange(bike)} km
+                <span className="text-xs text-muted-foreground">
+                  {isElectric(bike) ? ` · ${bike.batteryCapacity} kWh` : ` · ${bike.fuelCapacity} L`}
+                </span>
+              </div>
             </div>
           </div>
 
@@ -134,17 +278,76 @@ function ResultCard({ scoredBike, isTop, index }: { scoredBike: ScoredMotorcycle
               <p className="text-[10px] text-muted-foreground text-right mt-1">* varies by state</p>
             </div>
           )}
+
+          <TcoSummary tco={scoredBike.tco} />
         </CardContent>
       </Card>
     </motion.div>
   );
 }
 
+// Bikes eliminated by hard constraints
+function ExcludedSection({ excluded }: { excluded: ExcludedMotorcycle[] }) {
+  if (excluded.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold font-heading flex items-center gap-2 text-muted-foreground">
+          <span>🚫</span> Excluded by Constraints
+        </h3>
+        <Badge variant="outline" className="font-mono">{excluded.length} excluded</Badge>
+      </div>
+      {excluded.map((excludedBike, index) => (
+        <motion.div
+          key={excludedBike.motorcycle.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3, delay: index * 0.05 }}
+        >
+          <Card className="w-full border-dashed opacity-80">
+            <CardContent className="py-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">
+                  {excludedBike.motorcycle.brand} {excludedBike.motorcycle.model}
+                </span>
+                <span className="text-sm text-muted-foreground font-mono line-through">
+                  {excludedBike.finalScore}/100
+                </span>
+              </div>
+              <ul className="space-y-1">
+                {excludedBike.violations.map((violation, i) => (
+                  <li key={i} className="text-sm text-destructive flex items-start gap-2">
+                    <span>✕</span>
+                    {violation.message}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
+
 export function ResultsGrid() {
   const scoredMotorcycles = useAppStore((state) => state.scoredMotorcycles);
+  const excludedMotorcycles = useAppStore((state) => state.excludedMotorcycles);
+  const scoreIntervals = useAppStore((state) => state.scoreIntervals);
+  const uncertaintyMode = useAppStore((state) => state.uncertaintyMode);
+  const setUncertaintyMode = useAppStore((state) => state.setUncertaintyMode);
+  const runComparison = useAppStore((state) => state.runComparison);
   const isLoading = useAppStore((state) => state.isLoading);
   const error = useAppStore((state) => state.error);
 
+  const nameOf = (id: string) => {
+    const bike = scoredMotorcycles.find((scored) => scored.motorcycle.id === id)?.motorcycle;
+    return bike ? `${bike.brand} ${bike.model}` : undefined;
+  };
+
   if (isLoading) {
     return (
       <Card className="w-full glass-card">
@@ -164,13 +367,16 @@ export function ResultsGrid() {
 
   if (error && scoredMotorcycles.length === 0) {
     return (
-      <Card className="w-full border-destructive/50 bg-destructive/5">
-        <CardContent className="py-8 text-center">
-          <div className="text-4xl mb-4">❌</div>
-          <p className="text-destructive font-medium">Error</p>
-          <p className="text-sm text-muted-foreground mt-1">{error}</p>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        <Card className="w-full border-destructive/50 bg-destructive/5">
+          <CardContent className="py-8 text-center">
+            <div className="text-4xl mb-4">❌</div>
+            <p className="text-destructive font-medium">Error</p>
+            <p className="text-sm text-muted-foreground mt-1">{error}</p>
+          </CardContent>
+        </Card>
+        <ExcludedSection excluded={excludedMotorcycles} />
+      </div>
     );
   }
 
@@ -199,7 +405,19 @@ export function ResultsGrid() {
         <h2 className="text-2xl font-bold font-heading flex items-center gap-2">
           <span>📊</span> Results
         </h2>
-        <Badge variant="secondary" className="font-mono">{scoredMotorcycles.length} bikes compared</Badge>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Uncertainty
+            <Switch
+              checked={uncertaintyMode}
+              onCheckedChange={(enabled) => {
+                setUncertaintyMode(enabled);
+                runComparison();
+              }}
+            />
+          </label>
+          <Badge variant="secondary" className="font-mono">{scoredMotorcycles.length} bikes compared</Badge>
+        </div>
       </div>
 
       {error && (
@@ -223,10 +441,15 @@ export function ResultsGrid() {
               scoredBike={scoredBike}
               isTop={index === 0}
               index={index}
+              interval={uncertaintyMode ? scoreIntervals[scoredBike.motorcycle.id] : undefined}
+              dominatorName={scoredBike.dominatedBy && nameOf(scoredBike.dominatedBy[0])}
+              tiedNames={scoredBike.tie?.tiedWith.map((id) => nameOf(id) ?? id)}
             />
           ))}
         </AnimatePresence>
       </div>
+
+      <ExcludedSection excluded={excludedMotorcycles} />
     </div>
   );
 }
@@ -0,0 +1,125 @@
+"use client";
+
+/**
+ * RiderProfileCard Component
+ *
+ * Collects the rider's body measurements so seat reach and
+ * load are judged against the actual rider, not fixed bands.
+ */
+
+import { useState } from "react";
+import { useAppStore } from "@/store/app-store";
+import type { RiderProfile } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const FIELDS: Array<{
+  key: keyof RiderProfile;
+  label: string;
+  unit: string;
+  placeholder: string;
+  optional?: boolean;
+}> = [
+  { key: "height", label: "Height", unit: "cm", placeholder: "170" },
+  { key: "inseam", label: "Inseam", unit: "cm", placeholder: "auto", optional: true },
+  { key: "bodyWeight", label: "Body weight", unit: "kg", placeholder: "70" },
+  { key: "pillionWeight", label: "Pillion weight", unit: "kg", placeholder: "65", optional: true },
+];
+
+type FormValues = Record<keyof RiderProfile, string>;
+
+function toFormValues(profile: RiderProfile | null): FormValues {
+  return {
+    height: profile?.height?.toString() ?? "",
+    inseam: profile?.inseam?.toString() ?? "",
+    bodyWeight: profile?.bodyWeight?.toString() ?? "",
+    pillionWeight: profile?.pillionWeight?.toString() ?? "",
+  };
+}
+
+function parseOptional(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export function RiderProfileCard() {
+  const riderProfile = useAppStore((state) => state.riderProfile);
+  const setRiderProfile = useAppStore((state) => state.setRiderProfile);
+  const runComparison = useAppStore((state) => state.runComparison);
+  const motorcycles = useAppStore((state) => state.motorcycles);
+  const [values, setValues] = useState<FormValues>(() => toFormValues(riderProfile));
+
+  const height = parseOptional(values.height);
+  const bodyWeight = parseOptional(values.bodyWeight);
+  const isValid =
+    height !== undefined && height >= 120 && height <= 220 &&
+    bodyWeight !== undefined && bodyWeight >= 30 && bodyWeight <= 200;
+
+  const recalculate = () => {
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+  };
+
+  const handleApply = () => {
+    if (!isValid) return;
+    setRiderProfile({
+      height: height!,
+      inseam: parseOptional(values.inseam),
+      bodyWeight: bodyWeight!,
+      pillionWeight: parseOptional(values.pillionWeight),
+    });
+    recalculate();
+  };
+
+  const handleClear = () => {
+    setRiderProfile(null);
+    setValues(toFormValues(null));
+    recalculate();
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <span className="text-xl">🧍</span>
+          Rider Profile
+        </CardTitle>
+        <CardDescription>
+          {riderProfile
+            ? "Seat height and load are judged for you"
+            : "Optional - personalises seat height and load scoring"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {FIELDS.map((field) => (
+            <label key={field.key} className="space-y-1">
+              <span className="text-xs text-muted-foreground">
+                {field.label} ({field.unit}){field.optional && " · optional"}
+              </span>
+              <Input
+                type="number"
+                inputMode="decimal"
+                placeholder={field.placeholder}
+                value={values[field.key]}
+                onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleApply} disabled={!isValid} size="sm" className="flex-1">
+            Apply
+          </Button>
+          {riderProfile && (
+            <Button onClick={handleClear} variant="ghost" size="sm">
+              Clear
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
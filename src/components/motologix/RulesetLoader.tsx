@@ -0,0 +1,179 @@
+"use client";
+
+/**
+ * RulesetLoader Component
+ *
+ * Shows the active scoring ruleset and lets users pick an earlier built-in
+ * version or load an alternate one from a JSON file (e.g. thresholds tuned
+ * for a region).
+ * Also switches between step thresholds and smooth curves, and between
+ * absolute and relative (within-comparison) scores.
+ */
+
+import { useRef, type ChangeEvent } from "react";
+import { useAppStore } from "@/store/app-store";
+import { BUILT_IN_RULESETS, DEFAULT_RULESET } from "@/engine/rulesets";
+import { FACTOR_METADATA, type NormalizationMode, type RelativeScaling } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+const MODE_OPTIONS: Array<{ value: NormalizationMode; label: string; description: string }> = [
+  { value: "step", label: "Steps", description: "Thresholds as written: a spec just past a breakpoint jumps a full step" },
+  { value: "linear", label: "Linear", description: "Each step becomes a ramp centred on the same breakpoint" },
+  { value: "sigmoid", label: "Sigmoid", description: "Each step becomes an S-curve centred on the same breakpoint" },
+];
+
+const SCALE_OPTIONS: Array<{ value: RelativeScaling | "absolute"; label: string; description: string }> = [
+  { value: "absolute", label: "Absolute", description: "Scores mean the same in any comparison" },
+  { value: "min-max", label: "Min-max", description: "Relative: worst bike here gets 1, best gets 10 on each factor" },
+  { value: "z-score", label: "Z-score", description: "Relative: each factor centred on the average bike here" },
+];
+
+export function RulesetLoader() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const ruleset = useAppStore((state) => state.ruleset);
+  const loadRuleset = useAppStore((state) => state.loadRuleset);
+  const selectRuleset = useAppStore((state) => state.selectRuleset);
+  const rulesetSource = useAppStore((state) => state.rulesetSource);
+  const resetRuleset = useAppStore((state) => state.resetRuleset);
+  const normalizationMode = useAppStore((state) => state.normalizationMode);
+  const setNormalizationMode = useAppStore((state) => state.setNormalizationMode);
+  const relativeScaling = useAppStore((state) => state.relativeScaling);
+  const setRelativeScaling = useAppStore((state) => state.setRelativeScaling);
+  const scale = relativeScaling ?? "absolute";
+  const runComparison = useAppStore((state) => state.runComparison);
+  const motorcycles = useAppStore((state) => state.motorcycles);
+
+  const active = ruleset ?? DEFAULT_RULESET;
+
+  const recalculate = () => {
+    if (motorcycles.length > 0) {
+      runComparison();
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    loadRuleset(await file.text());
+    recalculate();
+    e.target.value = ""; // Allow re-loading the same file
+  };
+
+  const handleSelect = (version: string) => {
+    selectRuleset(version);
+    recalculate();
+  };
+
+  const handleReset = () => {
+    resetRuleset();
+    recalculate();
+  };
+
+  const handleModeChange = (value: string) => {
+    setNormalizationMode(value as NormalizationMode);
+    recalculate();
+  };
+
+  const handleScaleChange = (value: string) => {
+    setRelativeScaling(value === "absolute" ? null : (value as RelativeScaling));
+    recalculate();
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <span className="text-xl">📐</span>
+          Scoring Rules
+        </CardTitle>
+        <CardDescription>Thresholds used to turn specs into factor scores</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-sm font-medium truncate">{active.id}</span>
+            <Badge variant="outline" className="font-mono text-xs">
+              {active.version}
+            </Badge>
+          </div>
+          <div className="flex items-center gap-1">
+            {ruleset && (
+              <Button variant="ghost" size="sm" onClick={handleReset}>
+                Reset
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              Load JSON
+            </Button>
+          </div>
+        </div>
+        {active.description && (
+          <p className="text-xs text-muted-foreground">{active.description}</p>
+        )}
+        {!rulesetSource && (
+          <select
+            value={active.version}
+            onChange={(e) => handleSelect(e.target.value)}
+            className="w-full h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+          >
+            {[...BUILT_IN_RULESETS].reverse().map((builtIn) => (
+              <option key={builtIn.version} value={builtIn.version}>
+                {builtIn.version}
+                {builtIn === DEFAULT_RULESET ? " (latest)" : ""}
+              </option>
+            ))}
+          </select>
+        )}
+        {active.inheritedFactors && (
+          <p className="text-xs text-muted-foreground">
+            From built-in {active.basedOn}:{" "}
+            {active.inheritedFactors
+              .map((key) => FACTOR_METADATA.find((f) => f.key === key)?.label ?? key)
+              .join(", ")}
+          </p>
+        )}
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Scoring curves</span>
+          <Tabs value={normalizationMode} onValueChange={handleModeChange} className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
+              {MODE_OPTIONS.map((option) => (
+                <TabsTrigger key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <p className="text-xs text-muted-foreground">
+            {MODE_OPTIONS.find((o) => o.value === normalizationMode)?.description}
+          </p>
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Score scale</span>
+          <Tabs value={scale} onValueChange={handleScaleChange} className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
+              {SCALE_OPTIONS.map((option) => (
+                <TabsTrigger key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <p className="text-xs text-muted-foreground">
+            {SCALE_OPTIONS.find((o) => o.value === scale)?.description}
+          </p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </CardContent>
+    </Card>
+  );
+}
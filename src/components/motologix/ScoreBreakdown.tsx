@@ -5,13 +5,16 @@
  *
  * Shows individual factor scores as horizontal bars.
  * Now with expandable view to show all factors.
+ * Click a factor row to see which rules produced its score.
+ * Scores from a vehicle class's own rules say which class.
  */
 
 import { useState } from "react";
 import { useAppStore } from "@/store/app-store";
-import type { ScoredMotorcycle, FactorKey } from "@/types";
+import type { ScoredMotorcycle, FactorKey, FactorTrace, FiredRule, RuleComparator } from "@/types";
 import { FACTOR_METADATA } from "@/types";
 import { getScoreBreakdown } from "@/engine/scoring";
+import { getVehicleClass } from "@/engine/vehicle-classes";
 import { Button } from "@/components/ui/button";
 
 // Score color based on value
@@ -38,6 +41,98 @@ function ConfidenceDot({ confidence }: { confidence: "high" | "medium" | "low" }
   );
 }
 
+const COMPARATOR_SYMBOLS: Record<RuleComparator, string> = {
+  lt: "<",
+  lte: "≤",
+  gt: ">",
+  gte: "≥",
+  eq: "=",
+  neq: "≠",
+  between: "in",
+  includes: "contains",
+  exists: "is set",
+};
+
+function formatValue(value: FiredRule["value"]): string {
+  return typeof value === "number" ? String(Math.round(value * 100) / 100) : value;
+}
+
+function formatThreshold(threshold: FiredRule["threshold"]): string {
+  if (Array.isArray(threshold)) {
+    return typeof threshold[0] === "number"
+      ? `${threshold[0]}–${threshold[1]}`
+      : threshold.join(" / ");
+  }
+  return String(threshold);
+}
+
+function formatDelta(delta: number): string {
+  const rounded = Math.round(delta * 100) / 100;
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+}
+
+// Rule-by-rule derivation of a single factor score
+function FactorTraceDetails({ trace }: { trace: FactorTrace }) {
+  return (
+    <div className="mt-1 mb-2 rounded-md bg-muted/40 border border-border/40 p-2 text-xs space-y-1 font-mono">
+      {trace.formula ? (
+        <>
+          <div className="break-all">{trace.formula.expression}</div>
+          {Object.entries(trace.formula.inputs).map(([field, value]) => (
+            <div key={field} className="flex justify-between gap-2">
+              <span className="text-muted-foreground">{field}</span>
+              <span>{formatValue(value)}</span>
+            </div>
+          ))}
+          {trace.formula.missing && (
+            <div className="text-muted-foreground italic">
+              {trace.formula.missing}; scored at the baseline ({trace.baseline})
+            </div>
+          )}
+        </>
+      ) : trace.override ? (
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">AI rating ({trace.override.field})</span>
+          <span>{formatValue(trace.override.value)}</span>
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-between gap-2">
+            <span className="text-muted-foreground">Baseline</span>
+            <span>{trace.baseline}</span>
+          </div>
+          {trace.vehicleClass && (
+            <div className="text-muted-foreground italic">
+              {getVehicleClass(trace.vehicleClass).label} rules
+            </div>
+          )}
+          {trace.fired.length === 0 && (
+            <div className="text-muted-foreground italic">No rules fired</div>
+          )}
+          {trace.fired.map((rule, index) => (
+            <div key={index} className="flex justify-between gap-2" title={rule.group}>
+              <span className="truncate">
+                {rule.field} {formatValue(rule.value)} {rule.curve ? "≈" : COMPARATOR_SYMBOLS[rule.comparator]}{" "}
+                {formatThreshold(rule.threshold)}
+                {rule.curve && ` (${rule.curve})`}
+              </span>
+              <span className={rule.delta >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+                {formatDelta(rule.delta)}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+      <div className="flex justify-between gap-2 pt-1 border-t border-border/40 text-muted-foreground">
+        <span>
+          Raw {formatValue(trace.rawScore)} → rounded {trace.roundedScore} → clamp [{trace.clamp[0]}, {trace.clamp[1]}]
+        </span>
+        <span className="font-medium text-foreground">{trace.score}</span>
+      </div>
+    </div>
+  );
+}
+
 interface ScoreBreakdownProps {
   scoredBike: ScoredMotorcycle;
   initiallyExpanded?: boolean;
@@ -45,8 +140,10 @@ interface ScoreBreakdownProps {
 
 export function ScoreBreakdown({ scoredBike, initiallyExpanded = false }: ScoreBreakdownProps) {
   const [isExpanded, setIsExpanded] = useState(initiallyExpanded);
+  const [openFactor, setOpenFactor] = useState<FactorKey | null>(null);
   const weights = useAppStore((state) => state.weights);
-  const breakdown = getScoreBreakdown(scoredBike, weights);
+  const customFactors = useAppStore((state) => state.customFactors);
+  const breakdown = getScoreBreakdown(scoredBike, weights, customFactors);
 
   // Show top 5 by default, or all if expanded
   const displayItems = isExpanded ? breakdown : breakdown.slice(0, 5);
@@ -54,28 +151,56 @@ export function ScoreBreakdown({ scoredBike, initiallyExpanded = false }: ScoreB
 
   return (
     <div className="space-y-2">
-      <h4 className="text-sm font-medium text-muted-foreground">Score Breakdown</h4>
+      <h4 className="text-sm font-medium text-muted-foreground">
+        Score Breakdown
+        {scoredBike.relative && ` (relative, ${scoredBike.relative.method})`}
+      </h4>
       <div className="space-y-2">
         {displayItems.map((item) => (
-          <div key={item.factor} className="space-y-1">
-            <div className="flex items-center justify-between text-sm">
+          <div key={item.factor} className={`space-y-1 ${item.notApplicable ? "opacity-50" : ""}`}>
+            <button
+              type="button"
+              onClick={() => setOpenFactor(openFactor === item.factor ? null : item.factor)}
+              className="w-full flex items-center justify-between text-sm text-left hover:text-primary transition-colors"
+              aria-expanded={openFactor === item.factor}
+            >
               <div className="flex items-center gap-2">
                 <ConfidenceDot confidence={item.confidence} />
                 <span>{item.label}</span>
+                <span className="text-[10px] text-muted-foreground">
+                  {openFactor === item.factor ? "▲" : "▼"}
+                </span>
               </div>
               <div className="flex items-center gap-2">
-                <span className="text-muted-foreground text-xs">
-                  ({Math.round(item.weight * 100)}%)
+                <span className="text-muted-foreground text-xs" title={item.notApplicable}>
+                  {item.notApplicable ? "(n/a)" : `(${Math.round(item.weight * 100)}%)`}
+                </span>
+                <span
+                  className="font-medium w-8 text-right"
+                  title={
+                    scoredBike.relative
+                      ? `Absolute score: ${scoredBike.relative.absoluteFactorScores[item.factor]}/10`
+                      : undefined
+                  }
+                >
+                  {item.score}
                 </span>
-                <span className="font-medium w-8 text-right">{item.score}</span>
               </div>
-            </div>
+            </button>
             <div className="h-2 bg-muted rounded-full overflow-hidden">
               <div
                 className={`h-full ${getScoreColor(item.score)} transition-all duration-500`}
                 style={{ width: `${item.score * 10}%` }}
               />
             </div>
+            {item.notApplicable && (
+              <p className="text-[10px] text-muted-foreground">
+                Not counted: {item.notApplicable}
+              </p>
+            )}
+            {openFactor === item.factor && (
+              <FactorTraceDetails trace={scoredBike.traces[item.factor]} />
+            )}
           </div>
         ))}
       </div>
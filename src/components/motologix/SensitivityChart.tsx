@@ -0,0 +1,158 @@
+"use client";
+
+/**
+ * SensitivityChart Component
+ *
+ * Tornado chart of how the leader's margin over the runner-up moves
+ * when each factor weight is nudged ±10%, plus the break-even weight
+ * at which the top two would swap.
+ */
+
+import { useAppStore } from "@/store/app-store";
+import { analyzeWeightSensitivity, type RankStability } from "@/engine";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+} from "recharts";
+
+const PERTURBATION = 0.1;
+
+const STABILITY_STYLES: Record<RankStability, { label: string; className: string }> = {
+  stable: { label: "Stable", className: "bg-green-500/15 text-green-600 dark:text-green-400" },
+  moderate: { label: "Moderate", className: "bg-amber-500/15 text-amber-600 dark:text-amber-400" },
+  fragile: { label: "Fragile", className: "bg-red-500/15 text-red-600 dark:text-red-400" },
+};
+
+function formatPercent(weight: number): string {
+  return `${Math.round(weight * 100)}%`;
+}
+
+export function SensitivityChart() {
+  const scoredMotorcycles = useAppStore((state) => state.scoredMotorcycles);
+  const weights = useAppStore((state) => state.weights);
+  const aggregationMethod = useAppStore((state) => state.aggregationMethod);
+  const customFactors = useAppStore((state) => state.customFactors);
+
+  // Margins are weighted-sum points; they don't describe other ranking methods
+  const report =
+    aggregationMethod === "weighted-sum"
+      ? analyzeWeightSensitivity(scoredMotorcycles, weights, PERTURBATION, customFactors)
+      : null;
+  if (!report) {
+    return null;
+  }
+
+  const leader = scoredMotorcycles.find((bike) => bike.motorcycle.id === report.leaderId);
+  const runnerUp = scoredMotorcycles.find((bike) => bike.motorcycle.id === report.runnerUpId);
+  if (!leader || !runnerUp) {
+    return null;
+  }
+
+  const leaderName = `${leader.motorcycle.brand} ${leader.motorcycle.model}`;
+  const runnerUpName = `${runnerUp.motorcycle.brand} ${runnerUp.motorcycle.model}`;
+  const stability = STABILITY_STYLES[report.stability];
+
+  // Bars show the change in margin relative to the current weights
+  const chartData = report.factors.map((factor) => ({
+    factor: factor.label.split(" ")[0],
+    fullLabel: factor.label,
+    low: Number((factor.marginAtLow - report.currentMargin).toFixed(2)),
+    high: Number((factor.marginAtHigh - report.currentMargin).toFixed(2)),
+  }));
+
+  const swapFactors = report.factors
+    .filter((f) => f.breakEvenWeight !== null)
+    .sort((a, b) => a.weightChangeToSwap! - b.weightChangeToSwap!)
+    .slice(0, 3);
+
+  return (
+    <Card className="w-full border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between gap-2 text-lg">
+          <span className="flex items-center gap-2">
+            <span>🌪️</span>
+            Weight Sensitivity
+          </span>
+          <Badge variant="outline" className={`border-0 ${stability.className}`}>
+            {stability.label}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {leaderName} leads {runnerUpName} by {report.currentMargin.toFixed(1)} points
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pb-4">
+        <div className="w-full h-[350px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={chartData}
+              layout="vertical"
+              stackOffset="sign"
+              margin={{ top: 10, right: 20, bottom: 10, left: 10 }}
+            >
+              <XAxis
+                type="number"
+                tick={{ fill: "currentColor", fontSize: 10, opacity: 0.5 }}
+                tickLine={false}
+              />
+              <YAxis
+                type="category"
+                dataKey="factor"
+                width={80}
+                tick={{ fill: "currentColor", fontSize: 11, opacity: 0.7 }}
+                tickLine={false}
+              />
+              <ReferenceLine x={0} stroke="currentColor" strokeOpacity={0.3} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "hsl(var(--card))",
+                  border: "1px solid hsl(var(--border))",
+                  borderRadius: "8px",
+                  boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+                }}
+                labelStyle={{ color: "hsl(var(--foreground))" }}
+                labelFormatter={(_, payload) => payload?.[0]?.payload?.fullLabel ?? ""}
+                formatter={(value) => [`${Number(value) > 0 ? "+" : ""}${value} pts`]}
+              />
+              <Bar dataKey="low" name={`−${PERTURBATION * 100}% weight`} stackId="swing" fill="#f59e0b" />
+              <Bar dataKey="high" name={`+${PERTURBATION * 100}% weight`} stackId="swing" fill="#3b82f6" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-4 mt-2 pt-2 border-t border-border/50 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm bg-amber-500" />
+            −{PERTURBATION * 100}% weight
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm bg-blue-500" />
+            +{PERTURBATION * 100}% weight
+          </span>
+        </div>
+
+        <div className="mt-3 space-y-1 text-sm">
+          {swapFactors.length === 0 ? (
+            <p className="text-muted-foreground">
+              No single weight change makes {runnerUpName} overtake {leaderName}.
+            </p>
+          ) : (
+            swapFactors.map((factor) => (
+              <p key={factor.factor} className="text-muted-foreground">
+                <span className="font-medium text-foreground">{factor.label}</span>: top two swap
+                at {formatPercent(factor.breakEvenWeight!)} (now {formatPercent(factor.currentWeight)})
+              </p>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+/**
+ * SpecComparisonTable Component
+ *
+ * The compared bikes' specs side by side, in ranking order: engine, chassis
+ * and brakes, then rider aids and features. Specs discovery could not find
+ * show a dash; defaulted specs are marked. Electric bikes show their battery,
+ * range and charging time in the engine rows.
+ */
+
+import { useAppStore } from "@/store/app-store";
+import type { InstrumentDisplay, Lighting, Motorcycle } from "@/types";
+import { getElectricRange, getRealWorldRange, isElectric } from "@/engine";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface SpecRow {
+  label: string;
+  field: keyof Motorcycle; // checked against autoFilledFields
+  format: (bike: Motorcycle) => string | undefined;
+}
+
+// "slipper-assist" -> "Slipper assist"
+function humanize(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const text = value.replace(/-/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+const LIGHTING_LABELS: Record<Lighting, string> = {
+  halogen: "Halogen",
+  "led-headlamp": "LED headlamp",
+  "full-led": "Full LED",
+};
+
+const DISPLAY_LABELS: Record<InstrumentDisplay, string> = {
+  analogue: "Analogue",
+  lcd: "LCD",
+  tft: "TFT",
+  "tft-navigation": "TFT + navigation",
+};
+
+function atRpm(value: number, rpm: number | undefined): string {
+  return rpm ? `${value} @ ${rpm} rpm` : `${value}`;
+}
+
+const SECTIONS: { title: string; rows: SpecRow[] }[] = [
+  {
+    title: "Engine",
+    rows: [
+      {
+        label: "Engine",
+        field: "engineCC",
+        format: (bike) =>
+          (isElectric(bike)
+            ? [`Electric · ${bike.batteryCapacity} kWh`, bike.motorPeakPower && `${bike.motorPeakPower} kW motor`]
+            : [
+                `${bike.engineCC}cc`,
+                bike.cylinders && `${bike.cylinders}-cyl`,
+                bike.coolingType && `${bike.coolingType}-cooled`,
+              ]
+          )
+            .filter(Boolean)
+            .join(" · "),
+      },
+      { label: "Power (bhp)", field: "power", format: (bike) => atRpm(bike.power, bike.peakPowerRpm) },
+      { label: "Torque (Nm)", field: "torque", format: (bike) => atRpm(bike.torque, bike.peakTorqueRpm) },
+      { label: "Kerb weight", field: "kerbWeight", format: (bike) => `${bike.kerbWeight} kg` },
+      {
+        label: "Range",
+        field: "fuelCapacity",
+        format: (bike) =>
+          isElectric(bike)
+            ? `${getElectricRange(bike).km} km per charge`
+            : `${getRealWorldRange(bike)} km · ${bike.fuelCapacity} L`,
+      },
+      {
+        label: "Charging (0–80%)",
+        field: "chargingTime",
+        format: (bike) => (isElectric(bike) && bike.chargingTime ? `${bike.chargingTime} h` : undefined),
+      },
+    ],
+  },
+  {
+    title: "Chassis & brakes",
+    rows: [
+      { label: "Seat height", field: "seatHeight", format: (bike) => `${bike.seatHeight} mm` },
+      { label: "Brakes", field: "frontBrake", format: (bike) => `${bike.frontBrake} / ${bike.rearBrake}` },
+      { label: "ABS", field: "absType", format: (bike) => humanize(bike.absType) },
+      { label: "Tyres", field: "rearTyreWidth", format: (bike) => `${bike.frontTyreWidth} / ${bike.rearTyreWidth} mm` },
+    ],
+  },
+  {
+    title: "Rider aids & features",
+    rows: [
+      { label: "Traction control", field: "tractionControl", format: (bike) => humanize(bike.tractionControl) },
+      {
+        label: "Riding modes",
+        field: "ridingModes",
+        format: (bike) => (bike.ridingModes === undefined ? undefined : `${bike.ridingModes || "None"}`),
+      },
+      { label: "Clutch", field: "clutch", format: (bike) => humanize(bike.clutch) },
+      { label: "Quickshifter", field: "quickshifter", format: (bike) => humanize(bike.quickshifter) },
+      { label: "Cruise control", field: "cruiseControl", format: (bike) => humanize(bike.cruiseControl) },
+      { label: "Lighting", field: "lighting", format: (bike) => bike.lighting && LIGHTING_LABELS[bike.lighting] },
+      { label: "Display", field: "display", format: (bike) => bike.display && DISPLAY_LABELS[bike.display] },
+    ],
+  },
+];
+
+export function SpecComparisonTable() {
+  const scoredMotorcycles = useAppStore((state) => state.scoredMotorcycles);
+
+  if (scoredMotorcycles.length === 0) {
+    return null;
+  }
+
+  const bikes = scoredMotorcycles.map((scored) => scored.motorcycle);
+
+  return (
+    <Card className="w-full border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <span>📋</span>
+          Spec Comparison
+        </CardTitle>
+        <CardDescription>Specs side by side, in ranking order</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground">
+                <th className="text-left font-medium py-2 pr-2">Spec</th>
+                {bikes.map((bike) => (
+                  <th key={bike.id} className="text-left font-medium py-2 px-2">
+                    {bike.brand} {bike.model}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            {SECTIONS.map((section) => (
+              <tbody key={section.title}>
+                <tr>
+                  <td
+                    colSpan={bikes.length + 1}
+                    className="pt-3 pb-1 text-xs uppercase tracking-wider text-muted-foreground"
+                  >
+                    {section.title}
+                  </td>
+                </tr>
+                {section.rows.map((row) => (
+                  <tr key={row.label} className="border-t border-border/50">
+                    <td className="py-2 pr-2 text-muted-foreground">{row.label}</td>
+                    {bikes.map((bike) => {
+                      const autoFilled = bike.autoFilledFields?.includes(row.field);
+                      return (
+                        <td key={bike.id} className="py-2 px-2">
+                          {row.format(bike) ?? <span className="text-muted-foreground">—</span>}
+                          {autoFilled && (
+                            <span className="text-xs text-amber-600 dark:text-amber-400"> (default)</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,16 +5,22 @@
  *
  * Configurable sliders for adjusting factor weights.
  * Weights auto-normalize to sum to 100%.
+ * Named presets set all weights (and pillion mode) at once.
+ * Factors that do not apply to the compared bikes are greyed out with the reason.
+ * Reset restores the default weights of the compared bikes' class, if they share one.
  * Illustrated with icons and Framer Motion animations.
  */
 
 import { useAppStore } from "@/store/app-store";
-import { FACTOR_METADATA, type FactorKey } from "@/types";
+import type { FactorKey, FactorMeta } from "@/types";
+import { getFactorMetadata } from "@/engine/custom";
+import { getSharedVehicleClass, getVehicleClass } from "@/engine/vehicle-classes";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { motion, AnimatePresence } from "framer-motion";
+import { PresetPicker } from "./PresetPicker";
 
 // Category colors
 const CATEGORY_COLORS: Record<string, string> = {
@@ -38,9 +44,12 @@ export function WeightSliders() {
   const resetWeights = useAppStore((state) => state.resetWeights);
   const runComparison = useAppStore((state) => state.runComparison);
   const motorcycles = useAppStore((state) => state.motorcycles);
+  const customFactors = useAppStore((state) => state.customFactors);
+  const scoredMotorcycles = useAppStore((state) => state.scoredMotorcycles);
+  const sharedClass = getSharedVehicleClass(motorcycles);
 
-  // Group factors by category
-  const groupedFactors = FACTOR_METADATA.reduce(
+  // Group factors by category (custom factors join their chosen category)
+  const groupedFactors = getFactorMetadata(customFactors).reduce(
     (acc, factor) => {
       if (!acc[factor.category]) {
         acc[factor.category] = [];
@@ -48,9 +57,20 @@ export function WeightSliders() {
       acc[factor.category].push(factor);
       return acc;
     },
-    {} as Record<string, typeof FACTOR_METADATA>
+    {} as Record<string, FactorMeta[]>
   );
 
+  // Why a factor is left out of the current results, and whether it is for every bike
+  const getExclusion = (key: FactorKey) => {
+    const excluded = scoredMotorcycles.filter((scored) => scored.notApplicable[key]);
+    if (excluded.length === 0) return null;
+    return {
+      reason: excluded[0].notApplicable[key]!,
+      everyBike: excluded.length === scoredMotorcycles.length,
+      names: excluded.map((scored) => scored.motorcycle.model).join(", "),
+    };
+  };
+
   const handleWeightChange = (key: FactorKey, value: number) => {
     setWeights({ [key]: value / 100 }); // Convert percentage to decimal
   };
@@ -74,12 +94,21 @@ export function WeightSliders() {
               Adjust importance of each factor (weights auto-normalize)
             </CardDescription>
           </div>
-          <Button variant="ghost" size="sm" onClick={resetWeights} className="hover:text-primary">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={resetWeights}
+            className="hover:text-primary"
+            title={`Reset to the ${sharedClass ? `${getVehicleClass(sharedClass).label} ` : ""}default weights`}
+          >
             Reset
           </Button>
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Presets */}
+        <PresetPicker />
+
         {Object.entries(groupedFactors).map(([category, factors], categoryIndex) => (
           <motion.div
             key={category}
@@ -97,11 +126,12 @@ export function WeightSliders() {
             {/* Factors in Category */}
             <div className="space-y-5 pl-7 border-l-2 border-border/50 ml-2">
               {factors.map((factor, factorIndex) => {
-                const weightPercent = Math.round(weights[factor.key] * 100);
+                const weightPercent = Math.round((weights[factor.key] ?? 0) * 100);
+                const exclusion = getExclusion(factor.key);
                 return (
                   <motion.div
                     key={factor.key}
-                    className="space-y-2 group"
+                    className={`space-y-2 group ${exclusion?.everyBike ? "opacity-50" : ""}`}
                     whileHover={{ x: 5 }}
                     transition={{ type: "spring", stiffness: 300, damping: 20 }}
                   >
@@ -129,6 +159,12 @@ export function WeightSliders() {
                     <p className="text-[10px] text-muted-foreground opacity-70 group-hover:opacity-100 transition-opacity">
                       {factor.description}
                     </p>
+                    {exclusion && (
+                      <p className="text-[10px] text-amber-600 dark:text-amber-400">
+                        Not counted{exclusion.everyBike ? "" : ` for ${exclusion.names}`}:{" "}
+                        {exclusion.reason}
+                      </p>
+                    )}
                   </motion.div>
                 );
               })}
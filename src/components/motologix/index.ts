@@ -4,10 +4,20 @@
 
 export { BikeSearch } from "./BikeSearch";
 export { WeightSliders } from "./WeightSliders";
+export { AhpQuestionnaire } from "./AhpQuestionnaire";
 export { PillionToggle } from "./PillionToggle";
 export { ResultsGrid } from "./ResultsGrid";
+export { SpecComparisonTable } from "./SpecComparisonTable";
 export { ScoreBreakdown, CompactScoreBreakdown } from "./ScoreBreakdown";
 export { Explanation } from "./Explanation";
 export { RadarChart } from "./RadarChart";
+export { SensitivityChart } from "./SensitivityChart";
+export { LoadScenarioCompare } from "./LoadScenarioCompare";
+export { AggregationPanel } from "./AggregationPanel";
 export { ExportButton } from "./ExportButton";
+export { RulesetLoader } from "./RulesetLoader";
+export { RiderProfileCard } from "./RiderProfileCard";
+export { CostOfOwnershipCard } from "./CostOfOwnershipCard";
+export { CustomFactorsCard } from "./CustomFactorsCard";
+export { ConstraintsPanel } from "./ConstraintsPanel";
 
@@ -0,0 +1,272 @@
+/**
+ * Motologix - Aggregation Methods
+ *
+ * Alternatives to the weighted sum for combining the same factor
+ * scores and weights. Each method answers a slightly different
+ * question, so each carries its own score semantics:
+ *
+ * - weighted-sum: weighted average of factor scores (0-100)
+ * - topsis: closeness to an ideal bike built from the best score on
+ *   every factor in this comparison (0-100, relative to the line-up)
+ * - weighted-product: weighted geometric mean; one weak factor drags
+ *   the result down harder than in a sum (0-100)
+ * - lexicographic: safety first, then the next heaviest factor, and so
+ *   on; ordinal only, there is no score
+ */
+
+import type {
+  AggregatedScore,
+  AggregationMethod,
+  FactorKey,
+  FactorWeights,
+  ScoredMotorcycle,
+} from "@/types";
+import {
+  calculateFinalScore,
+  getApplicableWeights,
+  getNotApplicableToAny,
+  normalizeWeights,
+} from "./scoring";
+
+// ============================================
+// METHOD METADATA
+// ============================================
+
+export interface AggregationMethodMeta {
+  method: AggregationMethod;
+  label: string;
+  scoreLabel: string; // what the number means, e.g. "closeness to ideal"
+  description: string;
+  ordinal: boolean; // true when only the order is meaningful
+}
+
+export const AGGREGATION_METHODS: AggregationMethodMeta[] = [
+  {
+    method: "weighted-sum",
+    label: "Weighted Sum",
+    scoreLabel: "/100",
+    description: "Weighted average of factor scores",
+    ordinal: false,
+  },
+  {
+    method: "topsis",
+    label: "TOPSIS",
+    scoreLabel: "% to ideal",
+    description: "Closeness to the best-on-every-factor bike in this comparison",
+    ordinal: false,
+  },
+  {
+    method: "weighted-product",
+    label: "Weighted Product",
+    scoreLabel: "/100",
+    description: "Weighted geometric mean - weak factors hurt more",
+    ordinal: false,
+  },
+  {
+    method: "lexicographic",
+    label: "Safety First",
+    scoreLabel: "rank only",
+    description: "Best braking & safety wins; heavier-weighted factors break ties",
+    ordinal: true,
+  },
+];
+
+export function getAggregationMethodMeta(method: AggregationMethod): AggregationMethodMeta {
+  return AGGREGATION_METHODS.find((m) => m.method === method) ?? AGGREGATION_METHODS[0];
+}
+
+// ============================================
+// METHODS
+// ============================================
+
+// Built-in factors plus any custom factors the bikes were scored on
+const factorKeysOf = (bikes: ScoredMotorcycle[]): FactorKey[] =>
+  Object.keys(bikes[0]?.factorScores ?? {}) as FactorKey[];
+
+/**
+ * TOPSIS closeness coefficient for each bike (0-100).
+ * All factors are benefit criteria (higher is better).
+ */
+function topsisScores(bikes: ScoredMotorcycle[], weights: FactorWeights): number[] {
+  const keys = factorKeysOf(bikes);
+
+  // Vector-normalize each factor column, then apply weights
+  const weighted = bikes.map(() => ({}) as Record<FactorKey, number>);
+  for (const key of keys) {
+    const norm = Math.sqrt(bikes.reduce((sum, b) => sum + b.factorScores[key] ** 2, 0));
+    bikes.forEach((bike, i) => {
+      weighted[i][key] = norm > 0 ? (bike.factorScores[key] / norm) * (weights[key] ?? 0) : 0;
+    });
+  }
+
+  const ideal = {} as Record<FactorKey, number>;
+  const antiIdeal = {} as Record<FactorKey, number>;
+  for (const key of keys) {
+    ideal[key] = Math.max(...weighted.map((row) => row[key]));
+    antiIdeal[key] = Math.min(...weighted.map((row) => row[key]));
+  }
+
+  return weighted.map((row) => {
+    const toIdeal = Math.sqrt(keys.reduce((sum, k) => sum + (row[k] - ideal[k]) ** 2, 0));
+    const toAntiIdeal = Math.sqrt(keys.reduce((sum, k) => sum + (row[k] - antiIdeal[k]) ** 2, 0));
+    const total = toIdeal + toAntiIdeal;
+    // Identical bikes (or a single bike) are all equally ideal
+    return total > 0 ? Math.round((toAntiIdeal / total) * 100) : 100;
+  });
+}
+
+/**
+ * Weighted geometric mean of factor scores, on the 0-100 scale
+ */
+function weightedProductScore(bike: ScoredMotorcycle, weights: FactorWeights): number {
+  const logSum = factorKeysOf([bike]).reduce(
+    (sum, key) => sum + (weights[key] ?? 0) * Math.log(Math.max(bike.factorScores[key], 0.1)),
+    0
+  );
+  return Math.round(Math.exp(logSum) * 10);
+}
+
+/**
+ * Factor priority for the lexicographic ordering:
+ * braking & safety first, then the rest by weight (heaviest first)
+ */
+function lexicographicOrder(keys: FactorKey[], weights: FactorWeights): FactorKey[] {
+  const rest = keys.filter((key) => key !== "brakingSafetyConfidence").sort(
+    (a, b) => (weights[b] ?? 0) - (weights[a] ?? 0)
+  );
+  return keys.includes("brakingSafetyConfidence") ? ["brakingSafetyConfidence", ...rest] : rest;
+}
+
+function compareLexicographic(
+  a: ScoredMotorcycle,
+  b: ScoredMotorcycle,
+  order: FactorKey[]
+): number {
+  for (const key of order) {
+    const diff = b.factorScores[key] - a.factorScores[key];
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+/**
+ * Score and rank the bikes with the given method.
+ * Results are in the same order as `bikes`; ties share a rank.
+ * A factor that does not apply to one of the bikes is left out for all of them,
+ * except in the weighted sum, which leaves out each bike's own factors so it
+ * matches `finalScore`.
+ */
+export function aggregateScores(
+  bikes: ScoredMotorcycle[],
+  weights: FactorWeights,
+  method: AggregationMethod
+): AggregatedScore[] {
+  const notApplicable = getNotApplicableToAny(bikes);
+  const normalizedWeights = normalizeWeights(getApplicableWeights(weights, notApplicable));
+
+  if (method === "lexicographic") {
+    const keys = factorKeysOf(bikes).filter((key) => notApplicable[key] === undefined);
+    const order = lexicographicOrder(keys, normalizedWeights);
+    return bikes.map((bike) => ({
+      method,
+      score: null,
+      rank: 1 + bikes.filter((other) => compareLexicographic(other, bike, order) < 0).length,
+    }));
+  }
+
+  let scores: number[];
+  switch (method) {
+    case "topsis":
+      scores = topsisScores(bikes, normalizedWeights);
+      break;
+    case "weighted-product":
+      scores = bikes.map((bike) => weightedProductScore(bike, normalizedWeights));
+      break;
+    default: {
+      const allWeights = normalizeWeights(weights);
+      scores = bikes.map((bike) => calculateFinalScore(bike.factorScores, allWeights, bike.notApplicable));
+    }
+  }
+
+  return scores.map((score) => ({
+    method,
+    score,
+    rank: 1 + scores.filter((other) => other > score).length,
+  }));
+}
+
+/**
+ * Re-rank scored bikes by an aggregation method.
+ * Returns a new array sorted by the method's rank, with `rank` and `aggregate` set.
+ */
+export function rankByAggregation(
+  bikes: ScoredMotorcycle[],
+  weights: FactorWeights,
+  method: AggregationMethod
+): ScoredMotorcycle[] {
+  const aggregates = aggregateScores(bikes, weights, method);
+
+  return bikes
+    .map((bike, i) => ({ ...bike, rank: aggregates[i].rank, aggregate: aggregates[i] }))
+    .sort((a, b) => a.rank - b.rank || b.finalScore - a.finalScore);
+}
+
+// ============================================
+// DISAGREEMENT
+// ============================================
+
+export interface MethodRanking {
+  motorcycleId: string;
+  ranks: Record<AggregationMethod, number>;
+  scores: Record<AggregationMethod, number | null>;
+  rankSpread: number; // worst rank - best rank across methods
+}
+
+export interface AggregationComparison {
+  rows: MethodRanking[]; // in the order of the input bikes
+  winners: Record<AggregationMethod, string[]>; // ids ranked #1 by each method
+  unanimous: boolean; // every method produces the same ranking
+}
+
+/**
+ * Run every method on the same bikes and show where the rankings differ
+ */
+export function compareAggregationMethods(
+  bikes: ScoredMotorcycle[],
+  weights: FactorWeights
+): AggregationComparison {
+  const results = Object.fromEntries(
+    AGGREGATION_METHODS.map(({ method }) => [method, aggregateScores(bikes, weights, method)])
+  ) as Record<AggregationMethod, AggregatedScore[]>;
+
+  const rows: MethodRanking[] = bikes.map((bike, i) => {
+    const ranks = {} as Record<AggregationMethod, number>;
+    const scores = {} as Record<AggregationMethod, number | null>;
+    for (const { method } of AGGREGATION_METHODS) {
+      ranks[method] = results[method][i].rank;
+      scores[method] = results[method][i].score;
+    }
+    const rankValues = Object.values(ranks);
+    return {
+      motorcycleId: bike.motorcycle.id,
+      ranks,
+      scores,
+      rankSpread: Math.max(...rankValues) - Math.min(...rankValues),
+    };
+  });
+
+  const winners = {} as Record<AggregationMethod, string[]>;
+  for (const { method } of AGGREGATION_METHODS) {
+    winners[method] = rows.filter((row) => row.ranks[method] === 1).map((row) => row.motorcycleId);
+  }
+
+  return {
+    rows,
+    winners,
+    unanimous: rows.every((row) => row.rankSpread === 0),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Motologix - AHP Weight Elicitation
+ *
+ * Derives factor weights from pairwise questions ("Braking & Safety vs
+ * Fun: which matters more, and by how much?") using the Analytic
+ * Hierarchy Process. Weights are the principal eigenvector of the
+ * pairwise matrix; the consistency ratio measures how well the answers
+ * agree with each other.
+ */
+
+import type { FactorKey, FactorWeights } from "@/types";
+import { FACTOR_METADATA } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * One answer: `a` is `value` times as important as `b`
+ * (Saaty scale, 1/9 to 9; 1 = equally important)
+ */
+export interface PairwiseJudgement {
+  a: FactorKey;
+  b: FactorKey;
+  value: number;
+}
+
+/**
+ * Three answers that go round in a circle (A over B, B over C, C over A)
+ */
+export interface AhpContradiction {
+  factors: [FactorKey, FactorKey, FactorKey];
+  message: string;
+}
+
+export interface AhpResult {
+  weights: FactorWeights;
+  lambdaMax: number;
+  consistencyIndex: number;
+  consistencyRatio: number;
+  isConsistent: boolean; // CR below the usual 0.1 threshold
+  contradictions: AhpContradiction[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Saaty's random consistency index by matrix size
+const RANDOM_INDEX: Record<number, number> = {
+  1: 0,
+  2: 0,
+  3: 0.58,
+  4: 0.9,
+  5: 1.12,
+  6: 1.24,
+  7: 1.32,
+  8: 1.41,
+  9: 1.45,
+  10: 1.49,
+};
+
+const CONSISTENCY_THRESHOLD = 0.1;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-9;
+
+// Optional factors are off by default and not asked about
+const FACTOR_KEYS: FactorKey[] = FACTOR_METADATA.filter((f) => !f.optional).map((f) => f.key);
+
+function labelOf(key: FactorKey): string {
+  return FACTOR_METADATA.find((f) => f.key === key)?.label ?? key;
+}
+
+// ============================================
+// QUESTIONS
+// ============================================
+
+/**
+ * Every pair of non-optional factors, in FACTOR_METADATA order (45 questions for 10 factors)
+ */
+export function getAhpQuestions(): Array<[FactorKey, FactorKey]> {
+  const pairs: Array<[FactorKey, FactorKey]> = [];
+  for (let i = 0; i < FACTOR_KEYS.length; i++) {
+    for (let j = i + 1; j < FACTOR_KEYS.length; j++) {
+      pairs.push([FACTOR_KEYS[i], FACTOR_KEYS[j]]);
+    }
+  }
+  return pairs;
+}
+
+// ============================================
+// COMPUTATION
+// ============================================
+
+/**
+ * Reciprocal pairwise matrix; unanswered pairs count as equally important
+ */
+function buildPairwiseMatrix(judgements: PairwiseJudgement[]): number[][] {
+  const n = FACTOR_KEYS.length;
+  const matrix = Array.from({ length: n }, () => Array<number>(n).fill(1));
+
+  for (const { a, b, value } of judgements) {
+    const i = FACTOR_KEYS.indexOf(a);
+    const j = FACTOR_KEYS.indexOf(b);
+    if (i < 0 || j < 0 || i === j || !(value > 0)) continue;
+    matrix[i][j] = value;
+    matrix[j][i] = 1 / value;
+  }
+
+  return matrix;
+}
+
+/**
+ * Principal eigenvector (normalized to sum to 1) by power iteration
+ */
+function principalEigenvector(matrix: number[][]): number[] {
+  const n = matrix.length;
+  let vector = Array<number>(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = matrix.map((row) => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+    const total = next.reduce((sum, value) => sum + value, 0);
+    const normalized = next.map((value) => value / total);
+    const change = normalized.reduce((sum, value, i) => sum + Math.abs(value - vector[i]), 0);
+    vector = normalized;
+    if (change < TOLERANCE) break;
+  }
+
+  return vector;
+}
+
+/**
+ * Find preference cycles among the answers (A > B, B > C, but C > A)
+ */
+function findContradictions(matrix: number[][]): AhpContradiction[] {
+  const n = matrix.length;
+  const prefers = (i: number, j: number) => matrix[i][j] > 1;
+  const contradictions: AhpContradiction[] = [];
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      for (let k = 0; k < n; k++) {
+        // Report each cycle once, starting from its smallest index
+        if (i >= j || i >= k || j === k) continue;
+        if (prefers(i, j) && prefers(j, k) && prefers(k, i)) {
+          const [a, b, c] = [FACTOR_KEYS[i], FACTOR_KEYS[j], FACTOR_KEYS[k]];
+          contradictions.push({
+            factors: [a, b, c],
+            message: `${labelOf(a)} over ${labelOf(b)}, ${labelOf(b)} over ${labelOf(c)}, but ${labelOf(c)} over ${labelOf(a)}`,
+          });
+        }
+      }
+    }
+  }
+
+  return contradictions;
+}
+
+/**
+ * Compute factor weights and consistency from pairwise answers.
+ * Optional factors get zero weight.
+ */
+export function computeAhpWeights(judgements: PairwiseJudgement[]): AhpResult {
+  const matrix = buildPairwiseMatrix(judgements);
+  const n = matrix.length;
+  const vector = principalEigenvector(matrix);
+
+  // λmax: average of (A·w)_i / w_i
+  const product = matrix.map((row) => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+  const lambdaMax = product.reduce((sum, value, i) => sum + value / vector[i], 0) / n;
+
+  const consistencyIndex = n > 1 ? Math.max(0, (lambdaMax - n) / (n - 1)) : 0;
+  const randomIndex = RANDOM_INDEX[n] ?? 1.49;
+  const consistencyRatio = randomIndex > 0 ? consistencyIndex / randomIndex : 0;
+
+  const weights = Object.fromEntries(FACTOR_METADATA.map((f) => [f.key, 0])) as unknown as FactorWeights;
+  FACTOR_KEYS.forEach((key, i) => {
+    weights[key] = vector[i];
+  });
+
+  return {
+    weights,
+    lambdaMax,
+    consistencyIndex,
+    consistencyRatio,
+    isConsistent: consistencyRatio < CONSISTENCY_THRESHOLD,
+    contradictions: findContradictions(matrix),
+  };
+}
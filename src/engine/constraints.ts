@@ -0,0 +1,99 @@
+/**
+ * Motologix - Hard Constraints
+ *
+ * Eliminates bikes before ranking (over budget, no ABS, seat too tall...).
+ * Unlike weights, a failed constraint can't be outweighed by other factors.
+ */
+
+import type {
+  FactorKey,
+  ScoredMotorcycle,
+  ScoringConstraints,
+  ConstraintViolation,
+} from "@/types";
+import { FACTOR_METADATA } from "@/types";
+import { isElectric } from "./electric";
+
+/**
+ * Check whether any constraint is actually set
+ */
+export function hasConstraints(constraints: ScoringConstraints): boolean {
+  return (
+    constraints.maxExShowroomPrice !== undefined ||
+    constraints.maxSeatHeight !== undefined ||
+    (constraints.requiredAbsTypes?.length ?? 0) > 0 ||
+    constraints.minFuelCapacity !== undefined ||
+    Object.keys(constraints.minFactorScores ?? {}).length > 0
+  );
+}
+
+/**
+ * List every constraint a scored motorcycle fails.
+ * Specs that are unknown (e.g. no price) and factors that do not apply to
+ * the bike are not treated as violations.
+ */
+export function checkConstraints(
+  scored: ScoredMotorcycle,
+  constraints: ScoringConstraints
+): ConstraintViolation[] {
+  const bike = scored.motorcycle;
+  const violations: ConstraintViolation[] = [];
+
+  if (
+    constraints.maxExShowroomPrice !== undefined &&
+    bike.exShowroomPrice &&
+    bike.exShowroomPrice > constraints.maxExShowroomPrice
+  ) {
+    violations.push({
+      constraint: "maxExShowroomPrice",
+      message: `Price ₹${(bike.exShowroomPrice / 100000).toFixed(2)}L is over the ₹${(constraints.maxExShowroomPrice / 100000).toFixed(2)}L budget`,
+    });
+  }
+
+  if (constraints.maxSeatHeight !== undefined && bike.seatHeight > constraints.maxSeatHeight) {
+    violations.push({
+      constraint: "maxSeatHeight",
+      message: `Seat height ${bike.seatHeight} mm is above the ${constraints.maxSeatHeight} mm limit`,
+    });
+  }
+
+  if (
+    constraints.requiredAbsTypes &&
+    constraints.requiredAbsTypes.length > 0 &&
+    !constraints.requiredAbsTypes.includes(bike.absType)
+  ) {
+    violations.push({
+      constraint: "requiredAbsTypes",
+      message: `ABS "${bike.absType}" doesn't meet the requirement (${constraints.requiredAbsTypes.join(" / ")})`,
+    });
+  }
+
+  // Electric bikes have no tank to hold to a minimum
+  if (
+    constraints.minFuelCapacity !== undefined &&
+    !isElectric(bike) &&
+    bike.fuelCapacity < constraints.minFuelCapacity
+  ) {
+    violations.push({
+      constraint: "minFuelCapacity",
+      message: `Fuel tank ${bike.fuelCapacity} L is below the ${constraints.minFuelCapacity} L minimum`,
+    });
+  }
+
+  for (const [factor, minScore] of Object.entries(constraints.minFactorScores ?? {})) {
+    const key = factor as FactorKey;
+    // A factor left out of this bike's score (e.g. TCO without a price) can't fail a minimum
+    if (scored.notApplicable[key] !== undefined) continue;
+    const score = scored.factorScores[key];
+    if (minScore !== undefined && score < minScore) {
+      const label = FACTOR_METADATA.find((f) => f.key === key)?.label ?? key;
+      violations.push({
+        constraint: "minFactorScores",
+        factor: key,
+        message: `${label} scored ${score}/10, below the minimum of ${minScore}`,
+      });
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,145 @@
+/**
+ * Motologix - Custom Factors
+ *
+ * Factors the user defines with a formula over motorcycle fields (see
+ * formula.ts). They are scored next to the built-in factors and take part
+ * in weighting, breakdowns, charts and exports like any other factor.
+ */
+
+import type {
+  CustomFactor,
+  CustomFactorKey,
+  FactorMeta,
+  FactorTrace,
+  Motorcycle,
+} from "@/types";
+import { FACTOR_METADATA } from "@/types";
+import { compileFormula, type CompiledFormula } from "./formula";
+import type { RuleSubject } from "./rules";
+
+const CUSTOM_KEY_PREFIX = "custom:";
+const CATEGORIES: FactorMeta["category"][] = ["safety", "comfort", "practicality", "enjoyment"];
+
+// Formula results are clamped to the factor scale; no value scores neutral
+const SCORE_CLAMP: [number, number] = [1, 10];
+const NEUTRAL_SCORE = 5;
+const ROUND_TO = 0.1;
+
+// Compiled formulas by expression, so scoring many bikes (or uncertainty
+// samples) parses each formula once
+const compiledFormulas = new Map<string, CompiledFormula>();
+const MAX_COMPILED_FORMULAS = 64;
+
+export interface CustomFactorInput {
+  label: string;
+  category: FactorMeta["category"];
+  expression: string;
+  description?: string;
+}
+
+export function isCustomFactorKey(key: string): key is CustomFactorKey {
+  return key.startsWith(CUSTOM_KEY_PREFIX);
+}
+
+/**
+ * Built-in factor metadata followed by the custom factors.
+ * Custom factors are optional: zero weight until the user gives them one.
+ */
+export function getFactorMetadata(customFactors: CustomFactor[] = []): FactorMeta[] {
+  return [
+    ...FACTOR_METADATA,
+    ...customFactors.map((factor) => ({
+      key: factor.key,
+      label: factor.label,
+      description: factor.description || factor.expression,
+      category: factor.category,
+      defaultWeight: 0,
+      optional: true,
+    })),
+  ];
+}
+
+/**
+ * Validate a new custom factor and give it a key unique among `existing`.
+ * Throws an Error if the label or category is unusable or the formula is invalid.
+ */
+export function createCustomFactor(
+  input: CustomFactorInput,
+  existing: CustomFactor[] = []
+): CustomFactor {
+  const label = input.label.trim();
+  if (!label) throw new Error("Invalid custom factor: a name is required");
+  if (getFactorMetadata(existing).some((f) => f.label.toLowerCase() === label.toLowerCase())) {
+    throw new Error(`Invalid custom factor: there is already a factor named "${label}"`);
+  }
+  if (!CATEGORIES.includes(input.category)) {
+    throw new Error(`Invalid custom factor: "${input.category}" is not a category`);
+  }
+
+  const { expression } = compileFormula(input.expression);
+
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "factor";
+  let key: CustomFactorKey = `custom:${slug}`;
+  for (let n = 2; existing.some((f) => f.key === key); n++) {
+    key = `custom:${slug}-${n}`;
+  }
+
+  return {
+    key,
+    label,
+    description: input.description?.trim() || undefined,
+    category: input.category,
+    expression,
+  };
+}
+
+/**
+ * Compile a formula, reusing an earlier compile of the same expression.
+ * Throws like compileFormula; formulas that fail to compile are not cached.
+ */
+function getCompiledFormula(expression: string): CompiledFormula {
+  let compiled = compiledFormulas.get(expression);
+  if (!compiled) {
+    compiled = compileFormula(expression);
+    if (compiledFormulas.size >= MAX_COMPILED_FORMULAS) compiledFormulas.clear();
+    compiledFormulas.set(expression, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Score a custom factor against a rule subject, recording the formula inputs.
+ * A formula that reads a missing field (or no longer compiles) scores neutral.
+ */
+export function traceCustomFactor(factor: CustomFactor, subject: RuleSubject): FactorTrace {
+  let result;
+  try {
+    result = getCompiledFormula(factor.expression).evaluate(subject);
+  } catch (error) {
+    result = { value: null, inputs: {}, missing: error instanceof Error ? error.message : "invalid formula" };
+  }
+
+  const rawScore = result.value ?? NEUTRAL_SCORE;
+  const roundedScore = Number((Math.round(rawScore / ROUND_TO) * ROUND_TO).toFixed(6));
+
+  return {
+    factor: factor.key,
+    baseline: NEUTRAL_SCORE,
+    fired: [],
+    formula: { expression: factor.expression, inputs: result.inputs, missing: result.missing },
+    rawScore,
+    roundedScore,
+    clamp: SCORE_CLAMP,
+    score: Math.min(SCORE_CLAMP[1], Math.max(SCORE_CLAMP[0], roundedScore)),
+  };
+}
+
+/**
+ * Confidence of a custom factor: the bike's own, or low when the formula had no value
+ */
+export function getCustomFactorConfidence(
+  bike: Motorcycle,
+  trace: FactorTrace
+): Motorcycle["confidence"] {
+  return trace.formula?.missing ? "low" : bike.confidence;
+}
@@ -0,0 +1,64 @@
+/**
+ * Motologix - Electric Powertrain
+ *
+ * Range and energy use for electric bikes. Like claimed mileage, certified
+ * (IDC) ranges come from a gentle test cycle and are discounted; a measured
+ * real-world range is used as it is, and bikes with neither fall back to an
+ * estimate from battery size.
+ */
+
+import type { FuelEfficiencySource, Motorcycle } from "@/types";
+
+export const KW_TO_BHP = 1.341;
+
+// IDC ranges are optimistic; riders see about 70% of them
+const CERTIFIED_TO_REAL_WORLD = 0.7;
+
+// Real-world consumption of a typical electric motorcycle, for bikes with no range figure
+const TYPICAL_WH_PER_KM = 40;
+
+export interface ElectricRangeEstimate {
+  km: number; // real-world, on a full charge
+  source: FuelEfficiencySource;
+}
+
+export interface EnergyUseEstimate {
+  whPerKm: number; // real-world
+  source: FuelEfficiencySource;
+}
+
+/**
+ * Whether a bike is electric (bikes without a powertrain are petrol)
+ */
+export function isElectric(bike: Pick<Motorcycle, "powertrain">): boolean {
+  return bike.powertrain === "electric";
+}
+
+/**
+ * Real-world range on a full charge: the measured figure, the certified
+ * figure discounted, or an estimate from battery size
+ */
+export function getElectricRange(bike: Motorcycle): ElectricRangeEstimate {
+  if (bike.realRange && bike.realRange > 0) {
+    return { km: Math.round(bike.realRange), source: "real-world" };
+  }
+  if (bike.certifiedRange && bike.certifiedRange > 0) {
+    return { km: Math.round(bike.certifiedRange * CERTIFIED_TO_REAL_WORLD), source: "claimed" };
+  }
+  return {
+    km: Math.round(((bike.batteryCapacity ?? 0) * 1000) / TYPICAL_WH_PER_KM),
+    source: "estimated",
+  };
+}
+
+/**
+ * Real-world energy use: battery size over real-world range, or the
+ * typical figure when either is unknown
+ */
+export function getEnergyUse(bike: Motorcycle): EnergyUseEstimate {
+  const range = getElectricRange(bike);
+  if (!bike.batteryCapacity || range.km <= 0 || range.source === "estimated") {
+    return { whPerKm: TYPICAL_WH_PER_KM, source: "estimated" };
+  }
+  return { whPerKm: Math.round((bike.batteryCapacity * 1000) / range.km), source: range.source };
+}
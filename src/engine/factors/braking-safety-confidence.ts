@@ -0,0 +1,89 @@
+/**
+ * Braking & Safety Confidence
+ * Factors: brake hardware, ABS type, traction and engine-braking control, tyre width,
+ * stopping with a heavy payload
+ */
+
+import { defineFactor } from "./define";
+
+export const brakingSafetyConfidence = defineFactor({
+  key: "brakingSafetyConfidence",
+  label: "Braking & Safety",
+  description: "Confidence in braking performance and safety features",
+  category: "safety",
+  defaultWeight: 0.15,
+  confidence: (bike) => bike.confidence,
+  rules: {
+    baseline: 3, // drum brakes, no ABS
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Brake hardware",
+        match: "all",
+        rules: [
+          { field: "frontBrake", comparator: "eq", threshold: "disc", delta: 2 },
+          { field: "rearBrake", comparator: "eq", threshold: "disc", delta: 1 },
+        ],
+      },
+      {
+        label: "ABS system",
+        match: "first",
+        rules: [
+          { field: "absType", comparator: "eq", threshold: "cornering-abs", delta: 3.5 },
+          { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 3 },
+          { field: "absType", comparator: "eq", threshold: "switchable-abs", delta: 3 }, // dual-channel, rear can be turned off
+          { field: "absType", comparator: "eq", threshold: "single-channel", delta: 1.5 },
+        ],
+      },
+      {
+        label: "Traction control (no rear-wheel spin on wet or broken roads)",
+        match: "first",
+        rules: [
+          { field: "tractionControl", comparator: "eq", threshold: "lean-sensitive", delta: 1 },
+          { field: "tractionControl", comparator: "eq", threshold: "switchable", delta: 0.5 },
+        ],
+      },
+      {
+        label: "Slipper clutch (no rear-wheel hop on hard downshifts)",
+        match: "all",
+        rules: [
+          { field: "clutch", comparator: "eq", threshold: "slipper-assist", delta: 0.5 },
+        ],
+      },
+      {
+        label: "Rear tyre width (wider = more grip)",
+        match: "first",
+        rules: [
+          { field: "rearTyreWidth", comparator: "gte", threshold: 150, delta: 0.5 },
+          { field: "rearTyreWidth", comparator: "gte", threshold: 140, delta: 0.25 },
+        ],
+      },
+      {
+        label: "Front tyre width",
+        match: "first",
+        rules: [
+          { field: "frontTyreWidth", comparator: "gte", threshold: 120, delta: 0.5 },
+          { field: "frontTyreWidth", comparator: "gte", threshold: 110, delta: 0.25 },
+        ],
+      },
+      {
+        label: "Payload vs kerb weight (longer stopping distances)",
+        match: "first",
+        rules: [
+          { field: "payloadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Brakes that struggle with a heavy payload",
+        match: "first",
+        when: [{ field: "payloadRatio", comparator: "gte", threshold: 0.75 }],
+        rules: [
+          { field: "absType", comparator: "eq", threshold: "none", delta: -1 },
+          { field: "rearBrake", comparator: "eq", threshold: "drum", delta: -0.5 },
+          { field: "absType", comparator: "eq", threshold: "single-channel", delta: -0.5 },
+        ],
+      },
+    ],
+  },
+});
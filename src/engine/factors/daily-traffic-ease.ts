@@ -0,0 +1,130 @@
+/**
+ * Daily Traffic Ease
+ * Factors: weight, seat height (or seat reach for the rider profile), power- and
+ * torque-to-weight ratio, low-rpm pull (engine size when the torque peak is unknown),
+ * electric drive, scooter CVT
+ * Lighter, lower, moderate power and torque low in the rev range = better in traffic
+ */
+
+import { defineFactor } from "./define";
+
+export const dailyTrafficEase = defineFactor({
+  key: "dailyTrafficEase",
+  label: "Daily Traffic Ease",
+  description: "How easy is the bike to maneuver in heavy traffic",
+  category: "practicality",
+  defaultWeight: 0.12,
+  confidence: (bike) => bike.confidence,
+  rules: {
+    baseline: 5,
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Weight (lighter = better in traffic)",
+        match: "first",
+        rules: [
+          { field: "kerbWeight", comparator: "lt", threshold: 140, delta: 2 },
+          { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 1.5 },
+          { field: "kerbWeight", comparator: "lt", threshold: 175, delta: 0.5 },
+          { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -1.5 },
+          { field: "kerbWeight", comparator: "gt", threshold: 185, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Seat height (lower = easier flat-footing at stops)",
+        match: "first",
+        when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+        rules: [
+          { field: "seatHeight", comparator: "lt", threshold: 770, delta: 1 },
+          { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+          { field: "seatHeight", comparator: "gt", threshold: 830, delta: -1 },
+          { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Seat reach for this rider (inseam minus seat height)",
+        match: "first",
+        rules: [
+          { field: "seatReachMargin", comparator: "gte", threshold: 20, delta: 1 },
+          { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+          { field: "seatReachMargin", comparator: "lt", threshold: -60, delta: -1.5 },
+          { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -1 },
+          { field: "seatReachMargin", comparator: "lt", threshold: -20, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Power-to-weight (sweet spot for traffic: 6-10 bhp per 100kg)",
+        match: "first",
+        rules: [
+          { field: "powerToWeight", comparator: "between", threshold: [6, 10], delta: 1 },
+          { field: "powerToWeight", comparator: "gt", threshold: 12, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Torque-to-weight (shove without revving or slipping the clutch)",
+        match: "first",
+        rules: [
+          { field: "torqueToWeight", comparator: "gte", threshold: 18, delta: 0.5 },
+          { field: "torqueToWeight", comparator: "lt", threshold: 12, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Torque peak (low-rpm pull = fewer gear changes at crawling speed)",
+        match: "first",
+        rules: [
+          { field: "peakTorqueRpm", comparator: "lte", threshold: 5000, delta: 1 },
+          { field: "peakTorqueRpm", comparator: "lte", threshold: 6500, delta: 0.5 },
+          { field: "peakTorqueRpm", comparator: "gt", threshold: 8500, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Engine size (smaller = easier low-speed maneuvers)",
+        match: "first",
+        when: [{ field: "peakTorqueRpm", comparator: "exists", threshold: false }],
+        rules: [
+          { field: "engineCC", comparator: "lt", threshold: 250, delta: 0.5 },
+          { field: "engineCC", comparator: "gt", threshold: 500, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Electric drive (no clutch or gears, full torque from standstill)",
+        match: "all",
+        rules: [
+          { field: "powertrain", comparator: "eq", threshold: "electric", delta: 1 },
+        ],
+      },
+      {
+        label: "Scooter CVT (no clutch or gears, step-through frame)",
+        match: "all",
+        rules: [
+          {
+            field: "vehicleClass",
+            comparator: "eq",
+            threshold: "scooter",
+            delta: 1,
+            and: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+          },
+        ],
+      },
+    ],
+    classOverrides: {
+      // Cruisers carry their weight low, so it tells less at walking pace
+      cruiser: {
+        groups: [
+          {
+            label: "Weight (lighter = better in traffic)",
+            match: "first",
+            rules: [
+              { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 2 },
+              { field: "kerbWeight", comparator: "lt", threshold: 180, delta: 1.5 },
+              { field: "kerbWeight", comparator: "lt", threshold: 195, delta: 0.5 },
+              { field: "kerbWeight", comparator: "gt", threshold: 230, delta: -1.5 },
+              { field: "kerbWeight", comparator: "gt", threshold: 210, delta: -0.5 },
+            ],
+          },
+        ],
+      },
+    },
+  },
+});
@@ -0,0 +1,20 @@
+/**
+ * Motologix - Factor Definition Helpers
+ */
+
+import type { FactorConfidence, FactorDefinition } from "@/types";
+
+/**
+ * Declare a built-in factor. Keeps the key as a literal type so the
+ * registry can derive the set of factor keys from its modules.
+ */
+export function defineFactor<K extends string>(definition: FactorDefinition<K>): FactorDefinition<K> {
+  return definition;
+}
+
+/**
+ * One step less confident: for scores that lean on a spec the bike is missing
+ */
+export function lowerConfidence(confidence: FactorConfidence): FactorConfidence {
+  return confidence === "high" ? "medium" : "low";
+}
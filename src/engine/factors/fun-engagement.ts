@@ -0,0 +1,101 @@
+/**
+ * Fun & Engagement
+ * Factors: power-to-weight, engine character (rev range and cylinder count,
+ * engine size when they are unknown; instant torque for electric bikes), handling dynamics
+ * Cruisers are judged on low-down torque instead of revs, and weight less
+ */
+
+import { defineFactor, lowerConfidence } from "./define";
+
+export const funEngagement = defineFactor({
+  key: "funEngagement",
+  label: "Fun & Engagement",
+  description: "How enjoyable and engaging the riding experience is",
+  category: "enjoyment",
+  defaultWeight: 0.08,
+  // Handlebar position drives much of the score
+  confidence: (bike) => (bike.handlebarType ? bike.confidence : lowerConfidence(bike.confidence)),
+  rules: {
+    baseline: 5,
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Power-to-weight ratio (higher = more fun)",
+        match: "first",
+        rules: [
+          { field: "powerToWeight", comparator: "gte", threshold: 12, delta: 2 },
+          { field: "powerToWeight", comparator: "gte", threshold: 10, delta: 1.5 },
+          { field: "powerToWeight", comparator: "gte", threshold: 8, delta: 1 },
+          { field: "powerToWeight", comparator: "gte", threshold: 6, delta: 0.5 },
+          { field: "powerToWeight", comparator: "lt", threshold: 5, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Power peak (an engine that loves to rev)",
+        match: "first",
+        rules: [
+          { field: "peakPowerRpm", comparator: "gte", threshold: 9000, delta: 1 },
+          { field: "peakPowerRpm", comparator: "gte", threshold: 7500, delta: 0.5 },
+        ],
+      },
+      {
+        label: "Cylinders (smoother, more eager multi-cylinder engines)",
+        match: "first",
+        rules: [{ field: "cylinders", comparator: "gte", threshold: 2, delta: 0.5 }],
+      },
+      {
+        label: "Electric motor (instant torque)",
+        match: "all",
+        rules: [
+          { field: "powertrain", comparator: "eq", threshold: "electric", delta: 0.5 },
+        ],
+      },
+      {
+        label: "Engine size (larger tends to be more engaging)",
+        match: "first",
+        when: [{ field: "peakPowerRpm", comparator: "exists", threshold: false }],
+        rules: [
+          { field: "engineCC", comparator: "gte", threshold: 400, delta: 1 },
+          { field: "engineCC", comparator: "gte", threshold: 300, delta: 0.5 },
+          { field: "engineCC", comparator: "lt", threshold: 200, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Weight (lighter = more flickable)",
+        match: "first",
+        rules: [
+          { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 0.5 },
+          { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Handlebar (sportier = more engaging)",
+        match: "all",
+        rules: [
+          { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: 0.5 },
+        ],
+      },
+    ],
+    classOverrides: {
+      cruiser: {
+        groups: [
+          { label: "Power peak (an engine that loves to rev)", match: "first", rules: [] },
+          {
+            label: "Weight (lighter = more flickable)",
+            match: "first",
+            rules: [{ field: "kerbWeight", comparator: "gt", threshold: 240, delta: -0.5 }],
+          },
+          {
+            label: "Torque peak (a lazy engine that pulls from idle)",
+            match: "first",
+            rules: [
+              { field: "peakTorqueRpm", comparator: "lte", threshold: 4000, delta: 1 },
+              { field: "peakTorqueRpm", comparator: "lte", threshold: 5000, delta: 0.5 },
+            ],
+          },
+        ],
+      },
+    },
+  },
+});
@@ -0,0 +1,78 @@
+/**
+ * Heat Management
+ * Factors: cooling system (engine size when it is unknown), power output,
+ * electric drive, AI-derived rating if available
+ */
+
+import { defineFactor, lowerConfidence } from "./define";
+
+export const heatManagement = defineFactor({
+  key: "heatManagement",
+  label: "Heat Management",
+  description: "How well the bike manages engine heat in traffic",
+  category: "practicality",
+  defaultWeight: 0.05,
+  // Without the AI-derived rating it is judged from the cooling system,
+  // or guessed from engine size when that is unknown too
+  confidence: (bike) => {
+    if (bike.heatManagementRating || bike.powertrain === "electric") return bike.confidence;
+    return bike.coolingType ? lowerConfidence(bike.confidence) : "low";
+  },
+  rules: {
+    baseline: 6, // assume decent heat management
+    clamp: [1, 10],
+    roundTo: 0.5,
+    override: { field: "heatManagementRating", min: 1, max: 10 }, // AI-derived rating
+    groups: [
+      {
+        label: "Cooling system (air-cooled engines bake in stop-go traffic)",
+        match: "first",
+        when: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+        rules: [
+          {
+            field: "coolingType",
+            comparator: "eq",
+            threshold: "air",
+            delta: -1.5,
+            and: [{ field: "engineCC", comparator: "gte", threshold: 300 }],
+          },
+          { field: "coolingType", comparator: "eq", threshold: "air", delta: -0.5 },
+          {
+            field: "coolingType",
+            comparator: "eq",
+            threshold: "air-oil",
+            delta: -0.5,
+            and: [{ field: "engineCC", comparator: "gte", threshold: 400 }],
+          },
+          { field: "coolingType", comparator: "eq", threshold: "liquid", delta: 1 },
+        ],
+      },
+      {
+        label: "Engine size (larger engines tend to run hotter)",
+        match: "first",
+        when: [{ field: "coolingType", comparator: "exists", threshold: false }],
+        rules: [
+          { field: "engineCC", comparator: "gte", threshold: 400, delta: -1 },
+          { field: "engineCC", comparator: "gte", threshold: 300, delta: -0.5 },
+          { field: "engineCC", comparator: "lt", threshold: 200, delta: 0.5 },
+        ],
+      },
+      {
+        label: "Power output",
+        match: "first",
+        when: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+        rules: [
+          { field: "power", comparator: "gte", threshold: 40, delta: -0.5 },
+          { field: "power", comparator: "lt", threshold: 20, delta: 0.5 },
+        ],
+      },
+      {
+        label: "Electric motor (no engine heat on the rider's legs)",
+        match: "all",
+        rules: [
+          { field: "powertrain", comparator: "eq", threshold: "electric", delta: 2.5 },
+        ],
+      },
+    ],
+  },
+});
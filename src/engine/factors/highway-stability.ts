@@ -0,0 +1,66 @@
+/**
+ * Highway Stability
+ * Factors: wheelbase, weight, power, torque-to-weight, tyre width
+ */
+
+import { defineFactor } from "./define";
+
+export const highwayStability = defineFactor({
+  key: "highwayStability",
+  label: "Highway Stability",
+  description: "Stability and confidence at highway speeds",
+  category: "safety",
+  defaultWeight: 0.1,
+  confidence: (bike) => bike.confidence,
+  rules: {
+    baseline: 5,
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Wheelbase (longer = more stable at speed)",
+        match: "first",
+        rules: [
+          { field: "wheelbase", comparator: "gte", threshold: 1430, delta: 1.5 },
+          { field: "wheelbase", comparator: "gte", threshold: 1400, delta: 1 },
+          { field: "wheelbase", comparator: "gte", threshold: 1370, delta: 0.5 },
+          { field: "wheelbase", comparator: "lt", threshold: 1320, delta: -1 },
+        ],
+      },
+      {
+        label: "Weight (heavier = more planted at speed)",
+        match: "first",
+        rules: [
+          { field: "kerbWeight", comparator: "gte", threshold: 180, delta: 1 },
+          { field: "kerbWeight", comparator: "gte", threshold: 165, delta: 0.5 },
+          { field: "kerbWeight", comparator: "lt", threshold: 145, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Power (enough for confident overtakes)",
+        match: "first",
+        rules: [
+          { field: "power", comparator: "gte", threshold: 35, delta: 1 },
+          { field: "power", comparator: "gte", threshold: 25, delta: 0.5 },
+          { field: "power", comparator: "lt", threshold: 18, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Torque-to-weight (roll-on overtakes without downshifting)",
+        match: "first",
+        rules: [
+          { field: "torqueToWeight", comparator: "gte", threshold: 20, delta: 0.5 },
+          { field: "torqueToWeight", comparator: "lt", threshold: 12, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Rear tyre width",
+        match: "first",
+        rules: [
+          { field: "rearTyreWidth", comparator: "gte", threshold: 150, delta: 0.5 },
+          { field: "rearTyreWidth", comparator: "gte", threshold: 140, delta: 0.25 },
+        ],
+      },
+    ],
+  },
+});
@@ -0,0 +1,61 @@
+/**
+ * Motologix - Factor Registry
+ *
+ * Every built-in factor is one module declaring its key, metadata, default
+ * weight, default scoring rules and confidence. Factor keys, metadata,
+ * default weights and the default ruleset are all derived from this list,
+ * so adding or retiring a factor means adding or removing a module here.
+ * Built-in presets start from the default weights, so a new factor only
+ * needs a preset edit where it should weigh differently.
+ */
+
+import type { FactorMeta, FactorScores, FactorWeights } from "@/types";
+import { dailyTrafficEase } from "./daily-traffic-ease";
+import { brakingSafetyConfidence } from "./braking-safety-confidence";
+import { primaryPillionComfort } from "./primary-pillion-comfort";
+import { highwayStability } from "./highway-stability";
+import { riderComfort } from "./rider-comfort";
+import { suspensionCompliance } from "./suspension-compliance";
+import { funEngagement } from "./fun-engagement";
+import { heatManagement } from "./heat-management";
+import { ownershipPracticality } from "./ownership-practicality";
+import { longTermSuitability } from "./long-term-suitability";
+import { totalCostOfOwnership } from "./total-cost-of-ownership";
+import { riderAidsFeatures } from "./rider-aids-features";
+
+// Display order everywhere factors are listed
+export const FACTOR_REGISTRY = [
+  dailyTrafficEase,
+  brakingSafetyConfidence,
+  primaryPillionComfort,
+  highwayStability,
+  riderComfort,
+  suspensionCompliance,
+  funEngagement,
+  heatManagement,
+  ownershipPracticality,
+  longTermSuitability,
+  totalCostOfOwnership,
+  riderAidsFeatures,
+] as const;
+
+export type BuiltInFactorKey = (typeof FACTOR_REGISTRY)[number]["key"];
+
+export const FACTOR_METADATA: FactorMeta[] = FACTOR_REGISTRY.map(
+  ({ key, label, description, category, defaultWeight, optional }) => ({
+    key,
+    label,
+    description,
+    category,
+    defaultWeight,
+    optional,
+  })
+);
+
+export const DEFAULT_WEIGHTS = Object.fromEntries(
+  FACTOR_REGISTRY.map((factor) => [factor.key, factor.defaultWeight])
+) as FactorWeights;
+
+export const EMPTY_FACTOR_SCORES = Object.fromEntries(
+  FACTOR_REGISTRY.map((factor) => [factor.key, 5])
+) as FactorScores;
@@ -0,0 +1,86 @@
+/**
+ * Long-Term Suitability (9+ years)
+ * Factors: engine character (or electric drivetrain and battery), power level,
+ * parts supply in your city, versatility
+ */
+
+import { defineFactor } from "./define";
+
+export const longTermSuitability = defineFactor({
+  key: "longTermSuitability",
+  label: "Long-Term Suitability",
+  description: "Suitability for 9+ years of ownership",
+  category: "practicality",
+  defaultWeight: 0.07,
+  // Involves prediction
+  confidence: () => "medium",
+  rules: {
+    baseline: 5,
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Engine size (sweet spot for long-term: 250-500cc)",
+        match: "first",
+        rules: [
+          { field: "engineCC", comparator: "between", threshold: [250, 500], delta: 1 },
+          { field: "engineCC", comparator: "between", threshold: [200, 600], delta: 0.5 },
+          { field: "engineCC", comparator: "lt", threshold: 150, delta: -0.5 },
+          { field: "engineCC", comparator: "gt", threshold: 700, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Electric drivetrain (few wearing parts; the battery is what ages)",
+        match: "all",
+        rules: [
+          { field: "powertrain", comparator: "eq", threshold: "electric", delta: 1 },
+          // A small pack goes through more charge cycles for the same distance
+          { field: "batteryCapacity", comparator: "lt", threshold: 4, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Power level (moderate is sustainable)",
+        match: "all",
+        rules: [
+          { field: "power", comparator: "between", threshold: [20, 45], delta: 0.5 },
+        ],
+      },
+      {
+        label: "Parts supply for an ageing bike (your city)",
+        match: "first",
+        rules: [
+          { field: "partsTier", comparator: "eq", threshold: 1, delta: 0.5 },
+          { field: "partsTier", comparator: "eq", threshold: 3, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Future-proofing and practicality",
+        match: "all",
+        rules: [
+          { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+          {
+            field: "realWorldRange",
+            comparator: "gte",
+            threshold: 400,
+            delta: 0.5,
+            and: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+          },
+          {
+            field: "realWorldRange",
+            comparator: "gte",
+            threshold: 200,
+            delta: 0.5,
+            and: [{ field: "powertrain", comparator: "eq", threshold: "electric" }],
+          },
+          {
+            field: "groundClearance",
+            comparator: "gte",
+            threshold: 170,
+            delta: 0.5,
+            and: [{ field: "kerbWeight", comparator: "lte", threshold: 185 }],
+          },
+        ],
+      },
+    ],
+  },
+});
@@ -0,0 +1,72 @@
+/**
+ * Ownership Practicality
+ * Factors: the brand's service network and parts supply in the owner's city,
+ * service cost at local rates, price segment, home charging time for electric bikes
+ * Note: service figures come from the regional dataset (see service-network.ts)
+ */
+
+import { hasServiceNetworkData } from "../service-network";
+import { defineFactor } from "./define";
+
+export const ownershipPracticality = defineFactor({
+  key: "ownershipPracticality",
+  label: "Ownership Practicality",
+  description: "Service network, reliability, parts availability",
+  category: "practicality",
+  defaultWeight: 0.08,
+  // Always somewhat subjective; a brand missing from the service dataset is a guess
+  confidence: (bike) => (hasServiceNetworkData(bike.brand) ? "medium" : "low"),
+  rules: {
+    baseline: 5,
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Authorised service centres in your city",
+        match: "first",
+        rules: [
+          { field: "serviceCentres", comparator: "gte", threshold: 20, delta: 1 },
+          { field: "serviceCentres", comparator: "gte", threshold: 8, delta: 0.5 },
+          // None locally: every service is a trip to another town
+          { field: "serviceCentres", comparator: "lt", threshold: 1, delta: -1 },
+          { field: "serviceCentres", comparator: "lt", threshold: 3, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Parts availability in your city",
+        match: "first",
+        rules: [
+          { field: "partsTier", comparator: "eq", threshold: 1, delta: 0.5 },
+          { field: "partsTier", comparator: "eq", threshold: 3, delta: -1 },
+        ],
+      },
+      {
+        label: "Scheduled service cost (local rates)",
+        match: "first",
+        rules: [
+          { field: "serviceCost", comparator: "lte", threshold: 1800, delta: 0.5 },
+          { field: "serviceCost", comparator: "gte", threshold: 5000, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Price segment (parts cost)",
+        match: "first",
+        rules: [
+          { field: "exShowroomPrice", comparator: "lt", threshold: 150000, delta: 0.5 },
+          { field: "exShowroomPrice", comparator: "gt", threshold: 300000, delta: -0.5 },
+          // Shadowed by the rule above; kept so v1 matches the original ladder
+          { field: "exShowroomPrice", comparator: "gt", threshold: 500000, delta: -1 },
+        ],
+      },
+      {
+        label: "Charging at home (0-80% on the standard charger)",
+        match: "first",
+        when: [{ field: "powertrain", comparator: "eq", threshold: "electric" }],
+        rules: [
+          { field: "chargingTime", comparator: "lte", threshold: 3, delta: 0.5 },
+          { field: "chargingTime", comparator: "gt", threshold: 6, delta: -0.5 },
+        ],
+      },
+    ],
+  },
+});
@@ -0,0 +1,104 @@
+/**
+ * Rider Aids & Features (optional factor)
+ * Factors: traction control, riding modes, slipper/assist clutch, quickshifter,
+ * cruise control, lighting, instrument display, ABS modes
+ */
+
+import type { Motorcycle } from "@/types";
+import { defineFactor, lowerConfidence } from "./define";
+
+const FEATURE_FIELDS: (keyof Motorcycle)[] = [
+  "tractionControl",
+  "ridingModes",
+  "clutch",
+  "quickshifter",
+  "cruiseControl",
+  "lighting",
+  "display",
+];
+
+export const riderAidsFeatures = defineFactor({
+  key: "riderAidsFeatures",
+  label: "Rider Aids & Features",
+  description: "Electronics that help the rider and make everyday riding easier",
+  category: "practicality",
+  defaultWeight: 0,
+  optional: true,
+  // Unknown features score as absent, so a partial spec sheet is less certain
+  confidence: (bike) => {
+    const known = FEATURE_FIELDS.filter((field) => bike[field] !== undefined).length;
+    if (known === 0) return "low";
+    return known === FEATURE_FIELDS.length ? bike.confidence : lowerConfidence(bike.confidence);
+  },
+  rules: {
+    baseline: 3, // no electronics beyond ABS
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Traction control",
+        match: "first",
+        rules: [
+          { field: "tractionControl", comparator: "eq", threshold: "lean-sensitive", delta: 2 },
+          { field: "tractionControl", comparator: "eq", threshold: "switchable", delta: 1.5 },
+        ],
+      },
+      {
+        label: "Riding modes",
+        match: "first",
+        rules: [
+          { field: "ridingModes", comparator: "gte", threshold: 3, delta: 1 },
+          { field: "ridingModes", comparator: "gte", threshold: 2, delta: 0.5 },
+        ],
+      },
+      {
+        label: "ABS modes (rear ABS off for gravel, lean-sensitive ABS)",
+        match: "first",
+        rules: [
+          { field: "absType", comparator: "eq", threshold: "cornering-abs", delta: 1 },
+          { field: "absType", comparator: "eq", threshold: "switchable-abs", delta: 0.5 },
+        ],
+      },
+      {
+        label: "Slipper/assist clutch (light lever in traffic)",
+        match: "all",
+        rules: [
+          { field: "clutch", comparator: "eq", threshold: "slipper-assist", delta: 1 },
+        ],
+      },
+      {
+        label: "Quickshifter",
+        match: "first",
+        rules: [
+          { field: "quickshifter", comparator: "eq", threshold: "bidirectional", delta: 1 },
+          { field: "quickshifter", comparator: "eq", threshold: "up", delta: 0.5 },
+        ],
+      },
+      {
+        label: "Cruise control (long highway stints)",
+        match: "first",
+        rules: [
+          { field: "cruiseControl", comparator: "eq", threshold: "adaptive", delta: 1.5 },
+          { field: "cruiseControl", comparator: "eq", threshold: "standard", delta: 1 },
+        ],
+      },
+      {
+        label: "Lighting (seeing and being seen at night)",
+        match: "first",
+        rules: [
+          { field: "lighting", comparator: "eq", threshold: "full-led", delta: 1 },
+          { field: "lighting", comparator: "eq", threshold: "led-headlamp", delta: 0.5 },
+        ],
+      },
+      {
+        label: "Instrument display",
+        match: "first",
+        rules: [
+          { field: "display", comparator: "eq", threshold: "tft-navigation", delta: 1.5 },
+          { field: "display", comparator: "eq", threshold: "tft", delta: 1 },
+          { field: "display", comparator: "eq", threshold: "lcd", delta: 0.5 },
+        ],
+      },
+    ],
+  },
+});
@@ -0,0 +1,141 @@
+/**
+ * Rider Comfort (Long Rides)
+ * Factors: handlebar position, seat (vs rider's legs if known), suspension,
+ * real-world range (per tank, or per charge for electric bikes)
+ * Cruisers, ADVs and scooters have their own seat height and clearance norms
+ */
+
+import { defineFactor, lowerConfidence } from "./define";
+
+export const riderComfort = defineFactor({
+  key: "riderComfort",
+  label: "Rider Comfort",
+  description: "Long-ride comfort for the rider",
+  category: "comfort",
+  defaultWeight: 0.1,
+  // Handlebar position drives much of the score
+  confidence: (bike) => (bike.handlebarType ? bike.confidence : lowerConfidence(bike.confidence)),
+  rules: {
+    baseline: 5,
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Handlebar type (upright = more comfortable)",
+        match: "first",
+        rules: [
+          { field: "handlebarType", comparator: "eq", threshold: "raised", delta: 1 },
+          { field: "handlebarType", comparator: "eq", threshold: "standard", delta: 0.5 },
+          { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -1 },
+        ],
+      },
+      {
+        label: "Seat height comfort zone",
+        match: "first",
+        when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+        rules: [
+          { field: "seatHeight", comparator: "between", threshold: [780, 820], delta: 0.5 },
+          { field: "seatHeight", comparator: "gt", threshold: 840, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Seat height vs rider's legs (not a stretch, not cramped)",
+        match: "first",
+        rules: [
+          { field: "seatReachMargin", comparator: "between", threshold: [-20, 80], delta: 0.5 },
+          { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+          { field: "seatReachMargin", comparator: "gt", threshold: 140, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Real-world range (km per tank; longer = fewer stops)",
+        match: "first",
+        when: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+        rules: [
+          { field: "realWorldRange", comparator: "gte", threshold: 450, delta: 1 },
+          { field: "realWorldRange", comparator: "gte", threshold: 350, delta: 0.5 },
+          { field: "realWorldRange", comparator: "lt", threshold: 250, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Real-world range (km per charge; a charging stop takes far longer than a fuel stop)",
+        match: "first",
+        when: [{ field: "powertrain", comparator: "eq", threshold: "electric" }],
+        rules: [
+          { field: "realWorldRange", comparator: "gte", threshold: 300, delta: 0.5 },
+          { field: "realWorldRange", comparator: "lt", threshold: 100, delta: -1.5 },
+          { field: "realWorldRange", comparator: "lt", threshold: 150, delta: -1 },
+          { field: "realWorldRange", comparator: "lt", threshold: 200, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Suspension quality indicator",
+        match: "all",
+        rules: [
+          { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+        ],
+      },
+      {
+        label: "Ground clearance for Indian roads",
+        match: "first",
+        rules: [
+          { field: "groundClearance", comparator: "gte", threshold: 180, delta: 0.5 },
+          { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+          { field: "groundClearance", comparator: "lt", threshold: 140, delta: -0.5 },
+        ],
+      },
+    ],
+    classOverrides: {
+      scooter: {
+        groups: [
+          {
+            label: "Ground clearance for Indian roads",
+            match: "first",
+            rules: [
+              { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.5 },
+              { field: "groundClearance", comparator: "gte", threshold: 145, delta: 0.25 },
+              { field: "groundClearance", comparator: "lt", threshold: 125, delta: -0.5 },
+            ],
+          },
+        ],
+      },
+      // Low seats are the point of a cruiser
+      cruiser: {
+        groups: [
+          {
+            label: "Seat height comfort zone",
+            match: "first",
+            when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+            rules: [
+              { field: "seatHeight", comparator: "between", threshold: [680, 780], delta: 0.5 },
+              { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+            ],
+          },
+          {
+            label: "Ground clearance for Indian roads",
+            match: "first",
+            rules: [
+              { field: "groundClearance", comparator: "gte", threshold: 165, delta: 0.5 },
+              { field: "groundClearance", comparator: "gte", threshold: 150, delta: 0.25 },
+              { field: "groundClearance", comparator: "lt", threshold: 125, delta: -0.5 },
+            ],
+          },
+        ],
+      },
+      // Tall seats come with the long travel
+      adv: {
+        groups: [
+          {
+            label: "Seat height comfort zone",
+            match: "first",
+            when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+            rules: [
+              { field: "seatHeight", comparator: "between", threshold: [800, 860], delta: 0.5 },
+              { field: "seatHeight", comparator: "gt", threshold: 880, delta: -0.5 },
+            ],
+          },
+        ],
+      },
+    },
+  },
+});
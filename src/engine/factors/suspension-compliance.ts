@@ -0,0 +1,158 @@
+/**
+ * Suspension Compliance (Indian Roads)
+ * Factors: suspension type, travel, ground clearance, payload
+ * Scooters, cruisers and ADVs judge travel and clearance against their own class
+ */
+
+import { defineFactor, lowerConfidence } from "./define";
+
+export const suspensionCompliance = defineFactor({
+  key: "suspensionCompliance",
+  label: "Suspension Quality",
+  description: "How well the suspension handles Indian roads",
+  category: "comfort",
+  defaultWeight: 0.1,
+  // Rear suspension travel drives much of the score
+  confidence: (bike) =>
+    bike.rearSuspensionTravel ? bike.confidence : lowerConfidence(bike.confidence),
+  rules: {
+    baseline: 5,
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Rear suspension type",
+        match: "first",
+        rules: [
+          { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1.5 },
+          { field: "rearSuspension", comparator: "eq", threshold: "twin", delta: 0.5 },
+        ],
+      },
+      {
+        label: "Suspension travel",
+        match: "first",
+        rules: [
+          { field: "rearSuspensionTravel", comparator: "gte", threshold: 140, delta: 1 },
+          { field: "rearSuspensionTravel", comparator: "gte", threshold: 120, delta: 0.5 },
+          { field: "rearSuspensionTravel", comparator: "lt", threshold: 100, delta: -0.5 },
+        ],
+      },
+      {
+        label: "Front suspension (USD forks are generally better)",
+        match: "first",
+        rules: [
+          { field: "frontSuspension", comparator: "includes", threshold: "usd", delta: 1 },
+          { field: "frontSuspension", comparator: "includes", threshold: "telescopic", delta: 0.25 },
+        ],
+      },
+      {
+        label: "Ground clearance (critical for Indian roads)",
+        match: "first",
+        rules: [
+          { field: "groundClearance", comparator: "gte", threshold: 200, delta: 1 },
+          { field: "groundClearance", comparator: "gte", threshold: 175, delta: 0.5 },
+          { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+          { field: "groundClearance", comparator: "lt", threshold: 140, delta: -1 },
+        ],
+      },
+      {
+        label: "Payload vs kerb weight (sag and bottoming out)",
+        match: "first",
+        rules: [
+          {
+            field: "payloadRatio",
+            comparator: "gte",
+            threshold: 0.85,
+            delta: -1,
+            and: [{ field: "rearSuspensionTravel", comparator: "lt", threshold: 120 }],
+          },
+          { field: "payloadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+          {
+            field: "payloadRatio",
+            comparator: "gte",
+            threshold: 0.65,
+            delta: -0.5,
+            and: [{ field: "rearSuspensionTravel", comparator: "lt", threshold: 110 }],
+          },
+        ],
+      },
+    ],
+    classOverrides: {
+      // Small wheels and short travel are the norm; the payload is also a bigger share of the weight
+      scooter: {
+        groups: [
+          {
+            label: "Suspension travel",
+            match: "first",
+            rules: [
+              { field: "rearSuspensionTravel", comparator: "gte", threshold: 100, delta: 1 },
+              { field: "rearSuspensionTravel", comparator: "gte", threshold: 85, delta: 0.5 },
+              { field: "rearSuspensionTravel", comparator: "lt", threshold: 70, delta: -0.5 },
+            ],
+          },
+          {
+            label: "Ground clearance (critical for Indian roads)",
+            match: "first",
+            rules: [
+              { field: "groundClearance", comparator: "gte", threshold: 165, delta: 1 },
+              { field: "groundClearance", comparator: "gte", threshold: 155, delta: 0.5 },
+              { field: "groundClearance", comparator: "gte", threshold: 145, delta: 0.25 },
+              { field: "groundClearance", comparator: "lt", threshold: 125, delta: -1 },
+            ],
+          },
+          {
+            label: "Payload vs kerb weight (sag and bottoming out)",
+            match: "first",
+            rules: [
+              {
+                field: "payloadRatio",
+                comparator: "gte",
+                threshold: 1.1,
+                delta: -1,
+                and: [{ field: "rearSuspensionTravel", comparator: "lt", threshold: 85 }],
+              },
+              { field: "payloadRatio", comparator: "gte", threshold: 1.1, delta: -0.5 },
+            ],
+          },
+        ],
+      },
+      cruiser: {
+        groups: [
+          {
+            label: "Ground clearance (critical for Indian roads)",
+            match: "first",
+            rules: [
+              { field: "groundClearance", comparator: "gte", threshold: 170, delta: 1 },
+              { field: "groundClearance", comparator: "gte", threshold: 155, delta: 0.5 },
+              { field: "groundClearance", comparator: "gte", threshold: 140, delta: 0.25 },
+              { field: "groundClearance", comparator: "lt", threshold: 125, delta: -1 },
+            ],
+          },
+        ],
+      },
+      // Built for broken roads and trails, so the bar is higher
+      adv: {
+        groups: [
+          {
+            label: "Suspension travel",
+            match: "first",
+            rules: [
+              { field: "rearSuspensionTravel", comparator: "gte", threshold: 200, delta: 1 },
+              { field: "rearSuspensionTravel", comparator: "gte", threshold: 170, delta: 0.5 },
+              { field: "rearSuspensionTravel", comparator: "lt", threshold: 140, delta: -0.5 },
+            ],
+          },
+          {
+            label: "Ground clearance (critical for Indian roads)",
+            match: "first",
+            rules: [
+              { field: "groundClearance", comparator: "gte", threshold: 230, delta: 1 },
+              { field: "groundClearance", comparator: "gte", threshold: 210, delta: 0.5 },
+              { field: "groundClearance", comparator: "lt", threshold: 180, delta: -1 },
+            ],
+          },
+        ],
+      },
+    },
+  },
+});
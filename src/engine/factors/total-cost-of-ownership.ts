@@ -0,0 +1,43 @@
+/**
+ * Total Cost of Ownership (optional factor)
+ * Factors: estimated cost per km over the ownership horizon, purchase price included
+ */
+
+import { defineFactor } from "./define";
+
+export const totalCostOfOwnership = defineFactor({
+  key: "totalCostOfOwnership",
+  label: "Total Cost of Ownership",
+  description: "Price, fuel, service, tyres and insurance over the ownership horizon",
+  category: "practicality",
+  defaultWeight: 0,
+  optional: true,
+  // Running costs are estimated; without a price there is no total
+  confidence: (bike) => (bike.exShowroomPrice ? "medium" : "low"),
+  rules: {
+    baseline: 5,
+    clamp: [1, 10],
+    roundTo: 0.5,
+    groups: [
+      {
+        label: "Cost per km over the ownership horizon (INR, price included)",
+        match: "first",
+        rules: [
+          { field: "tcoPerKm", comparator: "lt", threshold: 4, delta: 4 },
+          { field: "tcoPerKm", comparator: "lt", threshold: 5, delta: 3 },
+          { field: "tcoPerKm", comparator: "lt", threshold: 6, delta: 2 },
+          { field: "tcoPerKm", comparator: "lt", threshold: 8, delta: 1 },
+          { field: "tcoPerKm", comparator: "gt", threshold: 20, delta: -3 },
+          { field: "tcoPerKm", comparator: "gt", threshold: 15, delta: -2 },
+          { field: "tcoPerKm", comparator: "gt", threshold: 12, delta: -1 },
+        ],
+      },
+    ],
+    notApplicableWhen: [
+      {
+        when: [{ field: "tcoPerKm", comparator: "exists", threshold: false }],
+        reason: "Needs the ex-showroom price",
+      },
+    ],
+  },
+});
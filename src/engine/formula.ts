@@ -0,0 +1,490 @@
+/**
+ * Motologix - Formula Language
+ *
+ * A small expression language for custom factors, e.g.
+ *   clamp(10 - (seatHeight - 760) / 20, 1, 10)
+ *
+ * Formulas are parsed into a syntax tree and interpreted; nothing is ever
+ * passed to eval or Function, and the only names a formula can see are the
+ * rule fields (raw specs, derived values and scoring context) and the
+ * functions below. Types are checked before a formula is accepted.
+ *
+ * Syntax: numbers, "text", true / false, rule fields,
+ * + - * / %, unary - and !, < <= > >= == !=, && ||, cond ? a : b, (…)
+ * Functions: clamp, min, max, abs, round, floor, ceil, sqrt, pow, if, has, contains
+ */
+
+import type { RuleField } from "@/types";
+import { RULE_FIELDS, type RuleSubject } from "./rules";
+
+// ============================================
+// TYPES
+// ============================================
+
+type ValueType = "number" | "text" | "boolean";
+type Value = number | string | boolean;
+
+type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "<" | "<=" | ">" | ">=" | "==" | "!=" | "&&" | "||";
+
+type FormulaNode =
+  | { kind: "literal"; value: Value }
+  | { kind: "field"; field: RuleField }
+  | { kind: "unary"; operator: "-" | "!"; operand: FormulaNode }
+  | { kind: "binary"; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: "conditional"; test: FormulaNode; then: FormulaNode; otherwise: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+export interface FormulaResult {
+  value: number | null; // null when a field the formula needed is missing or the result isn't finite
+  inputs: Partial<Record<RuleField, number | string>>; // fields read while evaluating
+  missing?: string; // why there is no value
+}
+
+export interface CompiledFormula {
+  expression: string;
+  fields: RuleField[]; // every field the formula mentions
+  evaluate: (subject: RuleSubject) => FormulaResult;
+}
+
+// ============================================
+// LIMITS & VOCABULARY
+// ============================================
+
+const MAX_LENGTH = 500;
+const MAX_DEPTH = 32;
+
+// Rule fields holding text rather than numbers
+const TEXT_FIELDS: RuleField[] = [
+  "brand",
+  "vehicleClass",
+  "powertrain",
+  "coolingType",
+  "frontBrake",
+  "rearBrake",
+  "absType",
+  "frontSuspension",
+  "rearSuspension",
+  "handlebarType",
+  "tractionControl",
+  "clutch",
+  "quickshifter",
+  "cruiseControl",
+  "lighting",
+  "display",
+  "pillionMode",
+  "loadScenario",
+];
+
+interface FormulaFunction {
+  params: ValueType[]; // the last type repeats for variadic functions
+  variadic?: boolean;
+  returns: ValueType;
+  apply: (...args: Value[]) => Value;
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  clamp: {
+    params: ["number", "number", "number"],
+    returns: "number",
+    apply: (value, min, max) => Math.min(max as number, Math.max(min as number, value as number)),
+  },
+  min: { params: ["number"], variadic: true, returns: "number", apply: (...v) => Math.min(...(v as number[])) },
+  max: { params: ["number"], variadic: true, returns: "number", apply: (...v) => Math.max(...(v as number[])) },
+  abs: { params: ["number"], returns: "number", apply: (v) => Math.abs(v as number) },
+  round: { params: ["number"], returns: "number", apply: (v) => Math.round(v as number) },
+  floor: { params: ["number"], returns: "number", apply: (v) => Math.floor(v as number) },
+  ceil: { params: ["number"], returns: "number", apply: (v) => Math.ceil(v as number) },
+  sqrt: { params: ["number"], returns: "number", apply: (v) => Math.sqrt(v as number) },
+  pow: { params: ["number", "number"], returns: "number", apply: (b, e) => Math.pow(b as number, e as number) },
+  contains: {
+    params: ["text", "text"],
+    returns: "boolean",
+    apply: (text, part) => (text as string).toLowerCase().includes((part as string).toLowerCase()),
+  },
+};
+
+// if(cond, a, b) and has(field) are handled by the checker and evaluator directly
+const SPECIAL_FUNCTIONS = ["if", "has"];
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+interface Token {
+  kind: "number" | "text" | "name" | "symbol" | "end";
+  value: string;
+  position: number;
+}
+
+const SYMBOLS = ["<=", ">=", "==", "!=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", "(", ")", ","];
+
+function fail(message: string): never {
+  throw new Error(`Invalid formula: ${message}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: "number", value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ kind: "name", value: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) fail(`unterminated text starting at ${i + 1}`);
+      tokens.push({ kind: "text", value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((s) => source.startsWith(s, i));
+    if (!symbol) fail(`unexpected "${char}" at ${i + 1}`);
+    tokens.push({ kind: "symbol", value: symbol, position: i });
+    i += symbol.length;
+  }
+
+  tokens.push({ kind: "end", value: "", position: source.length });
+  return tokens;
+}
+
+// ============================================
+// PARSER (recursive descent, lowest precedence first)
+// ============================================
+
+function parse(source: string): FormulaNode {
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token) =>
+    token.kind === "end" ? "end of formula" : `"${token.value}" at ${token.position + 1}`;
+  const accept = (symbol: string) => {
+    const token = peek();
+    if (token.kind === "symbol" && token.value === symbol) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (symbol: string) => {
+    if (!accept(symbol)) fail(`expected "${symbol}" but found ${describe(peek())}`);
+  };
+
+  const binaryLevel = (operators: BinaryOperator[], next: () => FormulaNode) => (): FormulaNode => {
+    let left = next();
+    for (;;) {
+      const token = peek();
+      const operator = operators.find((op) => token.kind === "symbol" && token.value === op);
+      if (!operator) return left;
+      index++;
+      left = { kind: "binary", operator, left, right: next() };
+    }
+  };
+
+  const expression = (): FormulaNode => {
+    if (++depth > MAX_DEPTH) fail("formula is nested too deeply");
+    const test = or();
+    let node = test;
+    if (accept("?")) {
+      const then = expression();
+      expect(":");
+      node = { kind: "conditional", test, then, otherwise: expression() };
+    }
+    depth--;
+    return node;
+  };
+
+  const unary = (): FormulaNode => {
+    if (accept("-")) return { kind: "unary", operator: "-", operand: unary() };
+    if (accept("!")) return { kind: "unary", operator: "!", operand: unary() };
+    return primary();
+  };
+
+  const multiplicative = binaryLevel(["*", "/", "%"], unary);
+  const additive = binaryLevel(["+", "-"], multiplicative);
+  const comparison = binaryLevel(["<=", ">=", "<", ">"], additive);
+  const equality = binaryLevel(["==", "!="], comparison);
+  const and = binaryLevel(["&&"], equality);
+  const or = binaryLevel(["||"], and);
+
+  const primary = (): FormulaNode => {
+    const token = peek();
+    index++;
+
+    if (token.kind === "number") return { kind: "literal", value: Number(token.value) };
+    if (token.kind === "text") return { kind: "literal", value: token.value };
+
+    if (token.kind === "symbol" && token.value === "(") {
+      const inner = expression();
+      expect(")");
+      return inner;
+    }
+
+    if (token.kind === "name") {
+      if (token.value === "true" || token.value === "false") {
+        return { kind: "literal", value: token.value === "true" };
+      }
+
+      if (accept("(")) {
+        // Own properties only, so names like "constructor" can't reach the prototype
+        const known =
+          Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value) ||
+          SPECIAL_FUNCTIONS.includes(token.value);
+        if (!known) {
+          fail(`unknown function "${token.value}"`);
+        }
+        const args: FormulaNode[] = [];
+        if (!accept(")")) {
+          do {
+            args.push(expression());
+          } while (accept(","));
+          expect(")");
+        }
+        return { kind: "call", name: token.value, args };
+      }
+
+      if (!RULE_FIELDS.includes(token.value as RuleField)) {
+        fail(`unknown field "${token.value}"`);
+      }
+      return { kind: "field", field: token.value as RuleField };
+    }
+
+    fail(`unexpected ${describe(token)}`);
+  };
+
+  const tree = expression();
+  if (peek().kind !== "end") fail(`unexpected ${describe(peek())}`);
+  return tree;
+}
+
+// ============================================
+// TYPE CHECKER
+// ============================================
+
+function typeOf(node: FormulaNode): ValueType {
+  switch (node.kind) {
+    case "literal":
+      return typeof node.value === "string" ? "text" : (typeof node.value as ValueType);
+
+    case "field":
+      return TEXT_FIELDS.includes(node.field) ? "text" : "number";
+
+    case "unary": {
+      const expected = node.operator === "-" ? "number" : "boolean";
+      if (typeOf(node.operand) !== expected) fail(`"${node.operator}" needs a ${expected}`);
+      return expected;
+    }
+
+    case "binary": {
+      const left = typeOf(node.left);
+      const right = typeOf(node.right);
+      switch (node.operator) {
+        case "&&":
+        case "||":
+          if (left !== "boolean" || right !== "boolean") fail(`"${node.operator}" needs true/false on both sides`);
+          return "boolean";
+        case "==":
+        case "!=":
+          if (left !== right) fail(`"${node.operator}" compares a ${left} with a ${right}`);
+          return "boolean";
+        default:
+          if (left !== "number" || right !== "number") fail(`"${node.operator}" needs numbers on both sides`);
+          return ["<", "<=", ">", ">="].includes(node.operator) ? "boolean" : "number";
+      }
+    }
+
+    case "conditional":
+      return checkConditional("?", node.test, node.then, node.otherwise);
+
+    case "call": {
+      if (node.name === "if") {
+        if (node.args.length !== 3) fail("if() takes a condition and two values");
+        return checkConditional("if()", node.args[0], node.args[1], node.args[2]);
+      }
+
+      if (node.name === "has") {
+        if (node.args.length !== 1 || node.args[0].kind !== "field") fail("has() takes a single field");
+        return "boolean";
+      }
+
+      const fn = FUNCTIONS[node.name];
+      const arity = fn.params.length;
+      if (fn.variadic ? node.args.length < arity : node.args.length !== arity) {
+        fail(`${node.name}() takes ${fn.variadic ? "at least " : ""}${arity} argument${arity === 1 ? "" : "s"}`);
+      }
+      node.args.forEach((arg, i) => {
+        const expected = fn.params[Math.min(i, arity - 1)];
+        if (typeOf(arg) !== expected) fail(`argument ${i + 1} of ${node.name}() must be a ${expected}`);
+      });
+      return fn.returns;
+    }
+  }
+}
+
+function checkConditional(
+  name: string,
+  test: FormulaNode,
+  then: FormulaNode,
+  otherwise: FormulaNode
+): ValueType {
+  if (typeOf(test) !== "boolean") fail(`the condition of ${name} must be true/false`);
+  const type = typeOf(then);
+  if (typeOf(otherwise) !== type) fail(`both branches of ${name} must be the same type`);
+  return type;
+}
+
+function collectFields(node: FormulaNode, fields: Set<RuleField>): Set<RuleField> {
+  switch (node.kind) {
+    case "field":
+      fields.add(node.field);
+      break;
+    case "unary":
+      collectFields(node.operand, fields);
+      break;
+    case "binary":
+      collectFields(node.left, fields);
+      collectFields(node.right, fields);
+      break;
+    case "conditional":
+      [node.test, node.then, node.otherwise].forEach((child) => collectFields(child, fields));
+      break;
+    case "call":
+      node.args.forEach((arg) => collectFields(arg, fields));
+      break;
+  }
+  return fields;
+}
+
+// ============================================
+// EVALUATOR
+// ============================================
+
+// Thrown when a formula reads a field the bike doesn't have
+class MissingFieldError extends Error {
+  constructor(readonly field: RuleField) {
+    super(`${field} is missing`);
+  }
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  subject: RuleSubject,
+  inputs: FormulaResult["inputs"]
+): Value {
+  const evaluate = (child: FormulaNode) => evaluateNode(child, subject, inputs);
+
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "field": {
+      const value = subject[node.field];
+      if (value === undefined || value === null) throw new MissingFieldError(node.field);
+      inputs[node.field] = value;
+      return value;
+    }
+
+    case "unary":
+      return node.operator === "-" ? -(evaluate(node.operand) as number) : !evaluate(node.operand);
+
+    case "binary": {
+      // Short-circuit so the unused side can't fail on a missing field
+      if (node.operator === "&&") return (evaluate(node.left) as boolean) && (evaluate(node.right) as boolean);
+      if (node.operator === "||") return (evaluate(node.left) as boolean) || (evaluate(node.right) as boolean);
+
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      switch (node.operator) {
+        case "==":
+          return left === right;
+        case "!=":
+          return left !== right;
+        case "+":
+          return (left as number) + (right as number);
+        case "-":
+          return (left as number) - (right as number);
+        case "*":
+          return (left as number) * (right as number);
+        case "/":
+          return (left as number) / (right as number);
+        case "%":
+          return (left as number) % (right as number);
+        case "<":
+          return left < right;
+        case "<=":
+          return left <= right;
+        case ">":
+          return left > right;
+        case ">=":
+          return left >= right;
+      }
+    }
+
+    case "conditional":
+      return evaluate(node.test) ? evaluate(node.then) : evaluate(node.otherwise);
+
+    case "call": {
+      if (node.name === "if") return evaluate(node.args[0]) ? evaluate(node.args[1]) : evaluate(node.args[2]);
+      if (node.name === "has") {
+        const field = (node.args[0] as { field: RuleField }).field;
+        return subject[field] !== undefined && subject[field] !== null;
+      }
+      return FUNCTIONS[node.name].apply(...node.args.map(evaluate));
+    }
+  }
+}
+
+// ============================================
+// COMPILATION
+// ============================================
+
+/**
+ * Parse and type-check a formula. The result must be a number.
+ * Throws an Error starting "Invalid formula:" describing the first problem.
+ */
+export function compileFormula(expression: string): CompiledFormula {
+  const source = expression.trim();
+  if (!source) fail("formula is empty");
+  if (source.length > MAX_LENGTH) fail(`formula is longer than ${MAX_LENGTH} characters`);
+
+  const tree = parse(source);
+  const type = typeOf(tree);
+  if (type !== "number") fail(`formula must produce a number, not ${type === "text" ? "text" : "true/false"}`);
+
+  return {
+    expression: source,
+    fields: [...collectFields(tree, new Set())],
+    evaluate: (subject) => {
+      const inputs: FormulaResult["inputs"] = {};
+      try {
+        const value = evaluateNode(tree, subject, inputs) as number;
+        return Number.isFinite(value)
+          ? { value, inputs }
+          : { value: null, inputs, missing: "result is not a finite number" };
+      } catch (error) {
+        if (error instanceof MissingFieldError) return { value: null, inputs, missing: error.message };
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Motologix - Fuel Efficiency & Range
+ *
+ * Real-world mileage and the range it gives on a full tank.
+ * Discovered figures carry their provenance: real-world figures are used
+ * as they are, claimed (test-cycle) figures are discounted, and bikes
+ * without a figure fall back to an estimate from engine size.
+ * Electric bikes have their range from electric.ts instead.
+ */
+
+import type { FuelEfficiencySource, Motorcycle } from "@/types";
+import { getElectricRange, isElectric } from "./electric";
+
+// Typical real-world mileage (km/l) by engine size, smallest bracket first
+const MILEAGE_BY_CC: Array<[maxCC: number, kmpl: number]> = [
+  [125, 60],
+  [160, 48],
+  [200, 40],
+  [300, 33],
+  [500, 28],
+  [700, 23],
+  [Infinity, 18],
+];
+
+// Claimed figures come from a gentle test cycle; riders see about 80% of them
+const CLAIMED_TO_REAL_WORLD = 0.8;
+
+export interface MileageEstimate {
+  kmpl: number; // real-world
+  source: FuelEfficiencySource;
+}
+
+/**
+ * Typical real-world mileage in km/l for the bike's engine size
+ */
+export function estimateMileageFromEngine(engineCC: number): number {
+  return MILEAGE_BY_CC.find(([maxCC]) => engineCC <= maxCC)![1];
+}
+
+/**
+ * Real-world mileage: the discovered figure (discounted if claimed),
+ * or an estimate from engine size when there is none
+ */
+export function getRealWorldMileage(bike: Motorcycle): MileageEstimate {
+  if (bike.fuelEfficiency && bike.fuelEfficiency > 0) {
+    const source = bike.fuelEfficiencySource ?? "claimed";
+    const kmpl = source === "claimed" ? bike.fuelEfficiency * CLAIMED_TO_REAL_WORLD : bike.fuelEfficiency;
+    return { kmpl: Math.round(kmpl * 10) / 10, source };
+  }
+
+  return { kmpl: estimateMileageFromEngine(bike.engineCC), source: "estimated" };
+}
+
+/**
+ * Real-world range on a full tank (or a full charge for electric bikes), km
+ */
+export function getRealWorldRange(bike: Motorcycle): number {
+  if (isElectric(bike)) return getElectricRange(bike).km;
+  return Math.round(bike.fuelCapacity * getRealWorldMileage(bike).kmpl);
+}
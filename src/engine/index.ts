@@ -4,33 +4,146 @@
  * Central export point for all engine functionality.
  */
 
+// Factor registry (one module per built-in factor)
+export { FACTOR_REGISTRY } from "./factors";
+export type { BuiltInFactorKey } from "./factors";
+
 // Normalization (spec → factor scores)
 export {
   normalizeMotorcycle,
+  normalizeMotorcycleTraced,
+  scoresFromTraces,
   getFactorConfidences,
-  scoreDailyTrafficEase,
-  scoreBrakingSafetyConfidence,
-  scorePrimaryPillionComfort,
-  scoreHighwayStability,
-  scoreRiderComfort,
-  scoreSuspensionCompliance,
-  scoreFunEngagement,
-  scoreHeatManagement,
-  scoreOwnershipPracticality,
-  scoreLongTermSuitability,
+  scoreFactor,
 } from "./normalizer";
 
+export type { NormalizationOptions } from "./normalizer";
+
+// Rulesets (declarative thresholds behind the normalizer)
+export {
+  DEFAULT_RULESET,
+  BUILT_IN_RULESETS,
+  getBuiltInRuleset,
+  RULESET_V1,
+  RULESET_V2,
+  RULESET_V3,
+  RULESET_V4,
+  RULESET_V5,
+  RULESET_V6,
+  RULESET_V7,
+  RULESET_V8,
+  RULESET_V9,
+  RULESET_V10,
+  RULESET_V11,
+  RULESET_V12,
+  RULESET_V13,
+} from "./rulesets";
+export {
+  buildRuleSubject,
+  matchesCondition,
+  evaluateFactorRules,
+  traceFactorRules,
+  applyClassOverride,
+  parseRuleset,
+} from "./rules";
+export type { RuleContext, RuleSubject } from "./rules";
+
 // Scoring (factor scores + weights → final score)
 export {
   calculateFinalScore,
   validateWeights,
   normalizeWeights,
   scoreMotorcycle,
+  scoreUnderLoadScenarios,
   scoreAndRankMotorcycles,
   getScoreBreakdown,
   compareScores,
 } from "./scoring";
 
+export type { ScoringOptions } from "./scoring";
+
+// AHP (factor weights from pairwise questions)
+export { getAhpQuestions, computeAhpWeights } from "./ahp";
+export type { PairwiseJudgement, AhpContradiction, AhpResult } from "./ahp";
+
+// Weight presets (persona libraries, import/export)
+export { BUILT_IN_PRESETS, weightDistance, exportPresets, parsePresets } from "./presets";
+
+// Sensitivity (would the winner change with different weights?)
+export { analyzeWeightSensitivity } from "./sensitivity";
+export type { SensitivityReport, FactorSensitivity, RankStability } from "./sensitivity";
+
+// Uncertainty (score intervals from spec confidence)
+export { simulateScoreUncertainty, simulateScoreUncertaintyAsync } from "./uncertainty";
+export type { ScoreInterval, UncertaintyOptions } from "./uncertainty";
+
+// Relative scoring (rescale factors within a comparison)
+export { rescaleFactorScores, applyRelativeScaling } from "./relative";
+
+// Aggregation methods (alternatives to the weighted sum)
+export {
+  AGGREGATION_METHODS,
+  getAggregationMethodMeta,
+  aggregateScores,
+  rankByAggregation,
+  compareAggregationMethods,
+} from "./aggregation";
+export type { AggregationMethodMeta, MethodRanking, AggregationComparison } from "./aggregation";
+
+// Fuel efficiency and real-world range
+export { estimateMileageFromEngine, getRealWorldMileage, getRealWorldRange } from "./fuel";
+export type { MileageEstimate } from "./fuel";
+
+// Electric powertrain (range, energy use)
+export { KW_TO_BHP, isElectric, getElectricRange, getEnergyUse } from "./electric";
+export type { ElectricRangeEstimate, EnergyUseEstimate } from "./electric";
+
+// Total cost of ownership
+export { estimateServiceCost, estimateTotalCostOfOwnership } from "./tco";
+
+// Vehicle classes (class default weights; rule overrides live in the factor modules)
+export {
+  VEHICLE_CLASSES,
+  VEHICLE_CLASS_IDS,
+  isVehicleClass,
+  getVehicleClass,
+  getSharedVehicleClass,
+  getClassDefaultWeights,
+} from "./vehicle-classes";
+
+// Load scenarios (rider, pillion and luggage on board)
+export { LOAD_SCENARIOS, getLoadScenario, getDefaultLoadScenario, resolveLoad } from "./load";
+
+// Service network (brand service centres, parts and rates by city)
+export {
+  SERVICE_REGIONS,
+  getServiceRegion,
+  findServiceRegionByPin,
+  getServiceNetwork,
+  hasServiceNetworkData,
+} from "./service-network";
+
+// Custom factors (user-defined formulas over motorcycle fields)
+export { compileFormula } from "./formula";
+export type { CompiledFormula, FormulaResult } from "./formula";
+export {
+  isCustomFactorKey,
+  getFactorMetadata,
+  createCustomFactor,
+  traceCustomFactor,
+  getCustomFactorConfidence,
+} from "./custom";
+export type { CustomFactorInput } from "./custom";
+
+// Ranking policy (statistical ties and tie-breaker factors)
+export { applyRankingPolicy } from "./ranking";
+
+// Pareto dominance (bikes beaten on every factor, whatever the weights)
+export { dominates, markDominatedBikes, getParetoFrontier } from "./pareto";
+
+// Hard constraints (eliminate bikes before ranking)
+export { checkConstraints, hasConstraints } from "./constraints";
+
 // Validation (sanity checks)
 export {
   validateMotorcycle,
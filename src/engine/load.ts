@@ -0,0 +1,105 @@
+/**
+ * Motologix - Load Scenarios
+ *
+ * What the bike carries: the rider, a pillion (adult or child) and luggage.
+ * The payload against kerb weight drives how much the suspension sags and
+ * how hard the brakes have to work, so the same bike scores differently
+ * ridden solo to work and two-up with bags on a weekend.
+ */
+
+import type {
+  LoadScenario,
+  LoadScenarioId,
+  PillionMode,
+  ResolvedLoad,
+  RiderProfile,
+} from "@/types";
+
+const DEFAULT_RIDER_WEIGHT = 70; // kg
+const DEFAULT_PILLION_WEIGHT = 65; // kg
+const CHILD_PILLION_WEIGHT = 30; // kg, roughly a ten-year-old
+
+export const LOAD_SCENARIOS: LoadScenario[] = [
+  {
+    id: "solo",
+    label: "Solo",
+    description: "Just the rider",
+    pillion: "none",
+    riderWeight: DEFAULT_RIDER_WEIGHT,
+    pillionWeight: 0,
+    luggageWeight: 0,
+  },
+  {
+    id: "solo-luggage",
+    label: "Solo + luggage",
+    description: "Rider with saddlebags or a tail bag for touring",
+    pillion: "none",
+    riderWeight: DEFAULT_RIDER_WEIGHT,
+    pillionWeight: 0,
+    luggageWeight: 25,
+  },
+  {
+    id: "pillion",
+    label: "Pillion",
+    description: "Rider and an adult passenger",
+    pillion: "adult",
+    riderWeight: DEFAULT_RIDER_WEIGHT,
+    pillionWeight: DEFAULT_PILLION_WEIGHT,
+    luggageWeight: 0,
+  },
+  {
+    id: "pillion-luggage",
+    label: "Pillion + luggage",
+    description: "Two-up with bags, the heaviest case",
+    pillion: "adult",
+    riderWeight: DEFAULT_RIDER_WEIGHT,
+    pillionWeight: DEFAULT_PILLION_WEIGHT,
+    luggageWeight: 15,
+  },
+  {
+    id: "child-pillion",
+    label: "Child pillion",
+    description: "Rider and a child on the back",
+    pillion: "child",
+    riderWeight: DEFAULT_RIDER_WEIGHT,
+    pillionWeight: CHILD_PILLION_WEIGHT,
+    luggageWeight: 0,
+  },
+];
+
+/**
+ * Scenario by id (throws for an unknown id)
+ */
+export function getLoadScenario(id: LoadScenarioId): LoadScenario {
+  const scenario = LOAD_SCENARIOS.find((s) => s.id === id);
+  if (!scenario) throw new Error(`Unknown load scenario "${id}"`);
+  return scenario;
+}
+
+/**
+ * The scenario a pillion mode implies when none is chosen explicitly
+ */
+export function getDefaultLoadScenario(pillionMode: PillionMode): LoadScenarioId {
+  return pillionMode === "none" ? "solo" : "pillion";
+}
+
+/**
+ * Apply the rider profile to a scenario: the rider's own weight, and the
+ * profile's pillion weight for an adult pillion
+ */
+export function resolveLoad(id: LoadScenarioId, rider?: RiderProfile): ResolvedLoad {
+  const scenario = getLoadScenario(id);
+  const riderWeight = rider?.bodyWeight ?? scenario.riderWeight;
+  const pillionWeight =
+    scenario.pillion === "adult"
+      ? (rider?.pillionWeight ?? scenario.pillionWeight)
+      : scenario.pillionWeight;
+
+  return {
+    scenario: id,
+    riderWeight,
+    pillionWeight,
+    luggageWeight: scenario.luggageWeight,
+    payload: riderWeight + pillionWeight + scenario.luggageWeight,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Motologix - Pareto Dominance
+ *
+ * A bike that is at least as good as another on every factor, and
+ * strictly better on at least one, beats it under any choice of weights.
+ * The dominated bike can be ruled out objectively. Factors that do not
+ * apply to either bike are not compared.
+ */
+
+import type { FactorKey, ScoredMotorcycle } from "@/types";
+
+/**
+ * Check whether `a` Pareto-dominates `b` on factor scores
+ */
+export function dominates(a: ScoredMotorcycle, b: ScoredMotorcycle): boolean {
+  let strictlyBetter = false;
+
+  for (const key of Object.keys(a.factorScores) as FactorKey[]) {
+    if (a.notApplicable[key] || b.notApplicable[key]) continue;
+    if (a.factorScores[key] < b.factorScores[key]) return false;
+    if (a.factorScores[key] > b.factorScores[key]) strictlyBetter = true;
+  }
+
+  return strictlyBetter;
+}
+
+/**
+ * Set `dominatedBy` on every bike (ids of the bikes that dominate it, best ranked first)
+ */
+export function markDominatedBikes(bikes: ScoredMotorcycle[]): ScoredMotorcycle[] {
+  return bikes.map((bike) => {
+    const dominators = bikes
+      .filter((other) => other !== bike && dominates(other, bike))
+      .sort((a, b) => b.finalScore - a.finalScore)
+      .map((other) => other.motorcycle.id);
+
+    return { ...bike, dominatedBy: dominators.length > 0 ? dominators : undefined };
+  });
+}
+
+/**
+ * Bikes that no other bike in the comparison dominates
+ */
+export function getParetoFrontier(bikes: ScoredMotorcycle[]): ScoredMotorcycle[] {
+  return bikes.filter((bike) => !bikes.some((other) => other !== bike && dominates(other, bike)));
+}
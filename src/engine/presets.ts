@@ -0,0 +1,228 @@
+/**
+ * Motologix - Weight Presets
+ *
+ * Built-in persona presets (weights + pillion mode), plus helpers to
+ * compare the current weights with a preset and to import/export
+ * user presets as JSON.
+ */
+
+import type { BuiltInFactorKey, FactorKey, FactorWeights, PillionMode, WeightPreset } from "@/types";
+import { DEFAULT_WEIGHTS, FACTOR_METADATA } from "@/types";
+import { normalizeWeights } from "./scoring";
+
+// ============================================
+// BUILT-IN PRESETS
+// ============================================
+
+/**
+ * A built-in preset's weights: the factors it lists, and each factor's
+ * default weight for the rest, so a new factor needs no preset edits
+ */
+function presetWeights(weights: Partial<Record<BuiltInFactorKey, number>>): FactorWeights {
+  return { ...DEFAULT_WEIGHTS, ...weights };
+}
+
+export const BUILT_IN_PRESETS: WeightPreset[] = [
+  {
+    id: "balanced",
+    name: "Balanced",
+    description: "The default weights",
+    weights: { ...DEFAULT_WEIGHTS },
+    pillionMode: "primary",
+  },
+  {
+    id: "daily-commuter",
+    name: "Daily Commuter",
+    description: "Solo city rides: traffic, heat and running costs",
+    weights: presetWeights({
+      dailyTrafficEase: 0.22,
+      brakingSafetyConfidence: 0.15,
+      primaryPillionComfort: 0.05,
+      highwayStability: 0.04,
+      riderComfort: 0.1,
+      suspensionCompliance: 0.1,
+      funEngagement: 0.03,
+      heatManagement: 0.12,
+      ownershipPracticality: 0.12,
+      longTermSuitability: 0.07,
+    }),
+    pillionMode: "none",
+  },
+  {
+    id: "weekend-tourer",
+    name: "Weekend Tourer",
+    description: "Highway trips with a partner: stability and comfort",
+    weights: presetWeights({
+      dailyTrafficEase: 0.04,
+      brakingSafetyConfidence: 0.14,
+      primaryPillionComfort: 0.08,
+      highwayStability: 0.2,
+      riderComfort: 0.18,
+      suspensionCompliance: 0.12,
+      funEngagement: 0.12,
+      heatManagement: 0.02,
+      ownershipPracticality: 0.04,
+      longTermSuitability: 0.06,
+    }),
+    pillionMode: "primary",
+  },
+  {
+    id: "parent-pillion",
+    name: "Parent Pillion",
+    description: "Regularly carrying parents: safety and pillion comfort first",
+    weights: presetWeights({
+      dailyTrafficEase: 0.1,
+      brakingSafetyConfidence: 0.22,
+      primaryPillionComfort: 0.22,
+      highwayStability: 0.08,
+      riderComfort: 0.06,
+      suspensionCompliance: 0.12,
+      funEngagement: 0.02,
+      heatManagement: 0.04,
+      ownershipPracticality: 0.08,
+      longTermSuitability: 0.06,
+    }),
+    pillionMode: "secondary",
+  },
+  {
+    id: "first-bike",
+    name: "First Bike",
+    description: "New rider: forgiving, safe and easy to handle",
+    weights: presetWeights({
+      dailyTrafficEase: 0.2,
+      brakingSafetyConfidence: 0.22,
+      primaryPillionComfort: 0.04,
+      highwayStability: 0.06,
+      riderComfort: 0.1,
+      suspensionCompliance: 0.08,
+      funEngagement: 0.06,
+      heatManagement: 0.06,
+      ownershipPracticality: 0.12,
+      longTermSuitability: 0.06,
+    }),
+    pillionMode: "none",
+  },
+  {
+    id: "budget-conscious",
+    name: "Budget-Conscious",
+    description: "Lowest cost to own over the years",
+    weights: presetWeights({
+      dailyTrafficEase: 0.12,
+      brakingSafetyConfidence: 0.12,
+      primaryPillionComfort: 0.06,
+      highwayStability: 0.06,
+      riderComfort: 0.08,
+      suspensionCompliance: 0.08,
+      funEngagement: 0.04,
+      heatManagement: 0.06,
+      ownershipPracticality: 0.14,
+      longTermSuitability: 0.1,
+      totalCostOfOwnership: 0.14,
+    }),
+    pillionMode: "primary",
+  },
+];
+
+const PILLION_MODES: PillionMode[] = ["primary", "secondary", "none"];
+
+const isOptionalFactor = (key: FactorKey) =>
+  FACTOR_METADATA.some((f) => f.key === key && f.optional);
+
+// ============================================
+// DISTANCE
+// ============================================
+
+/**
+ * How far two weight sets are apart, in percentage points of weight
+ * that would have to move (0 = identical, 100 = completely different)
+ */
+export function weightDistance(a: FactorWeights, b: FactorWeights): number {
+  const left = normalizeWeights(a);
+  const right = normalizeWeights(b);
+  const total = FACTOR_METADATA.reduce(
+    (sum, { key }) => sum + Math.abs(left[key] - right[key]),
+    0
+  );
+  return Math.round((total / 2) * 100);
+}
+
+// ============================================
+// IMPORT / EXPORT
+// ============================================
+
+/**
+ * Serialize presets for download
+ */
+export function exportPresets(presets: WeightPreset[]): string {
+  return JSON.stringify({ presets }, null, 2);
+}
+
+/**
+ * Parse presets from JSON: `{ "presets": [...] }`, an array, or a single preset.
+ * Weights are normalized to sum to 1. Throws an Error listing every problem found.
+ */
+export function parsePresets(input: string | unknown): WeightPreset[] {
+  const data = typeof input === "string" ? JSON.parse(input) : input;
+
+  const list: unknown[] = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { presets?: unknown }).presets)
+      ? (data as { presets: unknown[] }).presets
+      : [data];
+
+  const problems: string[] = [];
+  const builtInIds = BUILT_IN_PRESETS.map((p) => p.id);
+  const factorKeys = FACTOR_METADATA.map((f) => f.key);
+
+  const presets = list.map((item, index) => {
+    const path = `presets[${index}]`;
+    if (!item || typeof item !== "object") {
+      problems.push(`${path} must be an object`);
+      return null;
+    }
+
+    const raw = item as Partial<WeightPreset>;
+    if (!raw.id || typeof raw.id !== "string") problems.push(`${path}.id is required`);
+    else if (builtInIds.includes(raw.id)) problems.push(`${path}.id "${raw.id}" is a built-in preset`);
+    if (!raw.name || typeof raw.name !== "string") problems.push(`${path}.name is required`);
+    if (!PILLION_MODES.includes(raw.pillionMode as PillionMode)) {
+      problems.push(`${path}.pillionMode must be one of ${PILLION_MODES.join(", ")}`);
+    }
+
+    const weights = raw.weights as Partial<Record<FactorKey, unknown>> | undefined;
+    if (!weights || typeof weights !== "object") {
+      problems.push(`${path}.weights must be an object`);
+      return null;
+    }
+    for (const key of factorKeys) {
+      // Presets saved before an optional factor existed simply leave it off
+      if (weights[key] === undefined && isOptionalFactor(key)) continue;
+      const value = weights[key];
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        problems.push(`${path}.weights.${key} must be a non-negative number`);
+      }
+    }
+    if (factorKeys.every((key) => !weights[key])) {
+      problems.push(`${path}.weights must not all be zero`);
+    }
+
+    return {
+      id: raw.id!,
+      name: raw.name!,
+      description: typeof raw.description === "string" ? raw.description : undefined,
+      // Only known factors are kept
+      weights: normalizeWeights(
+        Object.fromEntries(factorKeys.map((key) => [key, weights[key] ?? 0])) as unknown as FactorWeights
+      ),
+      pillionMode: raw.pillionMode as PillionMode,
+    };
+  });
+
+  if (list.length === 0) problems.push("no presets found");
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid presets: ${problems.join("; ")}`);
+  }
+
+  return presets as WeightPreset[];
+}
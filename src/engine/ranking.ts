@@ -0,0 +1,127 @@
+/**
+ * Motologix - Ranking Policy
+ *
+ * Final scores are rounded to whole points, so a 71 would otherwise beat
+ * a 70 even though the gap is well inside the data uncertainty. The policy
+ * groups bikes closer than a minimum meaningful gap into a shared rank and
+ * orders each group by an explicit list of tie-breaker factors.
+ */
+
+import type { FactorKey, RankingPolicy, ScoredMotorcycle } from "@/types";
+import { FACTOR_METADATA } from "@/types";
+
+const nameOf = (bike: ScoredMotorcycle) => `${bike.motorcycle.brand} ${bike.motorcycle.model}`;
+
+const labelOf = (key: FactorKey) =>
+  (FACTOR_METADATA.find((f) => f.key === key)?.label ?? key).toLowerCase();
+
+/**
+ * Score the ranking is based on: the aggregate score when another method
+ * ranked the bikes, otherwise the weighted sum. Null for ordinal methods.
+ */
+function rankingScore(bike: ScoredMotorcycle): number | null {
+  return bike.aggregate ? bike.aggregate.score : bike.finalScore;
+}
+
+/**
+ * First tie-breaker on which the two bikes differ, or null.
+ * A tie-breaker left out of either bike's score can't separate them.
+ */
+function decidingFactor(
+  a: ScoredMotorcycle,
+  b: ScoredMotorcycle,
+  tieBreakers: FactorKey[]
+): FactorKey | null {
+  return (
+    tieBreakers.find(
+      (key) =>
+        a.notApplicable[key] === undefined &&
+        b.notApplicable[key] === undefined &&
+        a.factorScores[key] !== b.factorScores[key]
+    ) ?? null
+  );
+}
+
+/**
+ * Why `bike` is placed where it is relative to its neighbour in the tie
+ * (`ahead` = the neighbour is placed after it)
+ */
+function describePlacement(
+  bike: ScoredMotorcycle,
+  neighbour: ScoredMotorcycle,
+  ahead: boolean,
+  factor: FactorKey | null
+): string {
+  const side = ahead ? "Ahead of" : "Behind";
+
+  if (factor) {
+    return `${side} ${nameOf(neighbour)} on ${labelOf(factor)} (${bike.factorScores[factor]} vs ${neighbour.factorScores[factor]})`;
+  }
+
+  const score = rankingScore(bike)!;
+  const other = rankingScore(neighbour)!;
+  if (score !== other) {
+    return `${side} ${nameOf(neighbour)} on score alone (${score} vs ${other}); no tie-breaker separates them`;
+  }
+
+  return `Level with ${nameOf(neighbour)} on score and every tie-breaker`;
+}
+
+/**
+ * Apply a ranking policy to bikes already sorted by rank.
+ * Returns a new array: tied bikes share the rank of the best of them,
+ * are ordered by the tie-breakers, and carry a `tie` explaining their place.
+ * Ordinal methods have no score gap to measure, so their ranking is returned unchanged.
+ */
+export function applyRankingPolicy(
+  bikes: ScoredMotorcycle[],
+  policy: RankingPolicy
+): ScoredMotorcycle[] {
+  if (bikes.some((bike) => rankingScore(bike) === null)) return bikes;
+
+  const result: ScoredMotorcycle[] = [];
+  let start = 0;
+
+  while (start < bikes.length) {
+    // Everything within the gap of the group's best score joins the group
+    const top = rankingScore(bikes[start])!;
+    let end = start + 1;
+    while (end < bikes.length) {
+      const gap = top - rankingScore(bikes[end])!;
+      if (gap > 0 && gap >= policy.minMeaningfulGap) break;
+      end++;
+    }
+
+    const group = bikes.slice(start, end).sort((a, b) => {
+      const factor = decidingFactor(a, b, policy.tieBreakers);
+      if (factor) return b.factorScores[factor] - a.factorScores[factor];
+      return rankingScore(b)! - rankingScore(a)!;
+    });
+
+    const rank = start + 1;
+    group.forEach((bike, i) => {
+      if (group.length === 1) {
+        result.push({ ...bike, rank, tie: undefined });
+        return;
+      }
+
+      const ahead = i < group.length - 1;
+      const neighbour = ahead ? group[i + 1] : group[i - 1];
+      const factor = decidingFactor(bike, neighbour, policy.tieBreakers);
+
+      result.push({
+        ...bike,
+        rank,
+        tie: {
+          tiedWith: group.filter((other) => other !== bike).map((other) => other.motorcycle.id),
+          brokenBy: factor,
+          message: describePlacement(bike, neighbour, ahead, factor),
+        },
+      });
+    });
+
+    start = end;
+  }
+
+  return result;
+}
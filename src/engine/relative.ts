@@ -0,0 +1,85 @@
+/**
+ * Motologix - Relative Scoring
+ *
+ * Factor scores are absolute: three similar 350cc bikes all land near
+ * 7/10 and the comparison ends in a near-tie. Relative mode rescales
+ * each factor across the bikes currently compared, so small real
+ * differences are stretched over the 1-10 scale. Relative scores only
+ * mean something within this comparison and are always labeled as such.
+ */
+
+import type { FactorKey, FactorScores, FactorWeights, RelativeScaling, ScoredMotorcycle } from "@/types";
+import { calculateFinalScore, normalizeWeights } from "./scoring";
+
+const SCALE_MIN = 1;
+const SCALE_MAX = 10;
+const SCALE_MID = (SCALE_MIN + SCALE_MAX) / 2;
+const Z_SCORE_STEP = 1.5; // scale points per standard deviation
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Rescale every factor across a set of factor scores (same order as input).
+ * A factor on which all bikes are equal maps to the middle of the scale.
+ */
+export function rescaleFactorScores(
+  scores: FactorScores[],
+  method: RelativeScaling
+): FactorScores[] {
+  const rescaled = scores.map((s) => ({ ...s }));
+
+  for (const key of Object.keys(scores[0] ?? {}) as FactorKey[]) {
+    const values = scores.map((s) => s[key]);
+
+    if (method === "min-max") {
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      values.forEach((value, i) => {
+        rescaled[i][key] =
+          max > min
+            ? round(SCALE_MIN + ((value - min) / (max - min)) * (SCALE_MAX - SCALE_MIN))
+            : SCALE_MID;
+      });
+    } else {
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+      const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+      values.forEach((value, i) => {
+        const z = std > 0 ? (value - mean) / std : 0;
+        rescaled[i][key] = round(
+          Math.min(SCALE_MAX, Math.max(SCALE_MIN, SCALE_MID + z * Z_SCORE_STEP))
+        );
+      });
+    }
+  }
+
+  return rescaled;
+}
+
+/**
+ * Replace factor and final scores with relative ones, keeping the absolute
+ * values in `relative`. Needs at least two bikes; otherwise returns them unchanged.
+ */
+export function applyRelativeScaling(
+  bikes: ScoredMotorcycle[],
+  weights: FactorWeights,
+  method: RelativeScaling
+): ScoredMotorcycle[] {
+  if (bikes.length < 2) return bikes;
+
+  const normalizedWeights = normalizeWeights(weights);
+  const rescaled = rescaleFactorScores(
+    bikes.map((b) => b.factorScores),
+    method
+  );
+
+  return bikes.map((bike, i) => ({
+    ...bike,
+    factorScores: rescaled[i],
+    finalScore: calculateFinalScore(rescaled[i], normalizedWeights, bike.notApplicable),
+    relative: {
+      method,
+      absoluteFactorScores: bike.factorScores,
+      absoluteFinalScore: bike.finalScore,
+    },
+  }));
+}
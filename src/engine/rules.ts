@@ -0,0 +1,689 @@
+/**
+ * Motologix - Rules Engine
+ *
+ * Interprets declarative scoring rulesets against a motorcycle.
+ * Rulesets are plain data, so alternates can be loaded from JSON at runtime.
+ */
+
+import type {
+  Motorcycle,
+  PillionMode,
+  FactorKey,
+  RuleField,
+  RuleComparator,
+  RuleCondition,
+  RuleGroup,
+  NormalizationMode,
+  FactorRuleset,
+  ScoringRuleset,
+  FactorTrace,
+  FiredRule,
+  RiderProfile,
+  TcoSettings,
+  ServiceRegion,
+  LoadScenarioId,
+  VehicleClass,
+} from "@/types";
+import { FACTOR_METADATA } from "@/types";
+import { BUILT_IN_RULESETS, getBuiltInRuleset } from "./rulesets";
+import { estimateServiceCost, estimateTotalCostOfOwnership } from "./tco";
+import { getRealWorldRange } from "./fuel";
+import { getServiceNetwork } from "./service-network";
+import { getDefaultLoadScenario, resolveLoad } from "./load";
+import type { BuiltInFactorKey } from "./factors";
+import { isVehicleClass } from "./vehicle-classes";
+
+// ============================================
+// RULE SUBJECT
+// ============================================
+
+/**
+ * Context that rules may depend on besides the bike itself
+ */
+export interface RuleContext {
+  pillionMode: PillionMode;
+  rider?: RiderProfile;
+  tco?: TcoSettings; // horizon and distance for the cost-of-ownership estimate
+  region?: ServiceRegion; // owner's city for the service network; a typical tier-2 city if unset
+  loadScenario?: LoadScenarioId; // what the bike carries; follows the pillion mode if unset
+}
+
+// Inseam is roughly 45% of standing height for most adults
+const INSEAM_TO_HEIGHT_RATIO = 0.45;
+
+export type RuleSubject = Partial<Record<RuleField, number | string>>;
+
+export const RULE_FIELDS: RuleField[] = [
+  "brand",
+  "vehicleClass",
+  "powertrain",
+  "engineCC",
+  "power",
+  "torque",
+  "kerbWeight",
+  "coolingType",
+  "cylinders",
+  "peakPowerRpm",
+  "peakTorqueRpm",
+  "seatHeight",
+  "wheelbase",
+  "groundClearance",
+  "fuelCapacity",
+  "batteryCapacity",
+  "chargingTime",
+  "frontBrake",
+  "rearBrake",
+  "absType",
+  "frontTyreWidth",
+  "rearTyreWidth",
+  "frontSuspension",
+  "rearSuspension",
+  "rearSuspensionTravel",
+  "handlebarType",
+  "tractionControl",
+  "ridingModes",
+  "clutch",
+  "quickshifter",
+  "cruiseControl",
+  "lighting",
+  "display",
+  "exShowroomPrice",
+  "fuelEfficiency",
+  "heatManagementRating",
+  "powerToWeight",
+  "torqueToWeight",
+  "realWorldRange",
+  "pillionMode",
+  "seatReachMargin",
+  "loadRatio",
+  "loadScenario",
+  "pillionWeight",
+  "luggageWeight",
+  "payload",
+  "payloadRatio",
+  "loadedTorqueToWeight",
+  "tcoPerKm",
+  "serviceCentres",
+  "partsTier",
+  "serviceCost",
+];
+
+const RULE_COMPARATORS: RuleComparator[] = [
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "eq",
+  "neq",
+  "between",
+  "includes",
+  "exists",
+];
+
+/**
+ * Build the flat set of values rules are evaluated against
+ */
+export function buildRuleSubject(bike: Motorcycle, context: RuleContext): RuleSubject {
+  const { rider } = context;
+  const inseam = rider ? (rider.inseam ?? rider.height * INSEAM_TO_HEIGHT_RATIO) : undefined;
+  const load = resolveLoad(
+    context.loadScenario ?? getDefaultLoadScenario(context.pillionMode),
+    rider
+  );
+  const service = getServiceNetwork(bike.brand, context.region);
+  // A defaulted torque figure would pass for a real one, so torque rules skip it
+  const torque =
+    bike.torque && !bike.autoFilledFields?.includes("torque") ? bike.torque : undefined;
+
+  return {
+    brand: bike.brand,
+    vehicleClass: bike.vehicleClass,
+    powertrain: bike.powertrain ?? "petrol",
+    // Electric bikes have neither, so engine-size and tank rules leave them alone
+    engineCC: bike.engineCC || undefined,
+    power: bike.power,
+    torque,
+    kerbWeight: bike.kerbWeight,
+    coolingType: bike.coolingType,
+    cylinders: bike.cylinders || undefined,
+    peakPowerRpm: bike.peakPowerRpm || undefined,
+    peakTorqueRpm: bike.peakTorqueRpm || undefined,
+    seatHeight: bike.seatHeight,
+    wheelbase: bike.wheelbase,
+    groundClearance: bike.groundClearance,
+    fuelCapacity: bike.fuelCapacity || undefined,
+    batteryCapacity: bike.batteryCapacity || undefined,
+    chargingTime: bike.chargingTime || undefined,
+    frontBrake: bike.frontBrake,
+    rearBrake: bike.rearBrake,
+    absType: bike.absType,
+    frontTyreWidth: bike.frontTyreWidth,
+    rearTyreWidth: bike.rearTyreWidth,
+    frontSuspension: bike.frontSuspension,
+    rearSuspension: bike.rearSuspension,
+    // Optional specs: zero means "unknown", same as a missing value
+    rearSuspensionTravel: bike.rearSuspensionTravel || undefined,
+    handlebarType: bike.handlebarType,
+    tractionControl: bike.tractionControl,
+    ridingModes: bike.ridingModes,
+    clutch: bike.clutch,
+    quickshifter: bike.quickshifter,
+    cruiseControl: bike.cruiseControl,
+    lighting: bike.lighting,
+    display: bike.display,
+    exShowroomPrice: bike.exShowroomPrice || undefined,
+    fuelEfficiency: bike.fuelEfficiency || undefined,
+    heatManagementRating: bike.heatManagementRating || undefined,
+    powerToWeight: (bike.power / bike.kerbWeight) * 100,
+    torqueToWeight: torque !== undefined ? (torque / bike.kerbWeight) * 100 : undefined,
+    realWorldRange: getRealWorldRange(bike),
+    pillionMode: context.pillionMode,
+    seatReachMargin: inseam !== undefined ? inseam * 10 - bike.seatHeight : undefined,
+    loadRatio: rider ? (rider.bodyWeight + load.pillionWeight) / bike.kerbWeight : undefined,
+    loadScenario: load.scenario,
+    pillionWeight: load.pillionWeight,
+    luggageWeight: load.luggageWeight,
+    payload: load.payload,
+    payloadRatio: load.payload / bike.kerbWeight,
+    loadedTorqueToWeight:
+      torque !== undefined ? (torque / (bike.kerbWeight + load.payload)) * 100 : undefined,
+    tcoPerKm: estimateTotalCostOfOwnership(bike, context.tco, context.region).perKm ?? undefined,
+    serviceCentres: service.serviceCentres,
+    partsTier: service.partsTier,
+    serviceCost: estimateServiceCost(bike, context.region),
+  };
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Check a single condition. Missing values only match "exists: false".
+ */
+export function matchesCondition(condition: RuleCondition, subject: RuleSubject): boolean {
+  const value = subject[condition.field];
+  const { comparator, threshold } = condition;
+
+  if (comparator === "exists") {
+    return (value !== undefined && value !== null) === threshold;
+  }
+
+  if (value === undefined || value === null) return false;
+
+  if (comparator === "includes") {
+    const needles = Array.isArray(threshold) ? threshold : [threshold];
+    const haystack = String(value).toLowerCase();
+    return needles.some((n) => haystack.includes(String(n).toLowerCase()));
+  }
+
+  if (comparator === "eq") return value === threshold;
+  if (comparator === "neq") return value !== threshold;
+
+  if (typeof value !== "number") return false;
+
+  if (comparator === "between") {
+    if (!Array.isArray(threshold) || threshold.length !== 2) return false;
+    const [min, max] = threshold as [number, number];
+    return value >= min && value <= max;
+  }
+
+  if (typeof threshold !== "number") return false;
+
+  switch (comparator) {
+    case "lt":
+      return value < threshold;
+    case "lte":
+      return value <= threshold;
+    case "gt":
+      return value > threshold;
+    case "gte":
+      return value >= threshold;
+    default:
+      return false;
+  }
+}
+
+// ============================================
+// SMOOTH CURVES
+// ============================================
+
+const NUMERIC_COMPARATORS: RuleComparator[] = ["lt", "lte", "gt", "gte", "between"];
+
+// Smoothed scores are rounded finer than the ruleset's roundTo, or the steps come back
+const SMOOTH_ROUND_TO = 0.1;
+
+// Half-width of the transition around a lone breakpoint, as a share of its value
+const LONE_BREAKPOINT_SPREAD = 0.05;
+
+// Sigmoid steepness: ~98% of the step is done one half-width from the breakpoint
+const SIGMOID_STEEPNESS = 4;
+
+/**
+ * A group can be smoothed when every rule is a plain numeric comparison on one field
+ */
+function getSmoothableField(group: RuleGroup): RuleField | null {
+  const field = group.rules[0]?.field;
+  if (!field) return null;
+  const smoothable = group.rules.every(
+    (rule) => rule.field === field && !rule.and && NUMERIC_COMPARATORS.includes(rule.comparator)
+  );
+  return smoothable ? field : null;
+}
+
+/**
+ * Total delta the group would add in step mode if the field held `value`
+ */
+function stepDelta(group: RuleGroup, subject: RuleSubject, field: RuleField, value: number): number {
+  const probe: RuleSubject = { ...subject, [field]: value };
+  let delta = 0;
+  for (const rule of group.rules) {
+    if (!matchesCondition(rule, probe)) continue;
+    delta += rule.delta;
+    if (group.match === "first") break;
+  }
+  return delta;
+}
+
+function thresholdsOf(rule: RuleCondition): number[] {
+  return Array.isArray(rule.threshold) ? (rule.threshold as number[]) : [rule.threshold as number];
+}
+
+/**
+ * Smoothed contribution of a group: each jump of the step function is
+ * replaced by a ramp (or S-curve) of the same height centred on its breakpoint.
+ * Returns null when the group can't be smoothed or the value is missing.
+ */
+function smoothGroup(
+  group: RuleGroup,
+  subject: RuleSubject,
+  mode: Exclude<NormalizationMode, "step">
+): FiredRule | null {
+  const field = getSmoothableField(group);
+  if (!field) return null;
+  const value = subject[field];
+  if (typeof value !== "number") return null;
+
+  const breakpoints = [...new Set(group.rules.flatMap(thresholdsOf))].sort((a, b) => a - b);
+
+  // Step value on each side of every breakpoint (probe points sit strictly inside each interval)
+  const probes = [
+    breakpoints[0] - 1,
+    ...breakpoints.slice(1).map((t, i) => (breakpoints[i] + t) / 2),
+    breakpoints[breakpoints.length - 1] + 1,
+  ];
+  const levels = probes.map((probe) => stepDelta(group, subject, field, probe));
+
+  let delta = levels[0];
+  breakpoints.forEach((t, i) => {
+    const gaps = [t - (breakpoints[i - 1] ?? -Infinity), (breakpoints[i + 1] ?? Infinity) - t];
+    const nearestGap = Math.min(...gaps);
+    const halfWidth = Number.isFinite(nearestGap)
+      ? nearestGap / 2
+      : Math.abs(t) * LONE_BREAKPOINT_SPREAD || 1;
+    const z = (value - t) / halfWidth;
+    const progress =
+      mode === "linear"
+        ? Math.min(1, Math.max(0, 0.5 + z / 2))
+        : 1 / (1 + Math.exp(-SIGMOID_STEEPNESS * z));
+    delta += (levels[i + 1] - levels[i]) * progress;
+  });
+
+  if (Math.abs(delta) < 1e-9) return null;
+
+  // Attribute the delta to the rule step mode would fire, else the nearest breakpoint
+  const distance = (rule: RuleCondition) => Math.min(...thresholdsOf(rule).map((t) => Math.abs(value - t)));
+  const rule =
+    group.rules.find((r) => matchesCondition(r, subject)) ??
+    [...group.rules].sort((a, b) => distance(a) - distance(b))[0];
+
+  return {
+    group: group.label,
+    field,
+    comparator: rule.comparator,
+    threshold: rule.threshold,
+    value,
+    delta: Math.round(delta * 100) / 100,
+    curve: mode,
+  };
+}
+
+/**
+ * Why a factor does not apply to the subject, or undefined if it does
+ */
+export function getNotApplicableReason(
+  rules: FactorRuleset,
+  subject: RuleSubject
+): string | undefined {
+  return rules.notApplicableWhen?.find((rule) =>
+    rule.when.every((c) => matchesCondition(c, subject))
+  )?.reason;
+}
+
+/**
+ * A factor's rules as they apply to a vehicle class: the class's groups
+ * replace the default groups with the same label, or are added after them
+ */
+export function applyClassOverride(
+  rules: FactorRuleset,
+  vehicleClass: VehicleClass | undefined
+): FactorRuleset {
+  const override = vehicleClass ? rules.classOverrides?.[vehicleClass] : undefined;
+  if (!override) return rules;
+
+  const replacements = override.groups ?? [];
+  const labels = rules.groups.map((group) => group.label);
+  return {
+    ...rules,
+    baseline: override.baseline ?? rules.baseline,
+    groups: [
+      ...rules.groups.map(
+        (group) => replacements.find((replacement) => replacement.label === group.label) ?? group
+      ),
+      ...replacements.filter((replacement) => !labels.includes(replacement.label)),
+    ],
+  };
+}
+
+/**
+ * Run a factor's ruleset against a subject, recording every rule that fired.
+ * The subject's vehicle class may override groups first.
+ * In "linear" / "sigmoid" mode, single-field numeric groups are smoothed.
+ */
+export function traceFactorRules(
+  factor: FactorKey,
+  factorRules: FactorRuleset,
+  subject: RuleSubject,
+  mode: NormalizationMode = "step"
+): FactorTrace {
+  const vehicleClass = subject.vehicleClass as VehicleClass | undefined;
+  const rules = applyClassOverride(factorRules, vehicleClass);
+  const [min, max] = rules.clamp;
+  const roundTo = mode === "step" ? rules.roundTo : Math.min(rules.roundTo, SMOOTH_ROUND_TO);
+  const round = (value: number) => Number((Math.round(value / roundTo) * roundTo).toFixed(6));
+  const notApplicable = getNotApplicableReason(rules, subject);
+  const finish = (
+    rawScore: number,
+    fired: FiredRule[],
+    override?: FactorTrace["override"]
+  ): FactorTrace => {
+    const roundedScore = round(rawScore);
+    return {
+      factor,
+      baseline: rules.baseline,
+      fired,
+      override,
+      notApplicable,
+      vehicleClass: rules !== factorRules ? vehicleClass : undefined,
+      rawScore,
+      roundedScore,
+      clamp: rules.clamp,
+      score: Math.min(max, Math.max(min, roundedScore)),
+    };
+  };
+
+  if (rules.override) {
+    const { field } = rules.override;
+    const value = subject[field];
+    if (typeof value === "number" && value >= rules.override.min && value <= rules.override.max) {
+      return finish(value, [], { field, value });
+    }
+  }
+
+  let score = rules.baseline;
+  const fired: FiredRule[] = [];
+
+  for (const group of rules.groups) {
+    if (group.when && !group.when.every((c) => matchesCondition(c, subject))) continue;
+
+    if (mode !== "step" && getSmoothableField(group)) {
+      const smoothed = smoothGroup(group, subject, mode);
+      if (smoothed) {
+        score += smoothed.delta;
+        fired.push(smoothed);
+      }
+      continue;
+    }
+
+    for (const rule of group.rules) {
+      const matched =
+        matchesCondition(rule, subject) &&
+        (!rule.and || rule.and.every((c) => matchesCondition(c, subject)));
+      if (!matched) continue;
+
+      score += rule.delta;
+      fired.push({
+        group: group.label,
+        field: rule.field,
+        comparator: rule.comparator,
+        threshold: rule.threshold,
+        value: subject[rule.field] ?? "missing",
+        delta: rule.delta,
+      });
+      if (group.match === "first") break;
+    }
+  }
+
+  return finish(score, fired);
+}
+
+/**
+ * Score one factor by running its ruleset against a subject
+ */
+export function evaluateFactorRules(
+  factor: FactorKey,
+  rules: FactorRuleset,
+  subject: RuleSubject,
+  mode: NormalizationMode = "step"
+): number {
+  return traceFactorRules(factor, rules, subject, mode).score;
+}
+
+// ============================================
+// LOADING ALTERNATE RULESETS
+// ============================================
+
+// Comparators that order numbers; their threshold must be a number
+const ORDERED_COMPARATORS: RuleComparator[] = ["lt", "lte", "gt", "gte"];
+
+function validateCondition(condition: unknown, path: string, problems: string[]): void {
+  const c = condition as Partial<RuleCondition> | null;
+  if (!c || typeof c !== "object") {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+  if (!RULE_FIELDS.includes(c.field as RuleField)) {
+    problems.push(`${path}.field "${String(c.field)}" is not a known field`);
+  }
+  if (!RULE_COMPARATORS.includes(c.comparator as RuleComparator)) {
+    problems.push(`${path}.comparator "${String(c.comparator)}" is not supported`);
+  }
+  const t = c.threshold;
+  if (c.comparator === "between") {
+    if (!Array.isArray(t) || t.length !== 2 || t.some((v) => typeof v !== "number")) {
+      problems.push(`${path}.threshold must be [min, max] for "between"`);
+    }
+  } else if (t === undefined || t === null) {
+    problems.push(`${path}.threshold is required`);
+  } else if (ORDERED_COMPARATORS.includes(c.comparator as RuleComparator)) {
+    if (typeof t !== "number") problems.push(`${path}.threshold must be a number for "${c.comparator}"`);
+  } else if (c.comparator === "exists") {
+    if (typeof t !== "boolean") problems.push(`${path}.threshold must be true or false for "exists"`);
+  } else if (c.comparator === "includes") {
+    if (typeof t !== "string" && !(Array.isArray(t) && t.every((v) => typeof v === "string"))) {
+      problems.push(`${path}.threshold must be a string or a list of strings for "includes"`);
+    }
+  }
+}
+
+function validateConditions(conditions: unknown, path: string, problems: string[]): void {
+  if (conditions === undefined) return;
+  if (!Array.isArray(conditions)) {
+    problems.push(`${path} must be an array`);
+    return;
+  }
+  conditions.forEach((c, i) => validateCondition(c, `${path}[${i}]`, problems));
+}
+
+function validateGroup(
+  group: unknown,
+  path: string,
+  problems: string[],
+  labelRequired = false
+): void {
+  const g = group as Partial<RuleGroup> | null;
+  if (!g || typeof g !== "object") {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+  if (labelRequired && (typeof g.label !== "string" || !g.label)) {
+    problems.push(`${path}.label is required`);
+  }
+  if (g.match !== "first" && g.match !== "all") {
+    problems.push(`${path}.match must be "first" or "all"`);
+  }
+  validateConditions(g.when, `${path}.when`, problems);
+  if (!Array.isArray(g.rules)) {
+    problems.push(`${path}.rules must be an array`);
+    return;
+  }
+  g.rules.forEach((rule, r) => {
+    const rulePath = `${path}.rules[${r}]`;
+    validateCondition(rule, rulePath, problems);
+    if (!rule || typeof rule !== "object") return;
+    if (typeof rule.delta !== "number") problems.push(`${rulePath}.delta must be a number`);
+    validateConditions(rule.and, `${rulePath}.and`, problems);
+  });
+}
+
+function validateFactorRuleset(factor: unknown, path: string, problems: string[]): void {
+  const f = factor as Partial<FactorRuleset> | null;
+  if (!f || typeof f !== "object") {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof f.baseline !== "number") problems.push(`${path}.baseline must be a number`);
+  if (
+    !Array.isArray(f.clamp) ||
+    f.clamp.length !== 2 ||
+    typeof f.clamp[0] !== "number" ||
+    typeof f.clamp[1] !== "number" ||
+    f.clamp[0] > f.clamp[1]
+  ) {
+    problems.push(`${path}.clamp must be [min, max]`);
+  }
+  if (typeof f.roundTo !== "number" || f.roundTo <= 0) {
+    problems.push(`${path}.roundTo must be a positive number`);
+  }
+  if (!Array.isArray(f.groups)) {
+    problems.push(`${path}.groups must be an array`);
+    return;
+  }
+
+  f.groups.forEach((group, g) => validateGroup(group, `${path}.groups[${g}]`, problems));
+
+  if (f.notApplicableWhen !== undefined && !Array.isArray(f.notApplicableWhen)) {
+    problems.push(`${path}.notApplicableWhen must be an array`);
+  }
+  (Array.isArray(f.notApplicableWhen) ? f.notApplicableWhen : []).forEach((rule, r) => {
+    const rulePath = `${path}.notApplicableWhen[${r}]`;
+    if (!rule || typeof rule !== "object") {
+      problems.push(`${rulePath} must be an object`);
+      return;
+    }
+    if (typeof rule.reason !== "string" || !rule.reason) {
+      problems.push(`${rulePath}.reason is required`);
+    }
+    if (!Array.isArray(rule.when) || rule.when.length === 0) {
+      problems.push(`${rulePath}.when must be a non-empty array`);
+      return;
+    }
+    rule.when.forEach((c, i) => validateCondition(c, `${rulePath}.when[${i}]`, problems));
+  });
+
+  for (const [vehicleClass, override] of Object.entries(f.classOverrides ?? {})) {
+    const overridePath = `${path}.classOverrides.${vehicleClass}`;
+    if (!isVehicleClass(vehicleClass)) {
+      problems.push(`${overridePath} is not a known vehicle class`);
+      continue;
+    }
+    if (!override || typeof override !== "object") {
+      problems.push(`${overridePath} must be an object`);
+      continue;
+    }
+    if (override.baseline !== undefined && typeof override.baseline !== "number") {
+      problems.push(`${overridePath}.baseline must be a number`);
+    }
+    if (override.groups !== undefined && !Array.isArray(override.groups)) {
+      problems.push(`${overridePath}.groups must be an array`);
+      continue;
+    }
+    // Overrides find the group they replace by its label
+    (override.groups ?? []).forEach((group, g) =>
+      validateGroup(group, `${overridePath}.groups[${g}]`, problems, true)
+    );
+  }
+}
+
+/**
+ * Parse an alternate ruleset from JSON.
+ * A ruleset must define every factor, unless it names the built-in version
+ * it was written against in `basedOn`: factors it leaves out are then taken
+ * from that version and listed in `inheritedFactors`.
+ * Throws an Error listing every problem found.
+ */
+export function parseRuleset(input: string | unknown): ScoringRuleset {
+  const data = typeof input === "string" ? JSON.parse(input) : input;
+  const problems: string[] = [];
+
+  if (!data || typeof data !== "object") {
+    throw new Error("Ruleset must be a JSON object");
+  }
+
+  const raw = data as Partial<ScoringRuleset>;
+  if (!raw.id || typeof raw.id !== "string") problems.push("id is required");
+  if (!raw.version || typeof raw.version !== "string") problems.push("version is required");
+  if (!raw.factors || typeof raw.factors !== "object") {
+    problems.push("factors must be an object");
+  }
+
+  let base: ScoringRuleset | undefined;
+  if (raw.basedOn !== undefined) {
+    base = typeof raw.basedOn === "string" ? getBuiltInRuleset(raw.basedOn) : undefined;
+    if (!base) {
+      const versions = BUILT_IN_RULESETS.map((ruleset) => ruleset.version).join(", ");
+      problems.push(`basedOn must be a built-in ruleset version (${versions})`);
+    }
+  }
+
+  const factorKeys = FACTOR_METADATA.map((f) => f.key);
+  for (const [key, factor] of Object.entries(raw.factors ?? {})) {
+    if (!factorKeys.includes(key as FactorKey)) {
+      problems.push(`factors.${key} is not a known factor`);
+      continue;
+    }
+    validateFactorRuleset(factor, `factors.${key}`, problems);
+  }
+
+  // Without a base version there is nothing to fill a missing factor from
+  const missing = factorKeys.filter((key) => !(key in (raw.factors ?? {}))) as BuiltInFactorKey[];
+  if (raw.basedOn === undefined && raw.factors && typeof raw.factors === "object" && missing.length > 0) {
+    problems.push(
+      `factors is missing ${missing.join(", ")} (set basedOn to a built-in version to inherit them)`
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ruleset: ${problems.join("; ")}`);
+  }
+
+  const inheritedFactors = missing.filter((key) => base?.factors[key] !== undefined);
+  return {
+    id: raw.id!,
+    version: raw.version!,
+    description: raw.description,
+    factors: { ...base?.factors, ...raw.factors },
+    ...(base && { basedOn: base.version }),
+    ...(inheritedFactors.length > 0 && { inheritedFactors }),
+  };
+}
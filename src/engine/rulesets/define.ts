@@ -0,0 +1,24 @@
+/**
+ * Motologix - Ruleset Definition Helpers
+ */
+
+import type { ScoringRuleset } from "@/types";
+
+export interface RulesetRevision {
+  version: string;
+  description?: string; // kept from the base when unset
+  factors: ScoringRuleset["factors"]; // factors whose rules changed, each replaced whole
+}
+
+/**
+ * Declare the next ruleset version as a revision of the previous one,
+ * so each version only lists the factors it changed
+ */
+export function reviseRuleset(base: ScoringRuleset, revision: RulesetRevision): ScoringRuleset {
+  return {
+    ...base,
+    version: revision.version,
+    description: revision.description ?? base.description,
+    factors: { ...base.factors, ...revision.factors },
+  };
+}
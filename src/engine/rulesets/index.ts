@@ -0,0 +1,86 @@
+/**
+ * Motologix - Built-in Scoring Rulesets
+ *
+ * Declarative thresholds interpreted by the rules engine.
+ * Rules within a "first" group behave like an if/else ladder, in order.
+ *
+ * Every released version stays available so earlier scoring can be
+ * reproduced: v1 is frozen in v1.ts and each later version in its own
+ * module revises the one before it. The newest version takes its rules
+ * from the factor modules under factors/.
+ */
+
+import type { ScoringRuleset } from "@/types";
+import { FACTOR_REGISTRY } from "../factors";
+import { reviseRuleset } from "./define";
+import { RULESET_V1 } from "./v1";
+import { RULESET_V2 } from "./v2";
+import { RULESET_V3 } from "./v3";
+import { RULESET_V4 } from "./v4";
+import { RULESET_V5 } from "./v5";
+import { RULESET_V6 } from "./v6";
+import { RULESET_V7 } from "./v7";
+import { RULESET_V8 } from "./v8";
+import { RULESET_V9 } from "./v9";
+import { RULESET_V10 } from "./v10";
+import { RULESET_V11 } from "./v11";
+import { RULESET_V12 } from "./v12";
+
+export {
+  RULESET_V1,
+  RULESET_V2,
+  RULESET_V3,
+  RULESET_V4,
+  RULESET_V5,
+  RULESET_V6,
+  RULESET_V7,
+  RULESET_V8,
+  RULESET_V9,
+  RULESET_V10,
+  RULESET_V11,
+  RULESET_V12,
+};
+
+/**
+ * v13 - long-term suitability no longer gives a bonus by brand name
+ *
+ * When a rule in a factor module changes, freeze this version in v13.ts
+ * (revising v12 with the factors it changed) and add the next one here.
+ */
+export const RULESET_V13 = reviseRuleset(RULESET_V12, {
+  version: "v13",
+  factors: Object.fromEntries(
+    FACTOR_REGISTRY.map((factor) => [factor.key, factor.rules])
+  ) as ScoringRuleset["factors"],
+});
+
+/**
+ * Every built-in version, oldest first
+ */
+export const BUILT_IN_RULESETS: ScoringRuleset[] = [
+  RULESET_V1,
+  RULESET_V2,
+  RULESET_V3,
+  RULESET_V4,
+  RULESET_V5,
+  RULESET_V6,
+  RULESET_V7,
+  RULESET_V8,
+  RULESET_V9,
+  RULESET_V10,
+  RULESET_V11,
+  RULESET_V12,
+  RULESET_V13,
+];
+
+/**
+ * The ruleset used when none is selected: the newest version
+ */
+export const DEFAULT_RULESET: ScoringRuleset = RULESET_V13;
+
+/**
+ * A built-in ruleset by its version, e.g. "v1"
+ */
+export function getBuiltInRuleset(version: string): ScoringRuleset | undefined {
+  return BUILT_IN_RULESETS.find((ruleset) => ruleset.version === version);
+}
@@ -0,0 +1,438 @@
+import type { ScoringRuleset } from "@/types";
+
+/**
+ * v1 - the original hand-tuned thresholds for 150-450cc Indian street bikes.
+ * Frozen: every later version is a revision of this one.
+ */
+export const RULESET_V1: ScoringRuleset = {
+  id: "default",
+  version: "v1",
+  description: "Original thresholds tuned for 150-450cc Indian street bikes",
+  factors: {
+    dailyTrafficEase: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Weight (lighter = better in traffic)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: 2 },
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 1.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 175, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -1.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 185, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower = easier flat-footing at stops)",
+          match: "first",
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 770, delta: 1 },
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -1 },
+            { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power-to-weight (sweet spot for traffic: 6-10 bhp per 100kg)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "between", threshold: [6, 10], delta: 1 },
+            { field: "powerToWeight", comparator: "gt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Engine size (smaller = easier low-speed maneuvers)",
+          match: "first",
+          rules: [
+            { field: "engineCC", comparator: "lt", threshold: 250, delta: 0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 500, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    brakingSafetyConfidence: {
+      baseline: 3, // drum brakes, no ABS
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Brake hardware",
+          match: "all",
+          rules: [
+            { field: "frontBrake", comparator: "eq", threshold: "disc", delta: 2 },
+            { field: "rearBrake", comparator: "eq", threshold: "disc", delta: 1 },
+          ],
+        },
+        {
+          label: "ABS system",
+          match: "first",
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 3 },
+            { field: "absType", comparator: "eq", threshold: "single-channel", delta: 1.5 },
+          ],
+        },
+        {
+          label: "Rear tyre width (wider = more grip)",
+          match: "first",
+          rules: [
+            { field: "rearTyreWidth", comparator: "gte", threshold: 150, delta: 0.5 },
+            { field: "rearTyreWidth", comparator: "gte", threshold: 140, delta: 0.25 },
+          ],
+        },
+        {
+          label: "Front tyre width",
+          match: "first",
+          rules: [
+            { field: "frontTyreWidth", comparator: "gte", threshold: 120, delta: 0.5 },
+            { field: "frontTyreWidth", comparator: "gte", threshold: 110, delta: 0.25 },
+          ],
+        },
+      ],
+    },
+
+    primaryPillionComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Rear suspension type",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1 },
+          ],
+        },
+        {
+          label: "Rear suspension travel",
+          match: "first",
+          rules: [
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 130, delta: 1 },
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 110, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Weight (heavier = more stable for pillion)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 180, delta: 1 },
+            { field: "kerbWeight", comparator: "gte", threshold: 165, delta: 0.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Wheelbase (longer = more stable)",
+          match: "first",
+          rules: [
+            { field: "wheelbase", comparator: "gte", threshold: 1420, delta: 1 },
+            { field: "wheelbase", comparator: "gte", threshold: 1380, delta: 0.5 },
+            { field: "wheelbase", comparator: "lt", threshold: 1320, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower is more confidence-inspiring)",
+          match: "first",
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Secondary pillion (parents) - stability prioritized",
+          match: "all",
+          when: [{ field: "pillionMode", comparator: "eq", threshold: "secondary" }],
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 175, delta: 0.5 },
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+          ],
+        },
+      ],
+    },
+
+    highwayStability: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Wheelbase (longer = more stable at speed)",
+          match: "first",
+          rules: [
+            { field: "wheelbase", comparator: "gte", threshold: 1430, delta: 1.5 },
+            { field: "wheelbase", comparator: "gte", threshold: 1400, delta: 1 },
+            { field: "wheelbase", comparator: "gte", threshold: 1370, delta: 0.5 },
+            { field: "wheelbase", comparator: "lt", threshold: 1320, delta: -1 },
+          ],
+        },
+        {
+          label: "Weight (heavier = more planted at speed)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 180, delta: 1 },
+            { field: "kerbWeight", comparator: "gte", threshold: 165, delta: 0.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 145, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power (enough for confident overtakes)",
+          match: "first",
+          rules: [
+            { field: "power", comparator: "gte", threshold: 35, delta: 1 },
+            { field: "power", comparator: "gte", threshold: 25, delta: 0.5 },
+            { field: "power", comparator: "lt", threshold: 18, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rear tyre width",
+          match: "first",
+          rules: [
+            { field: "rearTyreWidth", comparator: "gte", threshold: 150, delta: 0.5 },
+            { field: "rearTyreWidth", comparator: "gte", threshold: 140, delta: 0.25 },
+          ],
+        },
+      ],
+    },
+
+    riderComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Handlebar type (upright = more comfortable)",
+          match: "first",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "raised", delta: 1 },
+            { field: "handlebarType", comparator: "eq", threshold: "standard", delta: 0.5 },
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -1 },
+          ],
+        },
+        {
+          label: "Seat height comfort zone",
+          match: "first",
+          rules: [
+            { field: "seatHeight", comparator: "between", threshold: [780, 820], delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 840, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Fuel capacity (longer range = fewer stops)",
+          match: "first",
+          rules: [
+            { field: "fuelCapacity", comparator: "gte", threshold: 15, delta: 1 },
+            { field: "fuelCapacity", comparator: "gte", threshold: 12, delta: 0.5 },
+            { field: "fuelCapacity", comparator: "lt", threshold: 10, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Suspension quality indicator",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Ground clearance for Indian roads",
+          match: "first",
+          rules: [
+            { field: "groundClearance", comparator: "gte", threshold: 180, delta: 0.5 },
+            { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+            { field: "groundClearance", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    suspensionCompliance: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Rear suspension type",
+          match: "first",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1.5 },
+            { field: "rearSuspension", comparator: "eq", threshold: "twin", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Suspension travel",
+          match: "first",
+          rules: [
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 140, delta: 1 },
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 120, delta: 0.5 },
+            { field: "rearSuspensionTravel", comparator: "lt", threshold: 100, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Front suspension (USD forks are generally better)",
+          match: "first",
+          rules: [
+            { field: "frontSuspension", comparator: "includes", threshold: "usd", delta: 1 },
+            { field: "frontSuspension", comparator: "includes", threshold: "telescopic", delta: 0.25 },
+          ],
+        },
+        {
+          label: "Ground clearance (critical for Indian roads)",
+          match: "first",
+          rules: [
+            { field: "groundClearance", comparator: "gte", threshold: 200, delta: 1 },
+            { field: "groundClearance", comparator: "gte", threshold: 175, delta: 0.5 },
+            { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+            { field: "groundClearance", comparator: "lt", threshold: 140, delta: -1 },
+          ],
+        },
+      ],
+    },
+
+    funEngagement: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Power-to-weight ratio (higher = more fun)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "gte", threshold: 12, delta: 2 },
+            { field: "powerToWeight", comparator: "gte", threshold: 10, delta: 1.5 },
+            { field: "powerToWeight", comparator: "gte", threshold: 8, delta: 1 },
+            { field: "powerToWeight", comparator: "gte", threshold: 6, delta: 0.5 },
+            { field: "powerToWeight", comparator: "lt", threshold: 5, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Engine size (larger tends to be more engaging)",
+          match: "first",
+          rules: [
+            { field: "engineCC", comparator: "gte", threshold: 400, delta: 1 },
+            { field: "engineCC", comparator: "gte", threshold: 300, delta: 0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Weight (lighter = more flickable)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Handlebar (sportier = more engaging)",
+          match: "all",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: 0.5 },
+          ],
+        },
+      ],
+    },
+
+    heatManagement: {
+      baseline: 6, // assume decent heat management
+      clamp: [1, 10],
+      roundTo: 0.5,
+      override: { field: "heatManagementRating", min: 1, max: 10 }, // AI-derived rating
+      groups: [
+        {
+          label: "Engine size (larger engines tend to run hotter)",
+          match: "first",
+          rules: [
+            { field: "engineCC", comparator: "gte", threshold: 400, delta: -1 },
+            { field: "engineCC", comparator: "gte", threshold: 300, delta: -0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 200, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Power output",
+          match: "first",
+          rules: [
+            { field: "power", comparator: "gte", threshold: 40, delta: -0.5 },
+            { field: "power", comparator: "lt", threshold: 20, delta: 0.5 },
+          ],
+        },
+      ],
+    },
+
+    ownershipPracticality: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Brand service network (Indian market perception)",
+          match: "first",
+          rules: [
+            { field: "brand", comparator: "includes", threshold: ["hero", "honda", "tvs", "bajaj"], delta: 1.5 },
+            { field: "brand", comparator: "includes", threshold: ["royal enfield", "suzuki"], delta: 1 },
+            { field: "brand", comparator: "includes", threshold: ["yamaha", "ktm"], delta: 0.5 },
+            { field: "brand", comparator: "includes", threshold: ["kawasaki", "benelli", "triumph"], delta: -0.5 },
+          ],
+        },
+        {
+          label: "Price segment (parts cost)",
+          match: "first",
+          rules: [
+            { field: "exShowroomPrice", comparator: "lt", threshold: 150000, delta: 0.5 },
+            { field: "exShowroomPrice", comparator: "gt", threshold: 300000, delta: -0.5 },
+            // Shadowed by the rule above; kept so v1 matches the original ladder
+            { field: "exShowroomPrice", comparator: "gt", threshold: 500000, delta: -1 },
+          ],
+        },
+      ],
+    },
+
+    longTermSuitability: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Engine size (sweet spot for long-term: 250-500cc)",
+          match: "first",
+          rules: [
+            { field: "engineCC", comparator: "between", threshold: [250, 500], delta: 1 },
+            { field: "engineCC", comparator: "between", threshold: [200, 600], delta: 0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 150, delta: -0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 700, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power level (moderate is sustainable)",
+          match: "all",
+          rules: [
+            { field: "power", comparator: "between", threshold: [20, 45], delta: 0.5 },
+          ],
+        },
+        {
+          label: "Brand durability reputation",
+          match: "first",
+          rules: [
+            { field: "brand", comparator: "includes", threshold: ["honda", "royal enfield"], delta: 1 },
+            { field: "brand", comparator: "includes", threshold: ["hero", "tvs"], delta: 0.5 },
+          ],
+        },
+        {
+          label: "Future-proofing and practicality",
+          match: "all",
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+            { field: "fuelCapacity", comparator: "gte", threshold: 14, delta: 0.5 },
+            {
+              field: "groundClearance",
+              comparator: "gte",
+              threshold: 170,
+              delta: 0.5,
+              and: [{ field: "kerbWeight", comparator: "lte", threshold: 185 }],
+            },
+          ],
+        },
+      ],
+    },
+  },
+};
@@ -0,0 +1,156 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V9 } from "./v9";
+
+/**
+ * v10 - braking credits cornering/switchable ABS, traction control and slipper clutch; optional rider aids factor
+ */
+export const RULESET_V10 = reviseRuleset(RULESET_V9, {
+  version: "v10",
+  factors: {
+    brakingSafetyConfidence: {
+      baseline: 3, // drum brakes, no ABS
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Brake hardware",
+          match: "all",
+          rules: [
+            { field: "frontBrake", comparator: "eq", threshold: "disc", delta: 2 },
+            { field: "rearBrake", comparator: "eq", threshold: "disc", delta: 1 },
+          ],
+        },
+        {
+          label: "ABS system",
+          match: "first",
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "cornering-abs", delta: 3.5 },
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 3 },
+            { field: "absType", comparator: "eq", threshold: "switchable-abs", delta: 3 }, // dual-channel, rear can be turned off
+            { field: "absType", comparator: "eq", threshold: "single-channel", delta: 1.5 },
+          ],
+        },
+        {
+          label: "Traction control (no rear-wheel spin on wet or broken roads)",
+          match: "first",
+          rules: [
+            { field: "tractionControl", comparator: "eq", threshold: "lean-sensitive", delta: 1 },
+            { field: "tractionControl", comparator: "eq", threshold: "switchable", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Slipper clutch (no rear-wheel hop on hard downshifts)",
+          match: "all",
+          rules: [
+            { field: "clutch", comparator: "eq", threshold: "slipper-assist", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Rear tyre width (wider = more grip)",
+          match: "first",
+          rules: [
+            { field: "rearTyreWidth", comparator: "gte", threshold: 150, delta: 0.5 },
+            { field: "rearTyreWidth", comparator: "gte", threshold: 140, delta: 0.25 },
+          ],
+        },
+        {
+          label: "Front tyre width",
+          match: "first",
+          rules: [
+            { field: "frontTyreWidth", comparator: "gte", threshold: 120, delta: 0.5 },
+            { field: "frontTyreWidth", comparator: "gte", threshold: 110, delta: 0.25 },
+          ],
+        },
+        {
+          label: "Payload vs kerb weight (longer stopping distances)",
+          match: "first",
+          rules: [
+            { field: "payloadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Brakes that struggle with a heavy payload",
+          match: "first",
+          when: [{ field: "payloadRatio", comparator: "gte", threshold: 0.75 }],
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "none", delta: -1 },
+            { field: "rearBrake", comparator: "eq", threshold: "drum", delta: -0.5 },
+            { field: "absType", comparator: "eq", threshold: "single-channel", delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    riderAidsFeatures: {
+      baseline: 3, // no electronics beyond ABS
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Traction control",
+          match: "first",
+          rules: [
+            { field: "tractionControl", comparator: "eq", threshold: "lean-sensitive", delta: 2 },
+            { field: "tractionControl", comparator: "eq", threshold: "switchable", delta: 1.5 },
+          ],
+        },
+        {
+          label: "Riding modes",
+          match: "first",
+          rules: [
+            { field: "ridingModes", comparator: "gte", threshold: 3, delta: 1 },
+            { field: "ridingModes", comparator: "gte", threshold: 2, delta: 0.5 },
+          ],
+        },
+        {
+          label: "ABS modes (rear ABS off for gravel, lean-sensitive ABS)",
+          match: "first",
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "cornering-abs", delta: 1 },
+            { field: "absType", comparator: "eq", threshold: "switchable-abs", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Slipper/assist clutch (light lever in traffic)",
+          match: "all",
+          rules: [
+            { field: "clutch", comparator: "eq", threshold: "slipper-assist", delta: 1 },
+          ],
+        },
+        {
+          label: "Quickshifter",
+          match: "first",
+          rules: [
+            { field: "quickshifter", comparator: "eq", threshold: "bidirectional", delta: 1 },
+            { field: "quickshifter", comparator: "eq", threshold: "up", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Cruise control (long highway stints)",
+          match: "first",
+          rules: [
+            { field: "cruiseControl", comparator: "eq", threshold: "adaptive", delta: 1.5 },
+            { field: "cruiseControl", comparator: "eq", threshold: "standard", delta: 1 },
+          ],
+        },
+        {
+          label: "Lighting (seeing and being seen at night)",
+          match: "first",
+          rules: [
+            { field: "lighting", comparator: "eq", threshold: "full-led", delta: 1 },
+            { field: "lighting", comparator: "eq", threshold: "led-headlamp", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Instrument display",
+          match: "first",
+          rules: [
+            { field: "display", comparator: "eq", threshold: "tft-navigation", delta: 1.5 },
+            { field: "display", comparator: "eq", threshold: "tft", delta: 1 },
+            { field: "display", comparator: "eq", threshold: "lcd", delta: 0.5 },
+          ],
+        },
+      ],
+    },
+  },
+});
@@ -0,0 +1,418 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V10 } from "./v10";
+
+/**
+ * v11 - electric bikes: engine-size and tank rules skip them; electric heat, range, charging and drivetrain rules
+ */
+export const RULESET_V11 = reviseRuleset(RULESET_V10, {
+  version: "v11",
+  factors: {
+    dailyTrafficEase: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Weight (lighter = better in traffic)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: 2 },
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 1.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 175, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -1.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 185, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower = easier flat-footing at stops)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 770, delta: 1 },
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -1 },
+            { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat reach for this rider (inseam minus seat height)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 20, delta: 1 },
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -60, delta: -1.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -1 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -20, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power-to-weight (sweet spot for traffic: 6-10 bhp per 100kg)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "between", threshold: [6, 10], delta: 1 },
+            { field: "powerToWeight", comparator: "gt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Torque-to-weight (shove without revving or slipping the clutch)",
+          match: "first",
+          rules: [
+            { field: "torqueToWeight", comparator: "gte", threshold: 18, delta: 0.5 },
+            { field: "torqueToWeight", comparator: "lt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Torque peak (low-rpm pull = fewer gear changes at crawling speed)",
+          match: "first",
+          rules: [
+            { field: "peakTorqueRpm", comparator: "lte", threshold: 5000, delta: 1 },
+            { field: "peakTorqueRpm", comparator: "lte", threshold: 6500, delta: 0.5 },
+            { field: "peakTorqueRpm", comparator: "gt", threshold: 8500, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Engine size (smaller = easier low-speed maneuvers)",
+          match: "first",
+          when: [{ field: "peakTorqueRpm", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "lt", threshold: 250, delta: 0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 500, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Electric drive (no clutch or gears, full torque from standstill)",
+          match: "all",
+          rules: [
+            { field: "powertrain", comparator: "eq", threshold: "electric", delta: 1 },
+          ],
+        },
+      ],
+    },
+
+    riderComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Handlebar type (upright = more comfortable)",
+          match: "first",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "raised", delta: 1 },
+            { field: "handlebarType", comparator: "eq", threshold: "standard", delta: 0.5 },
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -1 },
+          ],
+        },
+        {
+          label: "Seat height comfort zone",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "between", threshold: [780, 820], delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 840, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height vs rider's legs (not a stretch, not cramped)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "between", threshold: [-20, 80], delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+            { field: "seatReachMargin", comparator: "gt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Real-world range (km per tank; longer = fewer stops)",
+          match: "first",
+          when: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+          rules: [
+            { field: "realWorldRange", comparator: "gte", threshold: 450, delta: 1 },
+            { field: "realWorldRange", comparator: "gte", threshold: 350, delta: 0.5 },
+            { field: "realWorldRange", comparator: "lt", threshold: 250, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Real-world range (km per charge; a charging stop takes far longer than a fuel stop)",
+          match: "first",
+          when: [{ field: "powertrain", comparator: "eq", threshold: "electric" }],
+          rules: [
+            { field: "realWorldRange", comparator: "gte", threshold: 300, delta: 0.5 },
+            { field: "realWorldRange", comparator: "lt", threshold: 100, delta: -1.5 },
+            { field: "realWorldRange", comparator: "lt", threshold: 150, delta: -1 },
+            { field: "realWorldRange", comparator: "lt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Suspension quality indicator",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Ground clearance for Indian roads",
+          match: "first",
+          rules: [
+            { field: "groundClearance", comparator: "gte", threshold: 180, delta: 0.5 },
+            { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+            { field: "groundClearance", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    funEngagement: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Power-to-weight ratio (higher = more fun)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "gte", threshold: 12, delta: 2 },
+            { field: "powerToWeight", comparator: "gte", threshold: 10, delta: 1.5 },
+            { field: "powerToWeight", comparator: "gte", threshold: 8, delta: 1 },
+            { field: "powerToWeight", comparator: "gte", threshold: 6, delta: 0.5 },
+            { field: "powerToWeight", comparator: "lt", threshold: 5, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power peak (an engine that loves to rev)",
+          match: "first",
+          rules: [
+            { field: "peakPowerRpm", comparator: "gte", threshold: 9000, delta: 1 },
+            { field: "peakPowerRpm", comparator: "gte", threshold: 7500, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Cylinders (smoother, more eager multi-cylinder engines)",
+          match: "first",
+          rules: [{ field: "cylinders", comparator: "gte", threshold: 2, delta: 0.5 }],
+        },
+        {
+          label: "Electric motor (instant torque)",
+          match: "all",
+          rules: [
+            { field: "powertrain", comparator: "eq", threshold: "electric", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Engine size (larger tends to be more engaging)",
+          match: "first",
+          when: [{ field: "peakPowerRpm", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "gte", threshold: 400, delta: 1 },
+            { field: "engineCC", comparator: "gte", threshold: 300, delta: 0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Weight (lighter = more flickable)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Handlebar (sportier = more engaging)",
+          match: "all",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: 0.5 },
+          ],
+        },
+      ],
+    },
+
+    heatManagement: {
+      baseline: 6, // assume decent heat management
+      clamp: [1, 10],
+      roundTo: 0.5,
+      override: { field: "heatManagementRating", min: 1, max: 10 }, // AI-derived rating
+      groups: [
+        {
+          label: "Cooling system (air-cooled engines bake in stop-go traffic)",
+          match: "first",
+          when: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+          rules: [
+            {
+              field: "coolingType",
+              comparator: "eq",
+              threshold: "air",
+              delta: -1.5,
+              and: [{ field: "engineCC", comparator: "gte", threshold: 300 }],
+            },
+            { field: "coolingType", comparator: "eq", threshold: "air", delta: -0.5 },
+            {
+              field: "coolingType",
+              comparator: "eq",
+              threshold: "air-oil",
+              delta: -0.5,
+              and: [{ field: "engineCC", comparator: "gte", threshold: 400 }],
+            },
+            { field: "coolingType", comparator: "eq", threshold: "liquid", delta: 1 },
+          ],
+        },
+        {
+          label: "Engine size (larger engines tend to run hotter)",
+          match: "first",
+          when: [{ field: "coolingType", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "gte", threshold: 400, delta: -1 },
+            { field: "engineCC", comparator: "gte", threshold: 300, delta: -0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 200, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Power output",
+          match: "first",
+          when: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+          rules: [
+            { field: "power", comparator: "gte", threshold: 40, delta: -0.5 },
+            { field: "power", comparator: "lt", threshold: 20, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Electric motor (no engine heat on the rider's legs)",
+          match: "all",
+          rules: [
+            { field: "powertrain", comparator: "eq", threshold: "electric", delta: 2.5 },
+          ],
+        },
+      ],
+    },
+
+    ownershipPracticality: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Authorised service centres in your city",
+          match: "first",
+          rules: [
+            { field: "serviceCentres", comparator: "gte", threshold: 20, delta: 1 },
+            { field: "serviceCentres", comparator: "gte", threshold: 8, delta: 0.5 },
+            // None locally: every service is a trip to another town
+            { field: "serviceCentres", comparator: "lt", threshold: 1, delta: -1 },
+            { field: "serviceCentres", comparator: "lt", threshold: 3, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Parts availability in your city",
+          match: "first",
+          rules: [
+            { field: "partsTier", comparator: "eq", threshold: 1, delta: 0.5 },
+            { field: "partsTier", comparator: "eq", threshold: 3, delta: -1 },
+          ],
+        },
+        {
+          label: "Scheduled service cost (local rates)",
+          match: "first",
+          rules: [
+            { field: "serviceCost", comparator: "lte", threshold: 1800, delta: 0.5 },
+            { field: "serviceCost", comparator: "gte", threshold: 5000, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Price segment (parts cost)",
+          match: "first",
+          rules: [
+            { field: "exShowroomPrice", comparator: "lt", threshold: 150000, delta: 0.5 },
+            { field: "exShowroomPrice", comparator: "gt", threshold: 300000, delta: -0.5 },
+            // Shadowed by the rule above; kept so v1 matches the original ladder
+            { field: "exShowroomPrice", comparator: "gt", threshold: 500000, delta: -1 },
+          ],
+        },
+        {
+          label: "Charging at home (0-80% on the standard charger)",
+          match: "first",
+          when: [{ field: "powertrain", comparator: "eq", threshold: "electric" }],
+          rules: [
+            { field: "chargingTime", comparator: "lte", threshold: 3, delta: 0.5 },
+            { field: "chargingTime", comparator: "gt", threshold: 6, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    longTermSuitability: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Engine size (sweet spot for long-term: 250-500cc)",
+          match: "first",
+          rules: [
+            { field: "engineCC", comparator: "between", threshold: [250, 500], delta: 1 },
+            { field: "engineCC", comparator: "between", threshold: [200, 600], delta: 0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 150, delta: -0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 700, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Electric drivetrain (few wearing parts; the battery is what ages)",
+          match: "all",
+          rules: [
+            { field: "powertrain", comparator: "eq", threshold: "electric", delta: 1 },
+            // A small pack goes through more charge cycles for the same distance
+            { field: "batteryCapacity", comparator: "lt", threshold: 4, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power level (moderate is sustainable)",
+          match: "all",
+          rules: [
+            { field: "power", comparator: "between", threshold: [20, 45], delta: 0.5 },
+          ],
+        },
+        {
+          label: "Brand durability reputation",
+          match: "first",
+          rules: [
+            { field: "brand", comparator: "includes", threshold: ["honda", "royal enfield"], delta: 1 },
+            { field: "brand", comparator: "includes", threshold: ["hero", "tvs"], delta: 0.5 },
+          ],
+        },
+        {
+          label: "Parts supply for an ageing bike (your city)",
+          match: "first",
+          rules: [
+            { field: "partsTier", comparator: "eq", threshold: 1, delta: 0.5 },
+            { field: "partsTier", comparator: "eq", threshold: 3, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Future-proofing and practicality",
+          match: "all",
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+            {
+              field: "realWorldRange",
+              comparator: "gte",
+              threshold: 400,
+              delta: 0.5,
+              and: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+            },
+            {
+              field: "realWorldRange",
+              comparator: "gte",
+              threshold: 200,
+              delta: 0.5,
+              and: [{ field: "powertrain", comparator: "eq", threshold: "electric" }],
+            },
+            {
+              field: "groundClearance",
+              comparator: "gte",
+              threshold: 170,
+              delta: 0.5,
+              and: [{ field: "kerbWeight", comparator: "lte", threshold: 185 }],
+            },
+          ],
+        },
+      ],
+    },
+  },
+});
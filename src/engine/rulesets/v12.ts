@@ -0,0 +1,473 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V11 } from "./v11";
+
+/**
+ * v12 - vehicle classes: scooter, cruiser and ADV overrides for suspension, comfort, fun and traffic; scooter CVT rule
+ */
+export const RULESET_V12 = reviseRuleset(RULESET_V11, {
+  version: "v12",
+  description: "Thresholds tuned for 150-450cc Indian street bikes, with overrides per vehicle class",
+  factors: {
+    dailyTrafficEase: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Weight (lighter = better in traffic)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: 2 },
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 1.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 175, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -1.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 185, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower = easier flat-footing at stops)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 770, delta: 1 },
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -1 },
+            { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat reach for this rider (inseam minus seat height)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 20, delta: 1 },
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -60, delta: -1.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -1 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -20, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power-to-weight (sweet spot for traffic: 6-10 bhp per 100kg)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "between", threshold: [6, 10], delta: 1 },
+            { field: "powerToWeight", comparator: "gt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Torque-to-weight (shove without revving or slipping the clutch)",
+          match: "first",
+          rules: [
+            { field: "torqueToWeight", comparator: "gte", threshold: 18, delta: 0.5 },
+            { field: "torqueToWeight", comparator: "lt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Torque peak (low-rpm pull = fewer gear changes at crawling speed)",
+          match: "first",
+          rules: [
+            { field: "peakTorqueRpm", comparator: "lte", threshold: 5000, delta: 1 },
+            { field: "peakTorqueRpm", comparator: "lte", threshold: 6500, delta: 0.5 },
+            { field: "peakTorqueRpm", comparator: "gt", threshold: 8500, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Engine size (smaller = easier low-speed maneuvers)",
+          match: "first",
+          when: [{ field: "peakTorqueRpm", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "lt", threshold: 250, delta: 0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 500, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Electric drive (no clutch or gears, full torque from standstill)",
+          match: "all",
+          rules: [
+            { field: "powertrain", comparator: "eq", threshold: "electric", delta: 1 },
+          ],
+        },
+        {
+          label: "Scooter CVT (no clutch or gears, step-through frame)",
+          match: "all",
+          rules: [
+            {
+              field: "vehicleClass",
+              comparator: "eq",
+              threshold: "scooter",
+              delta: 1,
+              and: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+            },
+          ],
+        },
+      ],
+      classOverrides: {
+        // Cruisers carry their weight low, so it tells less at walking pace
+        cruiser: {
+          groups: [
+            {
+              label: "Weight (lighter = better in traffic)",
+              match: "first",
+              rules: [
+                { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 2 },
+                { field: "kerbWeight", comparator: "lt", threshold: 180, delta: 1.5 },
+                { field: "kerbWeight", comparator: "lt", threshold: 195, delta: 0.5 },
+                { field: "kerbWeight", comparator: "gt", threshold: 230, delta: -1.5 },
+                { field: "kerbWeight", comparator: "gt", threshold: 210, delta: -0.5 },
+              ],
+            },
+          ],
+        },
+      },
+    },
+
+    riderComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Handlebar type (upright = more comfortable)",
+          match: "first",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "raised", delta: 1 },
+            { field: "handlebarType", comparator: "eq", threshold: "standard", delta: 0.5 },
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -1 },
+          ],
+        },
+        {
+          label: "Seat height comfort zone",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "between", threshold: [780, 820], delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 840, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height vs rider's legs (not a stretch, not cramped)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "between", threshold: [-20, 80], delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+            { field: "seatReachMargin", comparator: "gt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Real-world range (km per tank; longer = fewer stops)",
+          match: "first",
+          when: [{ field: "powertrain", comparator: "eq", threshold: "petrol" }],
+          rules: [
+            { field: "realWorldRange", comparator: "gte", threshold: 450, delta: 1 },
+            { field: "realWorldRange", comparator: "gte", threshold: 350, delta: 0.5 },
+            { field: "realWorldRange", comparator: "lt", threshold: 250, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Real-world range (km per charge; a charging stop takes far longer than a fuel stop)",
+          match: "first",
+          when: [{ field: "powertrain", comparator: "eq", threshold: "electric" }],
+          rules: [
+            { field: "realWorldRange", comparator: "gte", threshold: 300, delta: 0.5 },
+            { field: "realWorldRange", comparator: "lt", threshold: 100, delta: -1.5 },
+            { field: "realWorldRange", comparator: "lt", threshold: 150, delta: -1 },
+            { field: "realWorldRange", comparator: "lt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Suspension quality indicator",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Ground clearance for Indian roads",
+          match: "first",
+          rules: [
+            { field: "groundClearance", comparator: "gte", threshold: 180, delta: 0.5 },
+            { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+            { field: "groundClearance", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+      ],
+      classOverrides: {
+        scooter: {
+          groups: [
+            {
+              label: "Ground clearance for Indian roads",
+              match: "first",
+              rules: [
+                { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.5 },
+                { field: "groundClearance", comparator: "gte", threshold: 145, delta: 0.25 },
+                { field: "groundClearance", comparator: "lt", threshold: 125, delta: -0.5 },
+              ],
+            },
+          ],
+        },
+        // Low seats are the point of a cruiser
+        cruiser: {
+          groups: [
+            {
+              label: "Seat height comfort zone",
+              match: "first",
+              when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+              rules: [
+                { field: "seatHeight", comparator: "between", threshold: [680, 780], delta: 0.5 },
+                { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+              ],
+            },
+            {
+              label: "Ground clearance for Indian roads",
+              match: "first",
+              rules: [
+                { field: "groundClearance", comparator: "gte", threshold: 165, delta: 0.5 },
+                { field: "groundClearance", comparator: "gte", threshold: 150, delta: 0.25 },
+                { field: "groundClearance", comparator: "lt", threshold: 125, delta: -0.5 },
+              ],
+            },
+          ],
+        },
+        // Tall seats come with the long travel
+        adv: {
+          groups: [
+            {
+              label: "Seat height comfort zone",
+              match: "first",
+              when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+              rules: [
+                { field: "seatHeight", comparator: "between", threshold: [800, 860], delta: 0.5 },
+                { field: "seatHeight", comparator: "gt", threshold: 880, delta: -0.5 },
+              ],
+            },
+          ],
+        },
+      },
+    },
+
+    suspensionCompliance: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Rear suspension type",
+          match: "first",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1.5 },
+            { field: "rearSuspension", comparator: "eq", threshold: "twin", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Suspension travel",
+          match: "first",
+          rules: [
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 140, delta: 1 },
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 120, delta: 0.5 },
+            { field: "rearSuspensionTravel", comparator: "lt", threshold: 100, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Front suspension (USD forks are generally better)",
+          match: "first",
+          rules: [
+            { field: "frontSuspension", comparator: "includes", threshold: "usd", delta: 1 },
+            { field: "frontSuspension", comparator: "includes", threshold: "telescopic", delta: 0.25 },
+          ],
+        },
+        {
+          label: "Ground clearance (critical for Indian roads)",
+          match: "first",
+          rules: [
+            { field: "groundClearance", comparator: "gte", threshold: 200, delta: 1 },
+            { field: "groundClearance", comparator: "gte", threshold: 175, delta: 0.5 },
+            { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+            { field: "groundClearance", comparator: "lt", threshold: 140, delta: -1 },
+          ],
+        },
+        {
+          label: "Payload vs kerb weight (sag and bottoming out)",
+          match: "first",
+          rules: [
+            {
+              field: "payloadRatio",
+              comparator: "gte",
+              threshold: 0.85,
+              delta: -1,
+              and: [{ field: "rearSuspensionTravel", comparator: "lt", threshold: 120 }],
+            },
+            { field: "payloadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+            {
+              field: "payloadRatio",
+              comparator: "gte",
+              threshold: 0.65,
+              delta: -0.5,
+              and: [{ field: "rearSuspensionTravel", comparator: "lt", threshold: 110 }],
+            },
+          ],
+        },
+      ],
+      classOverrides: {
+        // Small wheels and short travel are the norm; the payload is also a bigger share of the weight
+        scooter: {
+          groups: [
+            {
+              label: "Suspension travel",
+              match: "first",
+              rules: [
+                { field: "rearSuspensionTravel", comparator: "gte", threshold: 100, delta: 1 },
+                { field: "rearSuspensionTravel", comparator: "gte", threshold: 85, delta: 0.5 },
+                { field: "rearSuspensionTravel", comparator: "lt", threshold: 70, delta: -0.5 },
+              ],
+            },
+            {
+              label: "Ground clearance (critical for Indian roads)",
+              match: "first",
+              rules: [
+                { field: "groundClearance", comparator: "gte", threshold: 165, delta: 1 },
+                { field: "groundClearance", comparator: "gte", threshold: 155, delta: 0.5 },
+                { field: "groundClearance", comparator: "gte", threshold: 145, delta: 0.25 },
+                { field: "groundClearance", comparator: "lt", threshold: 125, delta: -1 },
+              ],
+            },
+            {
+              label: "Payload vs kerb weight (sag and bottoming out)",
+              match: "first",
+              rules: [
+                {
+                  field: "payloadRatio",
+                  comparator: "gte",
+                  threshold: 1.1,
+                  delta: -1,
+                  and: [{ field: "rearSuspensionTravel", comparator: "lt", threshold: 85 }],
+                },
+                { field: "payloadRatio", comparator: "gte", threshold: 1.1, delta: -0.5 },
+              ],
+            },
+          ],
+        },
+        cruiser: {
+          groups: [
+            {
+              label: "Ground clearance (critical for Indian roads)",
+              match: "first",
+              rules: [
+                { field: "groundClearance", comparator: "gte", threshold: 170, delta: 1 },
+                { field: "groundClearance", comparator: "gte", threshold: 155, delta: 0.5 },
+                { field: "groundClearance", comparator: "gte", threshold: 140, delta: 0.25 },
+                { field: "groundClearance", comparator: "lt", threshold: 125, delta: -1 },
+              ],
+            },
+          ],
+        },
+        // Built for broken roads and trails, so the bar is higher
+        adv: {
+          groups: [
+            {
+              label: "Suspension travel",
+              match: "first",
+              rules: [
+                { field: "rearSuspensionTravel", comparator: "gte", threshold: 200, delta: 1 },
+                { field: "rearSuspensionTravel", comparator: "gte", threshold: 170, delta: 0.5 },
+                { field: "rearSuspensionTravel", comparator: "lt", threshold: 140, delta: -0.5 },
+              ],
+            },
+            {
+              label: "Ground clearance (critical for Indian roads)",
+              match: "first",
+              rules: [
+                { field: "groundClearance", comparator: "gte", threshold: 230, delta: 1 },
+                { field: "groundClearance", comparator: "gte", threshold: 210, delta: 0.5 },
+                { field: "groundClearance", comparator: "lt", threshold: 180, delta: -1 },
+              ],
+            },
+          ],
+        },
+      },
+    },
+
+    funEngagement: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Power-to-weight ratio (higher = more fun)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "gte", threshold: 12, delta: 2 },
+            { field: "powerToWeight", comparator: "gte", threshold: 10, delta: 1.5 },
+            { field: "powerToWeight", comparator: "gte", threshold: 8, delta: 1 },
+            { field: "powerToWeight", comparator: "gte", threshold: 6, delta: 0.5 },
+            { field: "powerToWeight", comparator: "lt", threshold: 5, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power peak (an engine that loves to rev)",
+          match: "first",
+          rules: [
+            { field: "peakPowerRpm", comparator: "gte", threshold: 9000, delta: 1 },
+            { field: "peakPowerRpm", comparator: "gte", threshold: 7500, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Cylinders (smoother, more eager multi-cylinder engines)",
+          match: "first",
+          rules: [{ field: "cylinders", comparator: "gte", threshold: 2, delta: 0.5 }],
+        },
+        {
+          label: "Electric motor (instant torque)",
+          match: "all",
+          rules: [
+            { field: "powertrain", comparator: "eq", threshold: "electric", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Engine size (larger tends to be more engaging)",
+          match: "first",
+          when: [{ field: "peakPowerRpm", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "gte", threshold: 400, delta: 1 },
+            { field: "engineCC", comparator: "gte", threshold: 300, delta: 0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Weight (lighter = more flickable)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Handlebar (sportier = more engaging)",
+          match: "all",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: 0.5 },
+          ],
+        },
+      ],
+      classOverrides: {
+        cruiser: {
+          groups: [
+            { label: "Power peak (an engine that loves to rev)", match: "first", rules: [] },
+            {
+              label: "Weight (lighter = more flickable)",
+              match: "first",
+              rules: [{ field: "kerbWeight", comparator: "gt", threshold: 240, delta: -0.5 }],
+            },
+            {
+              label: "Torque peak (a lazy engine that pulls from idle)",
+              match: "first",
+              rules: [
+                { field: "peakTorqueRpm", comparator: "lte", threshold: 4000, delta: 1 },
+                { field: "peakTorqueRpm", comparator: "lte", threshold: 5000, delta: 0.5 },
+              ],
+            },
+          ],
+        },
+      },
+    },
+  },
+});
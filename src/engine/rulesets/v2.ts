@@ -0,0 +1,205 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V1 } from "./v1";
+
+/**
+ * v2 - seat height and load judged against the rider profile, when one is set
+ */
+export const RULESET_V2 = reviseRuleset(RULESET_V1, {
+  version: "v2",
+  description: "Thresholds tuned for 150-450cc Indian street bikes",
+  factors: {
+    dailyTrafficEase: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Weight (lighter = better in traffic)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: 2 },
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 1.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 175, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -1.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 185, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower = easier flat-footing at stops)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 770, delta: 1 },
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -1 },
+            { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat reach for this rider (inseam minus seat height)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 20, delta: 1 },
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -60, delta: -1.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -1 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -20, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power-to-weight (sweet spot for traffic: 6-10 bhp per 100kg)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "between", threshold: [6, 10], delta: 1 },
+            { field: "powerToWeight", comparator: "gt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Engine size (smaller = easier low-speed maneuvers)",
+          match: "first",
+          rules: [
+            { field: "engineCC", comparator: "lt", threshold: 250, delta: 0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 500, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    primaryPillionComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Rear suspension type",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1 },
+          ],
+        },
+        {
+          label: "Rear suspension travel",
+          match: "first",
+          rules: [
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 130, delta: 1 },
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 110, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Weight (heavier = more stable for pillion)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 180, delta: 1 },
+            { field: "kerbWeight", comparator: "gte", threshold: 165, delta: 0.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Wheelbase (longer = more stable)",
+          match: "first",
+          rules: [
+            { field: "wheelbase", comparator: "gte", threshold: 1420, delta: 1 },
+            { field: "wheelbase", comparator: "gte", threshold: 1380, delta: 0.5 },
+            { field: "wheelbase", comparator: "lt", threshold: 1320, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower is more confidence-inspiring)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rider can plant feet with a passenger on board",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rider + pillion load vs kerb weight",
+          match: "first",
+          rules: [
+            { field: "loadRatio", comparator: "gte", threshold: 1, delta: -1 },
+            { field: "loadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+            { field: "loadRatio", comparator: "lte", threshold: 0.65, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Secondary pillion (parents) - stability prioritized",
+          match: "all",
+          when: [{ field: "pillionMode", comparator: "eq", threshold: "secondary" }],
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 175, delta: 0.5 },
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+          ],
+        },
+      ],
+    },
+
+    riderComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Handlebar type (upright = more comfortable)",
+          match: "first",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "raised", delta: 1 },
+            { field: "handlebarType", comparator: "eq", threshold: "standard", delta: 0.5 },
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -1 },
+          ],
+        },
+        {
+          label: "Seat height comfort zone",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "between", threshold: [780, 820], delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 840, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height vs rider's legs (not a stretch, not cramped)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "between", threshold: [-20, 80], delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+            { field: "seatReachMargin", comparator: "gt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Fuel capacity (longer range = fewer stops)",
+          match: "first",
+          rules: [
+            { field: "fuelCapacity", comparator: "gte", threshold: 15, delta: 1 },
+            { field: "fuelCapacity", comparator: "gte", threshold: 12, delta: 0.5 },
+            { field: "fuelCapacity", comparator: "lt", threshold: 10, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Suspension quality indicator",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Ground clearance for Indian roads",
+          match: "first",
+          rules: [
+            { field: "groundClearance", comparator: "gte", threshold: 180, delta: 0.5 },
+            { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+            { field: "groundClearance", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+  },
+});
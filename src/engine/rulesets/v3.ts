@@ -0,0 +1,31 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V2 } from "./v2";
+
+/**
+ * v3 - optional total cost of ownership factor
+ */
+export const RULESET_V3 = reviseRuleset(RULESET_V2, {
+  version: "v3",
+  factors: {
+    totalCostOfOwnership: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Cost per km over the ownership horizon (INR, price included)",
+          match: "first",
+          rules: [
+            { field: "tcoPerKm", comparator: "lt", threshold: 4, delta: 4 },
+            { field: "tcoPerKm", comparator: "lt", threshold: 5, delta: 3 },
+            { field: "tcoPerKm", comparator: "lt", threshold: 6, delta: 2 },
+            { field: "tcoPerKm", comparator: "lt", threshold: 8, delta: 1 },
+            { field: "tcoPerKm", comparator: "gt", threshold: 20, delta: -3 },
+            { field: "tcoPerKm", comparator: "gt", threshold: 15, delta: -2 },
+            { field: "tcoPerKm", comparator: "gt", threshold: 12, delta: -1 },
+          ],
+        },
+      ],
+    },
+  },
+});
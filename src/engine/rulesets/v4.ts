@@ -0,0 +1,118 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V3 } from "./v3";
+
+/**
+ * v4 - real-world range replaces tank size in rider comfort and long-term suitability
+ */
+export const RULESET_V4 = reviseRuleset(RULESET_V3, {
+  version: "v4",
+  factors: {
+    riderComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Handlebar type (upright = more comfortable)",
+          match: "first",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "raised", delta: 1 },
+            { field: "handlebarType", comparator: "eq", threshold: "standard", delta: 0.5 },
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -1 },
+          ],
+        },
+        {
+          label: "Seat height comfort zone",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "between", threshold: [780, 820], delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 840, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height vs rider's legs (not a stretch, not cramped)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "between", threshold: [-20, 80], delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+            { field: "seatReachMargin", comparator: "gt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Real-world range (km per tank; longer = fewer stops)",
+          match: "first",
+          rules: [
+            { field: "realWorldRange", comparator: "gte", threshold: 450, delta: 1 },
+            { field: "realWorldRange", comparator: "gte", threshold: 350, delta: 0.5 },
+            { field: "realWorldRange", comparator: "lt", threshold: 250, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Suspension quality indicator",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Ground clearance for Indian roads",
+          match: "first",
+          rules: [
+            { field: "groundClearance", comparator: "gte", threshold: 180, delta: 0.5 },
+            { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+            { field: "groundClearance", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    longTermSuitability: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Engine size (sweet spot for long-term: 250-500cc)",
+          match: "first",
+          rules: [
+            { field: "engineCC", comparator: "between", threshold: [250, 500], delta: 1 },
+            { field: "engineCC", comparator: "between", threshold: [200, 600], delta: 0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 150, delta: -0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 700, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power level (moderate is sustainable)",
+          match: "all",
+          rules: [
+            { field: "power", comparator: "between", threshold: [20, 45], delta: 0.5 },
+          ],
+        },
+        {
+          label: "Brand durability reputation",
+          match: "first",
+          rules: [
+            { field: "brand", comparator: "includes", threshold: ["honda", "royal enfield"], delta: 1 },
+            { field: "brand", comparator: "includes", threshold: ["hero", "tvs"], delta: 0.5 },
+          ],
+        },
+        {
+          label: "Future-proofing and practicality",
+          match: "all",
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+            { field: "realWorldRange", comparator: "gte", threshold: 400, delta: 0.5 },
+            {
+              field: "groundClearance",
+              comparator: "gte",
+              threshold: 170,
+              delta: 0.5,
+              and: [{ field: "kerbWeight", comparator: "lte", threshold: 185 }],
+            },
+          ],
+        },
+      ],
+    },
+  },
+});
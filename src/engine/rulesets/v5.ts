@@ -0,0 +1,111 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V4 } from "./v4";
+
+/**
+ * v5 - ownership judged from the regional service network dataset instead of brand names
+ */
+export const RULESET_V5 = reviseRuleset(RULESET_V4, {
+  version: "v5",
+  factors: {
+    ownershipPracticality: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Authorised service centres in your city",
+          match: "first",
+          rules: [
+            { field: "serviceCentres", comparator: "gte", threshold: 20, delta: 1 },
+            { field: "serviceCentres", comparator: "gte", threshold: 8, delta: 0.5 },
+            // None locally: every service is a trip to another town
+            { field: "serviceCentres", comparator: "lt", threshold: 1, delta: -1 },
+            { field: "serviceCentres", comparator: "lt", threshold: 3, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Parts availability in your city",
+          match: "first",
+          rules: [
+            { field: "partsTier", comparator: "eq", threshold: 1, delta: 0.5 },
+            { field: "partsTier", comparator: "eq", threshold: 3, delta: -1 },
+          ],
+        },
+        {
+          label: "Scheduled service cost (local rates)",
+          match: "first",
+          rules: [
+            { field: "serviceCost", comparator: "lte", threshold: 1800, delta: 0.5 },
+            { field: "serviceCost", comparator: "gte", threshold: 5000, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Price segment (parts cost)",
+          match: "first",
+          rules: [
+            { field: "exShowroomPrice", comparator: "lt", threshold: 150000, delta: 0.5 },
+            { field: "exShowroomPrice", comparator: "gt", threshold: 300000, delta: -0.5 },
+            // Shadowed by the rule above; kept so v1 matches the original ladder
+            { field: "exShowroomPrice", comparator: "gt", threshold: 500000, delta: -1 },
+          ],
+        },
+      ],
+    },
+
+    longTermSuitability: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Engine size (sweet spot for long-term: 250-500cc)",
+          match: "first",
+          rules: [
+            { field: "engineCC", comparator: "between", threshold: [250, 500], delta: 1 },
+            { field: "engineCC", comparator: "between", threshold: [200, 600], delta: 0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 150, delta: -0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 700, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power level (moderate is sustainable)",
+          match: "all",
+          rules: [
+            { field: "power", comparator: "between", threshold: [20, 45], delta: 0.5 },
+          ],
+        },
+        {
+          label: "Brand durability reputation",
+          match: "first",
+          rules: [
+            { field: "brand", comparator: "includes", threshold: ["honda", "royal enfield"], delta: 1 },
+            { field: "brand", comparator: "includes", threshold: ["hero", "tvs"], delta: 0.5 },
+          ],
+        },
+        {
+          label: "Parts supply for an ageing bike (your city)",
+          match: "first",
+          rules: [
+            { field: "partsTier", comparator: "eq", threshold: 1, delta: 0.5 },
+            { field: "partsTier", comparator: "eq", threshold: 3, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Future-proofing and practicality",
+          match: "all",
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+            { field: "realWorldRange", comparator: "gte", threshold: 400, delta: 0.5 },
+            {
+              field: "groundClearance",
+              comparator: "gte",
+              threshold: 170,
+              delta: 0.5,
+              and: [{ field: "kerbWeight", comparator: "lte", threshold: 185 }],
+            },
+          ],
+        },
+      ],
+    },
+  },
+});
@@ -0,0 +1,225 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V5 } from "./v5";
+
+/**
+ * v6 - suspension and braking respond to the payload of the load scenario; child pillion rules
+ */
+export const RULESET_V6 = reviseRuleset(RULESET_V5, {
+  version: "v6",
+  factors: {
+    brakingSafetyConfidence: {
+      baseline: 3, // drum brakes, no ABS
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Brake hardware",
+          match: "all",
+          rules: [
+            { field: "frontBrake", comparator: "eq", threshold: "disc", delta: 2 },
+            { field: "rearBrake", comparator: "eq", threshold: "disc", delta: 1 },
+          ],
+        },
+        {
+          label: "ABS system",
+          match: "first",
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 3 },
+            { field: "absType", comparator: "eq", threshold: "single-channel", delta: 1.5 },
+          ],
+        },
+        {
+          label: "Rear tyre width (wider = more grip)",
+          match: "first",
+          rules: [
+            { field: "rearTyreWidth", comparator: "gte", threshold: 150, delta: 0.5 },
+            { field: "rearTyreWidth", comparator: "gte", threshold: 140, delta: 0.25 },
+          ],
+        },
+        {
+          label: "Front tyre width",
+          match: "first",
+          rules: [
+            { field: "frontTyreWidth", comparator: "gte", threshold: 120, delta: 0.5 },
+            { field: "frontTyreWidth", comparator: "gte", threshold: 110, delta: 0.25 },
+          ],
+        },
+        {
+          label: "Payload vs kerb weight (longer stopping distances)",
+          match: "first",
+          rules: [
+            { field: "payloadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Brakes that struggle with a heavy payload",
+          match: "first",
+          when: [{ field: "payloadRatio", comparator: "gte", threshold: 0.75 }],
+          rules: [
+            { field: "absType", comparator: "eq", threshold: "none", delta: -1 },
+            { field: "rearBrake", comparator: "eq", threshold: "drum", delta: -0.5 },
+            { field: "absType", comparator: "eq", threshold: "single-channel", delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    primaryPillionComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Rear suspension type",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1 },
+          ],
+        },
+        {
+          label: "Rear suspension travel",
+          match: "first",
+          rules: [
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 130, delta: 1 },
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 110, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Weight (heavier = more stable for pillion)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 180, delta: 1 },
+            { field: "kerbWeight", comparator: "gte", threshold: 165, delta: 0.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Wheelbase (longer = more stable)",
+          match: "first",
+          rules: [
+            { field: "wheelbase", comparator: "gte", threshold: 1420, delta: 1 },
+            { field: "wheelbase", comparator: "gte", threshold: 1380, delta: 0.5 },
+            { field: "wheelbase", comparator: "lt", threshold: 1320, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower is more confidence-inspiring)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rider can plant feet with a passenger on board",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rider + pillion load vs kerb weight",
+          match: "first",
+          rules: [
+            { field: "loadRatio", comparator: "gte", threshold: 1, delta: -1 },
+            { field: "loadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+            { field: "loadRatio", comparator: "lte", threshold: 0.65, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Secondary pillion (parents) - stability prioritized",
+          match: "all",
+          when: [{ field: "pillionMode", comparator: "eq", threshold: "secondary" }],
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 175, delta: 0.5 },
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Luggage crowding the pillion",
+          match: "all",
+          when: [{ field: "pillionWeight", comparator: "gt", threshold: 0 }],
+          rules: [
+            { field: "luggageWeight", comparator: "gt", threshold: 0, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Child pillion - easy to climb on, somewhere to sit securely",
+          match: "all",
+          when: [{ field: "loadScenario", comparator: "eq", threshold: "child-pillion" }],
+          rules: [
+            { field: "seatHeight", comparator: "gt", threshold: 820, delta: -0.5 },
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    suspensionCompliance: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Rear suspension type",
+          match: "first",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1.5 },
+            { field: "rearSuspension", comparator: "eq", threshold: "twin", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Suspension travel",
+          match: "first",
+          rules: [
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 140, delta: 1 },
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 120, delta: 0.5 },
+            { field: "rearSuspensionTravel", comparator: "lt", threshold: 100, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Front suspension (USD forks are generally better)",
+          match: "first",
+          rules: [
+            { field: "frontSuspension", comparator: "includes", threshold: "usd", delta: 1 },
+            { field: "frontSuspension", comparator: "includes", threshold: "telescopic", delta: 0.25 },
+          ],
+        },
+        {
+          label: "Ground clearance (critical for Indian roads)",
+          match: "first",
+          rules: [
+            { field: "groundClearance", comparator: "gte", threshold: 200, delta: 1 },
+            { field: "groundClearance", comparator: "gte", threshold: 175, delta: 0.5 },
+            { field: "groundClearance", comparator: "gte", threshold: 160, delta: 0.25 },
+            { field: "groundClearance", comparator: "lt", threshold: 140, delta: -1 },
+          ],
+        },
+        {
+          label: "Payload vs kerb weight (sag and bottoming out)",
+          match: "first",
+          rules: [
+            {
+              field: "payloadRatio",
+              comparator: "gte",
+              threshold: 0.85,
+              delta: -1,
+              and: [{ field: "rearSuspensionTravel", comparator: "lt", threshold: 120 }],
+            },
+            { field: "payloadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+            {
+              field: "payloadRatio",
+              comparator: "gte",
+              threshold: 0.65,
+              delta: -0.5,
+              and: [{ field: "rearSuspensionTravel", comparator: "lt", threshold: 110 }],
+            },
+          ],
+        },
+      ],
+    },
+  },
+});
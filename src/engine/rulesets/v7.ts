@@ -0,0 +1,137 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V6 } from "./v6";
+
+/**
+ * v7 - pillion comfort does not apply without a pillion, cost of ownership without a price
+ */
+export const RULESET_V7 = reviseRuleset(RULESET_V6, {
+  version: "v7",
+  factors: {
+    primaryPillionComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Rear suspension type",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1 },
+          ],
+        },
+        {
+          label: "Rear suspension travel",
+          match: "first",
+          rules: [
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 130, delta: 1 },
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 110, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Weight (heavier = more stable for pillion)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 180, delta: 1 },
+            { field: "kerbWeight", comparator: "gte", threshold: 165, delta: 0.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Wheelbase (longer = more stable)",
+          match: "first",
+          rules: [
+            { field: "wheelbase", comparator: "gte", threshold: 1420, delta: 1 },
+            { field: "wheelbase", comparator: "gte", threshold: 1380, delta: 0.5 },
+            { field: "wheelbase", comparator: "lt", threshold: 1320, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower is more confidence-inspiring)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rider can plant feet with a passenger on board",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rider + pillion load vs kerb weight",
+          match: "first",
+          rules: [
+            { field: "loadRatio", comparator: "gte", threshold: 1, delta: -1 },
+            { field: "loadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+            { field: "loadRatio", comparator: "lte", threshold: 0.65, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Secondary pillion (parents) - stability prioritized",
+          match: "all",
+          when: [{ field: "pillionMode", comparator: "eq", threshold: "secondary" }],
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 175, delta: 0.5 },
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Luggage crowding the pillion",
+          match: "all",
+          when: [{ field: "pillionWeight", comparator: "gt", threshold: 0 }],
+          rules: [
+            { field: "luggageWeight", comparator: "gt", threshold: 0, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Child pillion - easy to climb on, somewhere to sit securely",
+          match: "all",
+          when: [{ field: "loadScenario", comparator: "eq", threshold: "child-pillion" }],
+          rules: [
+            { field: "seatHeight", comparator: "gt", threshold: 820, delta: -0.5 },
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -0.5 },
+          ],
+        },
+      ],
+      notApplicableWhen: [
+        {
+          when: [{ field: "pillionWeight", comparator: "eq", threshold: 0 }],
+          reason: "No pillion in this load scenario",
+        },
+      ],
+    },
+
+    totalCostOfOwnership: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Cost per km over the ownership horizon (INR, price included)",
+          match: "first",
+          rules: [
+            { field: "tcoPerKm", comparator: "lt", threshold: 4, delta: 4 },
+            { field: "tcoPerKm", comparator: "lt", threshold: 5, delta: 3 },
+            { field: "tcoPerKm", comparator: "lt", threshold: 6, delta: 2 },
+            { field: "tcoPerKm", comparator: "lt", threshold: 8, delta: 1 },
+            { field: "tcoPerKm", comparator: "gt", threshold: 20, delta: -3 },
+            { field: "tcoPerKm", comparator: "gt", threshold: 15, delta: -2 },
+            { field: "tcoPerKm", comparator: "gt", threshold: 12, delta: -1 },
+          ],
+        },
+      ],
+      notApplicableWhen: [
+        {
+          when: [{ field: "tcoPerKm", comparator: "exists", threshold: false }],
+          reason: "Needs the ex-showroom price",
+        },
+      ],
+    },
+  },
+});
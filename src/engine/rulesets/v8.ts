@@ -0,0 +1,183 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V7 } from "./v7";
+
+/**
+ * v8 - heat, traffic ease and fun read cooling, cylinders and peak rpm; engine size is only the fallback
+ */
+export const RULESET_V8 = reviseRuleset(RULESET_V7, {
+  version: "v8",
+  factors: {
+    dailyTrafficEase: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Weight (lighter = better in traffic)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: 2 },
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 1.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 175, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -1.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 185, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower = easier flat-footing at stops)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 770, delta: 1 },
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -1 },
+            { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat reach for this rider (inseam minus seat height)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 20, delta: 1 },
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -60, delta: -1.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -1 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -20, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power-to-weight (sweet spot for traffic: 6-10 bhp per 100kg)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "between", threshold: [6, 10], delta: 1 },
+            { field: "powerToWeight", comparator: "gt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Torque peak (low-rpm pull = fewer gear changes at crawling speed)",
+          match: "first",
+          rules: [
+            { field: "peakTorqueRpm", comparator: "lte", threshold: 5000, delta: 1 },
+            { field: "peakTorqueRpm", comparator: "lte", threshold: 6500, delta: 0.5 },
+            { field: "peakTorqueRpm", comparator: "gt", threshold: 8500, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Engine size (smaller = easier low-speed maneuvers)",
+          match: "first",
+          when: [{ field: "peakTorqueRpm", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "lt", threshold: 250, delta: 0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 500, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    funEngagement: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Power-to-weight ratio (higher = more fun)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "gte", threshold: 12, delta: 2 },
+            { field: "powerToWeight", comparator: "gte", threshold: 10, delta: 1.5 },
+            { field: "powerToWeight", comparator: "gte", threshold: 8, delta: 1 },
+            { field: "powerToWeight", comparator: "gte", threshold: 6, delta: 0.5 },
+            { field: "powerToWeight", comparator: "lt", threshold: 5, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power peak (an engine that loves to rev)",
+          match: "first",
+          rules: [
+            { field: "peakPowerRpm", comparator: "gte", threshold: 9000, delta: 1 },
+            { field: "peakPowerRpm", comparator: "gte", threshold: 7500, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Cylinders (smoother, more eager multi-cylinder engines)",
+          match: "first",
+          rules: [{ field: "cylinders", comparator: "gte", threshold: 2, delta: 0.5 }],
+        },
+        {
+          label: "Engine size (larger tends to be more engaging)",
+          match: "first",
+          when: [{ field: "peakPowerRpm", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "gte", threshold: 400, delta: 1 },
+            { field: "engineCC", comparator: "gte", threshold: 300, delta: 0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Weight (lighter = more flickable)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Handlebar (sportier = more engaging)",
+          match: "all",
+          rules: [
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: 0.5 },
+          ],
+        },
+      ],
+    },
+
+    heatManagement: {
+      baseline: 6, // assume decent heat management
+      clamp: [1, 10],
+      roundTo: 0.5,
+      override: { field: "heatManagementRating", min: 1, max: 10 }, // AI-derived rating
+      groups: [
+        {
+          label: "Cooling system (air-cooled engines bake in stop-go traffic)",
+          match: "first",
+          rules: [
+            {
+              field: "coolingType",
+              comparator: "eq",
+              threshold: "air",
+              delta: -1.5,
+              and: [{ field: "engineCC", comparator: "gte", threshold: 300 }],
+            },
+            { field: "coolingType", comparator: "eq", threshold: "air", delta: -0.5 },
+            {
+              field: "coolingType",
+              comparator: "eq",
+              threshold: "air-oil",
+              delta: -0.5,
+              and: [{ field: "engineCC", comparator: "gte", threshold: 400 }],
+            },
+            { field: "coolingType", comparator: "eq", threshold: "liquid", delta: 1 },
+          ],
+        },
+        {
+          label: "Engine size (larger engines tend to run hotter)",
+          match: "first",
+          when: [{ field: "coolingType", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "gte", threshold: 400, delta: -1 },
+            { field: "engineCC", comparator: "gte", threshold: 300, delta: -0.5 },
+            { field: "engineCC", comparator: "lt", threshold: 200, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Power output",
+          match: "first",
+          rules: [
+            { field: "power", comparator: "gte", threshold: 40, delta: -0.5 },
+            { field: "power", comparator: "lt", threshold: 20, delta: 0.5 },
+          ],
+        },
+      ],
+    },
+  },
+});
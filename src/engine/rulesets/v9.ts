@@ -0,0 +1,253 @@
+import { reviseRuleset } from "./define";
+import { RULESET_V8 } from "./v8";
+
+/**
+ * v9 - torque-to-weight and low-end torque in traffic ease, pillion comfort and highway overtaking
+ */
+export const RULESET_V9 = reviseRuleset(RULESET_V8, {
+  version: "v9",
+  factors: {
+    dailyTrafficEase: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Weight (lighter = better in traffic)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: 2 },
+            { field: "kerbWeight", comparator: "lt", threshold: 160, delta: 1.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 175, delta: 0.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 200, delta: -1.5 },
+            { field: "kerbWeight", comparator: "gt", threshold: 185, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower = easier flat-footing at stops)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 770, delta: 1 },
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -1 },
+            { field: "seatHeight", comparator: "gt", threshold: 810, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat reach for this rider (inseam minus seat height)",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 20, delta: 1 },
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -60, delta: -1.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -1 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -20, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power-to-weight (sweet spot for traffic: 6-10 bhp per 100kg)",
+          match: "first",
+          rules: [
+            { field: "powerToWeight", comparator: "between", threshold: [6, 10], delta: 1 },
+            { field: "powerToWeight", comparator: "gt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Torque-to-weight (shove without revving or slipping the clutch)",
+          match: "first",
+          rules: [
+            { field: "torqueToWeight", comparator: "gte", threshold: 18, delta: 0.5 },
+            { field: "torqueToWeight", comparator: "lt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Torque peak (low-rpm pull = fewer gear changes at crawling speed)",
+          match: "first",
+          rules: [
+            { field: "peakTorqueRpm", comparator: "lte", threshold: 5000, delta: 1 },
+            { field: "peakTorqueRpm", comparator: "lte", threshold: 6500, delta: 0.5 },
+            { field: "peakTorqueRpm", comparator: "gt", threshold: 8500, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Engine size (smaller = easier low-speed maneuvers)",
+          match: "first",
+          when: [{ field: "peakTorqueRpm", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "engineCC", comparator: "lt", threshold: 250, delta: 0.5 },
+            { field: "engineCC", comparator: "gt", threshold: 500, delta: -0.5 },
+          ],
+        },
+      ],
+    },
+
+    primaryPillionComfort: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Rear suspension type",
+          match: "all",
+          rules: [
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 1 },
+          ],
+        },
+        {
+          label: "Rear suspension travel",
+          match: "first",
+          rules: [
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 130, delta: 1 },
+            { field: "rearSuspensionTravel", comparator: "gte", threshold: 110, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Weight (heavier = more stable for pillion)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 180, delta: 1 },
+            { field: "kerbWeight", comparator: "gte", threshold: 165, delta: 0.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 140, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Wheelbase (longer = more stable)",
+          match: "first",
+          rules: [
+            { field: "wheelbase", comparator: "gte", threshold: 1420, delta: 1 },
+            { field: "wheelbase", comparator: "gte", threshold: 1380, delta: 0.5 },
+            { field: "wheelbase", comparator: "lt", threshold: 1320, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Seat height (lower is more confidence-inspiring)",
+          match: "first",
+          when: [{ field: "seatReachMargin", comparator: "exists", threshold: false }],
+          rules: [
+            { field: "seatHeight", comparator: "lt", threshold: 790, delta: 0.5 },
+            { field: "seatHeight", comparator: "gt", threshold: 830, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rider can plant feet with a passenger on board",
+          match: "first",
+          rules: [
+            { field: "seatReachMargin", comparator: "gte", threshold: 0, delta: 0.5 },
+            { field: "seatReachMargin", comparator: "lt", threshold: -40, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rider + pillion load vs kerb weight",
+          match: "first",
+          rules: [
+            { field: "loadRatio", comparator: "gte", threshold: 1, delta: -1 },
+            { field: "loadRatio", comparator: "gte", threshold: 0.85, delta: -0.5 },
+            { field: "loadRatio", comparator: "lte", threshold: 0.65, delta: 0.5 },
+          ],
+        },
+        {
+          label: "Torque for pulling two (low-end torque, then torque vs loaded weight)",
+          match: "first",
+          rules: [
+            {
+              field: "torque",
+              comparator: "gte",
+              threshold: 28,
+              delta: 1,
+              and: [{ field: "peakTorqueRpm", comparator: "lte", threshold: 5500 }],
+            },
+            { field: "loadedTorqueToWeight", comparator: "gte", threshold: 12, delta: 0.5 },
+            { field: "loadedTorqueToWeight", comparator: "lt", threshold: 7, delta: -1 },
+            { field: "loadedTorqueToWeight", comparator: "lt", threshold: 9, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Secondary pillion (parents) - stability prioritized",
+          match: "all",
+          when: [{ field: "pillionMode", comparator: "eq", threshold: "secondary" }],
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 175, delta: 0.5 },
+            { field: "rearSuspension", comparator: "eq", threshold: "monoshock", delta: 0.5 },
+            { field: "absType", comparator: "eq", threshold: "dual-channel", delta: 0.5 },
+          ],
+        },
+        {
+          label: "Luggage crowding the pillion",
+          match: "all",
+          when: [{ field: "pillionWeight", comparator: "gt", threshold: 0 }],
+          rules: [
+            { field: "luggageWeight", comparator: "gt", threshold: 0, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Child pillion - easy to climb on, somewhere to sit securely",
+          match: "all",
+          when: [{ field: "loadScenario", comparator: "eq", threshold: "child-pillion" }],
+          rules: [
+            { field: "seatHeight", comparator: "gt", threshold: 820, delta: -0.5 },
+            { field: "handlebarType", comparator: "eq", threshold: "clip-on", delta: -0.5 },
+          ],
+        },
+      ],
+      notApplicableWhen: [
+        {
+          when: [{ field: "pillionWeight", comparator: "eq", threshold: 0 }],
+          reason: "No pillion in this load scenario",
+        },
+      ],
+    },
+
+    highwayStability: {
+      baseline: 5,
+      clamp: [1, 10],
+      roundTo: 0.5,
+      groups: [
+        {
+          label: "Wheelbase (longer = more stable at speed)",
+          match: "first",
+          rules: [
+            { field: "wheelbase", comparator: "gte", threshold: 1430, delta: 1.5 },
+            { field: "wheelbase", comparator: "gte", threshold: 1400, delta: 1 },
+            { field: "wheelbase", comparator: "gte", threshold: 1370, delta: 0.5 },
+            { field: "wheelbase", comparator: "lt", threshold: 1320, delta: -1 },
+          ],
+        },
+        {
+          label: "Weight (heavier = more planted at speed)",
+          match: "first",
+          rules: [
+            { field: "kerbWeight", comparator: "gte", threshold: 180, delta: 1 },
+            { field: "kerbWeight", comparator: "gte", threshold: 165, delta: 0.5 },
+            { field: "kerbWeight", comparator: "lt", threshold: 145, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Power (enough for confident overtakes)",
+          match: "first",
+          rules: [
+            { field: "power", comparator: "gte", threshold: 35, delta: 1 },
+            { field: "power", comparator: "gte", threshold: 25, delta: 0.5 },
+            { field: "power", comparator: "lt", threshold: 18, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Torque-to-weight (roll-on overtakes without downshifting)",
+          match: "first",
+          rules: [
+            { field: "torqueToWeight", comparator: "gte", threshold: 20, delta: 0.5 },
+            { field: "torqueToWeight", comparator: "lt", threshold: 12, delta: -0.5 },
+          ],
+        },
+        {
+          label: "Rear tyre width",
+          match: "first",
+          rules: [
+            { field: "rearTyreWidth", comparator: "gte", threshold: 150, delta: 0.5 },
+            { field: "rearTyreWidth", comparator: "gte", threshold: 140, delta: 0.25 },
+          ],
+        },
+      ],
+    },
+  },
+});
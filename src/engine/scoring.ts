@@ -14,35 +14,55 @@ import type {
   ScoredMotorcycle,
   Motorcycle,
   PillionMode,
+  ScoringConstraints,
+  ExcludedMotorcycle,
+  RankingResult,
+  AggregationMethod,
+  RelativeScaling,
+  RankingPolicy,
+  CustomFactor,
+  LoadScenarioId,
+  NotApplicableFactors,
 } from "@/types";
 import { DEFAULT_WEIGHTS } from "@/types";
-import { normalizeMotorcycle, getFactorConfidences } from "./normalizer";
+import {
+  normalizeMotorcycleTraced,
+  scoresFromTraces,
+  notApplicableFromTraces,
+  getFactorConfidences,
+} from "./normalizer";
+import type { NormalizationOptions } from "./normalizer";
+import { checkConstraints } from "./constraints";
+import { markDominatedBikes } from "./pareto";
+import { rankByAggregation } from "./aggregation";
+import { applyRelativeScaling } from "./relative";
+import { applyRankingPolicy } from "./ranking";
+import { estimateTotalCostOfOwnership } from "./tco";
+import { getCustomFactorConfidence, getFactorMetadata, isCustomFactorKey } from "./custom";
+
+export interface ScoringOptions extends NormalizationOptions {
+  constraints?: ScoringConstraints; // bikes failing these are excluded before ranking
+  aggregation?: AggregationMethod; // how to rank; defaults to the weighted sum
+  relative?: RelativeScaling; // rescale factors across the compared bikes (absolute if unset)
+  rankingPolicy?: RankingPolicy; // tie bikes closer than a minimum gap (only exact ties if unset)
+}
 
 /**
- * Calculate the weighted final score (0-100)
+ * Calculate the weighted final score (0-100).
+ * Factors that do not apply are left out and the remaining weights renormalized.
  */
 export function calculateFinalScore(
   factorScores: FactorScores,
-  weights: FactorWeights
+  weights: FactorWeights,
+  notApplicable: NotApplicableFactors = {}
 ): number {
-  const factorKeys: FactorKey[] = [
-    "dailyTrafficEase",
-    "brakingSafetyConfidence",
-    "primaryPillionComfort",
-    "highwayStability",
-    "riderComfort",
-    "suspensionCompliance",
-    "funEngagement",
-    "heatManagement",
-    "ownershipPracticality",
-    "longTermSuitability",
-  ];
-
   let weightedSum = 0;
   let totalWeight = 0;
 
-  for (const key of factorKeys) {
+  // Every weighted factor that was scored and applies, custom factors included
+  for (const key of Object.keys(weights) as FactorKey[]) {
     const score = factorScores[key];
+    if (score === undefined || notApplicable[key] !== undefined) continue;
     const weight = weights[key];
     weightedSum += score * weight;
     totalWeight += weight;
@@ -81,25 +101,54 @@ export function normalizeWeights(weights: FactorWeights): FactorWeights {
   return normalized;
 }
 
+/**
+ * Weights with the factors that do not apply set to zero,
+ * so the rest share the whole weight once normalized
+ */
+export function getApplicableWeights(
+  weights: FactorWeights,
+  notApplicable: NotApplicableFactors
+): FactorWeights {
+  const applicable: FactorWeights = { ...weights };
+  for (const key of Object.keys(notApplicable) as FactorKey[]) {
+    if (key in applicable) applicable[key] = 0;
+  }
+  return applicable;
+}
+
+/**
+ * Factors that do not apply to at least one of the bikes, for methods
+ * that must judge every bike on the same factors
+ */
+export function getNotApplicableToAny(bikes: ScoredMotorcycle[]): NotApplicableFactors {
+  return Object.assign({}, ...bikes.map((bike) => bike.notApplicable)) as NotApplicableFactors;
+}
+
 /**
  * Score a single motorcycle
  */
 export function scoreMotorcycle(
   motorcycle: Motorcycle,
   weights: FactorWeights,
-  pillionMode: PillionMode = "primary"
+  pillionMode: PillionMode = "primary",
+  options: ScoringOptions = {}
 ): ScoredMotorcycle {
   // Ensure weights are normalized
   const normalizedWeights = normalizeWeights(weights);
 
-  // Get factor scores from normalization engine
-  const factorScores = normalizeMotorcycle(motorcycle, pillionMode);
+  // Get factor scores (and their derivations) from normalization engine
+  const traces = normalizeMotorcycleTraced(motorcycle, pillionMode, options);
+  const factorScores = scoresFromTraces(traces);
+  const notApplicable = notApplicableFromTraces(traces);
 
-  // Calculate final weighted score
-  const finalScore = calculateFinalScore(factorScores, normalizedWeights);
+  // Calculate final weighted score over the factors that apply
+  const finalScore = calculateFinalScore(factorScores, normalizedWeights, notApplicable);
 
   // Get confidence levels for each factor
   const confidences = getFactorConfidences(motorcycle);
+  for (const key of Object.keys(traces)) {
+    if (isCustomFactorKey(key)) confidences[key] = getCustomFactorConfidence(motorcycle, traces[key]);
+  }
 
   return {
     motorcycle,
@@ -107,24 +156,65 @@ export function scoreMotorcycle(
     finalScore,
     rank: 0, // Will be set during ranking
     confidences,
+    traces,
+    tco: estimateTotalCostOfOwnership(motorcycle, options.tco, options.region),
+    notApplicable,
   };
 }
 
 /**
- * Score and rank multiple motorcycles
+ * Score one motorcycle under each of several load scenarios, in order,
+ * e.g. to see what a pillion and luggage cost it
+ */
+export function scoreUnderLoadScenarios(
+  motorcycle: Motorcycle,
+  weights: FactorWeights,
+  pillionMode: PillionMode,
+  scenarios: LoadScenarioId[],
+  options: ScoringOptions = {}
+): ScoredMotorcycle[] {
+  return scenarios.map((loadScenario) =>
+    scoreMotorcycle(motorcycle, weights, pillionMode, { ...options, loadScenario })
+  );
+}
+
+/**
+ * Score and rank multiple motorcycles.
+ * Bikes that fail a hard constraint are returned separately with the reasons.
+ * Ranked bikes that another ranked bike beats on every factor are marked dominated.
+ * With a ranking policy, bikes within its minimum gap share a rank.
  */
 export function scoreAndRankMotorcycles(
   motorcycles: Motorcycle[],
   weights: FactorWeights,
-  pillionMode: PillionMode = "primary"
-): ScoredMotorcycle[] {
+  pillionMode: PillionMode = "primary",
+  options: ScoringOptions = {}
+): RankingResult {
   // Score all motorcycles
-  const scoredBikes = motorcycles.map((bike) =>
-    scoreMotorcycle(bike, weights, pillionMode)
-  );
+  const candidates: ScoredMotorcycle[] = [];
+  const excluded: ExcludedMotorcycle[] = [];
+
+  for (const bike of motorcycles) {
+    const scored = scoreMotorcycle(bike, weights, pillionMode, options);
+    const violations = options.constraints
+      ? checkConstraints(scored, options.constraints)
+      : [];
+
+    if (violations.length > 0) {
+      excluded.push({ ...scored, violations });
+    } else {
+      candidates.push(scored);
+    }
+  }
+
+  // Constraints are checked on absolute scores; relative mode rescales the bikes that remain
+  const scoredBikes = options.relative
+    ? applyRelativeScaling(candidates, weights, options.relative)
+    : candidates;
 
   // Sort by final score (descending)
   scoredBikes.sort((a, b) => b.finalScore - a.finalScore);
+  excluded.sort((a, b) => b.finalScore - a.finalScore);
 
   // Assign ranks (1-based, handle ties)
   let currentRank = 1;
@@ -135,15 +225,29 @@ export function scoreAndRankMotorcycles(
     scoredBikes[i].rank = currentRank;
   }
 
-  return scoredBikes;
+  // Other methods re-rank the same factor scores; finalScore stays the weighted sum
+  const aggregated =
+    options.aggregation && options.aggregation !== "weighted-sum"
+      ? rankByAggregation(scoredBikes, weights, options.aggregation)
+      : scoredBikes;
+
+  const ranked = options.rankingPolicy
+    ? applyRankingPolicy(aggregated, options.rankingPolicy)
+    : aggregated;
+
+  return { ranked: markDominatedBikes(ranked), excluded };
 }
 
 /**
- * Get the score breakdown as a formatted object
+ * Get the score breakdown as a formatted object.
+ * Custom factors are included when their definitions are passed.
+ * Factors that do not apply carry the reason and no weight; the others'
+ * weights are renormalized to sum to 1.
  */
 export function getScoreBreakdown(
   scoredBike: ScoredMotorcycle,
-  weights: FactorWeights
+  weights: FactorWeights,
+  customFactors: CustomFactor[] = []
 ): Array<{
   factor: FactorKey;
   label: string;
@@ -151,21 +255,11 @@ export function getScoreBreakdown(
   weight: number;
   weightedScore: number;
   confidence: "high" | "medium" | "low";
+  notApplicable?: string;
 }> {
-  const factorLabels: Record<FactorKey, string> = {
-    dailyTrafficEase: "Daily Traffic Ease",
-    brakingSafetyConfidence: "Braking & Safety",
-    primaryPillionComfort: "Pillion Comfort",
-    highwayStability: "Highway Stability",
-    riderComfort: "Rider Comfort",
-    suspensionCompliance: "Suspension Quality",
-    funEngagement: "Fun & Engagement",
-    heatManagement: "Heat Management",
-    ownershipPracticality: "Ownership Practicality",
-    longTermSuitability: "Long-Term Suitability",
-  };
-
-  const normalizedWeights = normalizeWeights(weights);
+  const normalizedWeights = normalizeWeights(
+    getApplicableWeights(weights, scoredBike.notApplicable)
+  );
   const entries: Array<{
     factor: FactorKey;
     label: string;
@@ -173,18 +267,21 @@ export function getScoreBreakdown(
     weight: number;
     weightedScore: number;
     confidence: "high" | "medium" | "low";
+    notApplicable?: string;
   }> = [];
 
-  for (const factor of Object.keys(factorLabels) as FactorKey[]) {
+  for (const { key: factor, label } of getFactorMetadata(customFactors)) {
     const score = scoredBike.factorScores[factor];
-    const weight = normalizedWeights[factor];
+    if (score === undefined) continue;
+    const weight = scoredBike.notApplicable[factor] ? 0 : (normalizedWeights[factor] ?? 0);
     entries.push({
       factor,
-      label: factorLabels[factor],
+      label,
       score,
       weight,
       weightedScore: Math.round(score * weight * 100) / 10, // contribution to final score
       confidence: scoredBike.confidences[factor],
+      notApplicable: scoredBike.notApplicable[factor],
     });
   }
 
@@ -193,11 +290,14 @@ export function getScoreBreakdown(
 }
 
 /**
- * Compare two scored motorcycles and identify key differences
+ * Compare two scored motorcycles and identify key differences.
+ * Custom factors are included when their definitions are passed;
+ * factors that do not apply to either bike are left out.
  */
 export function compareScores(
   bike1: ScoredMotorcycle,
-  bike2: ScoredMotorcycle
+  bike2: ScoredMotorcycle,
+  customFactors: CustomFactor[] = []
 ): Array<{
   factor: FactorKey;
   label: string;
@@ -206,19 +306,6 @@ export function compareScores(
   difference: number;
   winner: "bike1" | "bike2" | "tie";
 }> {
-  const factorLabels: Record<FactorKey, string> = {
-    dailyTrafficEase: "Daily Traffic Ease",
-    brakingSafetyConfidence: "Braking & Safety",
-    primaryPillionComfort: "Pillion Comfort",
-    highwayStability: "Highway Stability",
-    riderComfort: "Rider Comfort",
-    suspensionCompliance: "Suspension Quality",
-    funEngagement: "Fun & Engagement",
-    heatManagement: "Heat Management",
-    ownershipPracticality: "Ownership Practicality",
-    longTermSuitability: "Long-Term Suitability",
-  };
-
   const comparisons: Array<{
     factor: FactorKey;
     label: string;
@@ -228,14 +315,16 @@ export function compareScores(
     winner: "bike1" | "bike2" | "tie";
   }> = [];
 
-  for (const factor of Object.keys(factorLabels) as FactorKey[]) {
+  for (const { key: factor, label } of getFactorMetadata(customFactors)) {
     const score1 = bike1.factorScores[factor];
     const score2 = bike2.factorScores[factor];
+    if (score1 === undefined || score2 === undefined) continue;
+    if (bike1.notApplicable[factor] || bike2.notApplicable[factor]) continue;
     const diff = score1 - score2;
 
     comparisons.push({
       factor,
-      label: factorLabels[factor],
+      label,
       bike1Score: score1,
       bike2Score: score2,
       difference: Math.abs(diff),
@@ -0,0 +1,193 @@
+/**
+ * Motologix - Weight Sensitivity Analysis
+ *
+ * Answers "would the winner change if I cared a bit more about X?".
+ * Each factor weight is varied while the other weights keep their
+ * relative proportions; factor scores don't depend on weights, so the
+ * leader's margin is linear in the varied weight and break-even points
+ * can be solved exactly.
+ */
+
+import type { CustomFactor, FactorKey, FactorWeights, ScoredMotorcycle } from "@/types";
+import { getApplicableWeights, getNotApplicableToAny, normalizeWeights } from "./scoring";
+import { getFactorMetadata } from "./custom";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RankStability = "stable" | "moderate" | "fragile";
+
+export interface FactorSensitivity {
+  factor: FactorKey;
+  label: string;
+  currentWeight: number; // 0-1
+  lowWeight: number; // perturbed down
+  highWeight: number; // perturbed up
+  marginAtLow: number; // leader's lead (0-100 points) at lowWeight
+  marginAtHigh: number; // leader's lead at highWeight
+  breakEvenWeight: number | null; // weight at which the top two swap, if any
+  weightChangeToSwap: number | null; // |breakEvenWeight - currentWeight|
+}
+
+export interface SensitivityReport {
+  leaderId: string;
+  runnerUpId: string;
+  currentMargin: number; // unrounded lead in 0-100 points
+  factors: FactorSensitivity[]; // sorted by swing (largest first)
+  stability: RankStability;
+  closestSwap: FactorSensitivity | null; // factor needing the smallest change to flip
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+// Smallest weight change (absolute) needed to flip the top two
+const STABLE_THRESHOLD = 0.25;
+const MODERATE_THRESHOLD = 0.1;
+
+/**
+ * Leader's margin over the runner-up (0-100 points) when `factor`
+ * has weight `t` and the rest share (1 - t) in their current proportions
+ */
+function marginAt(
+  t: number,
+  factor: FactorKey,
+  leader: ScoredMotorcycle,
+  runnerUp: ScoredMotorcycle,
+  weights: FactorWeights
+): number {
+  const { factorDiff, othersDiff } = splitDifference(factor, leader, runnerUp, weights);
+  return (t * factorDiff + (1 - t) * othersDiff) * 10;
+}
+
+/**
+ * Score difference on the factor itself, and weighted average difference on the rest
+ */
+function splitDifference(
+  factor: FactorKey,
+  leader: ScoredMotorcycle,
+  runnerUp: ScoredMotorcycle,
+  weights: FactorWeights
+): { factorDiff: number; othersDiff: number } {
+  let othersWeighted = 0;
+  let othersTotal = 0;
+
+  for (const key of Object.keys(leader.factorScores) as FactorKey[]) {
+    if (key === factor) continue;
+    const diff = leader.factorScores[key] - runnerUp.factorScores[key];
+    othersWeighted += diff * (weights[key] ?? 0);
+    othersTotal += weights[key] ?? 0;
+  }
+
+  return {
+    factorDiff: leader.factorScores[factor] - runnerUp.factorScores[factor],
+    othersDiff: othersTotal > 0 ? othersWeighted / othersTotal : 0,
+  };
+}
+
+/**
+ * Weighted score (0-100) before rounding, over the factors that apply to the bike
+ */
+function unroundedScore(bike: ScoredMotorcycle, weights: FactorWeights): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const key of Object.keys(weights) as FactorKey[]) {
+    const score = bike.factorScores[key];
+    if (score === undefined || bike.notApplicable[key] !== undefined) continue;
+    weightedSum += score * weights[key];
+    totalWeight += weights[key];
+  }
+  return totalWeight > 0 ? (weightedSum / totalWeight) * 10 : 0;
+}
+
+/**
+ * Perturb each factor weight by ±perturbation and find the break-even
+ * weight at which the top two bikes swap. The top two are picked by
+ * unrounded weighted score, whatever order `rankedBikes` is in.
+ * Returns null with fewer than two bikes, or when the leader has no lead
+ * over the runner-up on the factors both are scored on.
+ * Pass the custom factor definitions to include custom factors.
+ */
+export function analyzeWeightSensitivity(
+  rankedBikes: ScoredMotorcycle[],
+  weights: FactorWeights,
+  perturbation: number = 0.1,
+  customFactors: CustomFactor[] = []
+): SensitivityReport | null {
+  if (rankedBikes.length < 2) return null;
+
+  // Ranks may be tied or reordered by the ranking policy; the margin needs the real top two
+  const [leader, runnerUp] = [...rankedBikes].sort(
+    (a, b) => unroundedScore(b, weights) - unroundedScore(a, weights)
+  );
+  // Factors left out of either bike's score have no weight to vary
+  const notApplicable = getNotApplicableToAny([leader, runnerUp]);
+  const normalized = normalizeWeights(getApplicableWeights(weights, notApplicable));
+  const metadata = getFactorMetadata(customFactors).filter(
+    (meta) => leader.factorScores[meta.key] !== undefined && notApplicable[meta.key] === undefined
+  );
+  const currentMargin =
+    metadata.reduce(
+      (sum, meta) =>
+        sum +
+        (leader.factorScores[meta.key] - runnerUp.factorScores[meta.key]) * (normalized[meta.key] ?? 0),
+      0
+    ) * 10;
+  if (currentMargin <= 0) return null;
+
+  const factors: FactorSensitivity[] = metadata.map((meta) => {
+    const currentWeight = normalized[meta.key] ?? 0;
+    const lowWeight = Math.max(0, currentWeight - perturbation);
+    const highWeight = Math.min(1, currentWeight + perturbation);
+    const { factorDiff, othersDiff } = splitDifference(meta.key, leader, runnerUp, normalized);
+
+    // margin(t) = t * factorDiff + (1 - t) * othersDiff = 0
+    const slope = factorDiff - othersDiff;
+    let breakEvenWeight: number | null = null;
+    if (slope !== 0) {
+      const t = -othersDiff / slope;
+      if (t >= 0 && t <= 1) breakEvenWeight = t;
+    }
+
+    return {
+      factor: meta.key,
+      label: meta.label,
+      currentWeight,
+      lowWeight,
+      highWeight,
+      marginAtLow: marginAt(lowWeight, meta.key, leader, runnerUp, normalized),
+      marginAtHigh: marginAt(highWeight, meta.key, leader, runnerUp, normalized),
+      breakEvenWeight,
+      weightChangeToSwap:
+        breakEvenWeight !== null ? Math.abs(breakEvenWeight - currentWeight) : null,
+    };
+  });
+
+  // Widest swing first (tornado order)
+  factors.sort(
+    (a, b) =>
+      Math.abs(b.marginAtHigh - b.marginAtLow) - Math.abs(a.marginAtHigh - a.marginAtLow)
+  );
+
+  const closestSwap =
+    factors
+      .filter((f) => f.weightChangeToSwap !== null)
+      .sort((a, b) => a.weightChangeToSwap! - b.weightChangeToSwap!)[0] ?? null;
+
+  let stability: RankStability = "stable";
+  if (closestSwap) {
+    if (closestSwap.weightChangeToSwap! < MODERATE_THRESHOLD) stability = "fragile";
+    else if (closestSwap.weightChangeToSwap! < STABLE_THRESHOLD) stability = "moderate";
+  }
+
+  return {
+    leaderId: leader.motorcycle.id,
+    runnerUpId: runnerUp.motorcycle.id,
+    currentMargin,
+    factors,
+    stability,
+    closestSwap,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Motologix - Service Network
+ *
+ * Brand service data by region: how many authorised service centres a
+ * brand has in the owner's city, how quickly parts arrive there and what
+ * a scheduled service costs. A brand with a dense metro network can be a
+ * long ride from the nearest workshop in a smaller town, so ownership is
+ * judged where the owner actually lives.
+ *
+ * Counts are typical figures for a city of each tier, with overrides for
+ * cities where a brand is notably stronger. Like the cost estimates they
+ * are deliberately rough; they exist to compare brands, not to list dealers.
+ */
+
+import type { CityTier, PartsTier, ServiceNetworkInfo, ServiceRegion } from "@/types";
+
+// ============================================
+// REGIONS
+// ============================================
+
+export const SERVICE_REGIONS: ServiceRegion[] = [
+  { id: "bengaluru", name: "Bengaluru", tier: 1, pinPrefixes: ["560", "561", "562"] },
+  { id: "mumbai", name: "Mumbai", tier: 1, pinPrefixes: ["400", "401"] },
+  { id: "delhi", name: "Delhi NCR", tier: 1, pinPrefixes: ["110", "121", "122", "201"] },
+  { id: "chennai", name: "Chennai", tier: 1, pinPrefixes: ["600", "601", "603"] },
+  { id: "hyderabad", name: "Hyderabad", tier: 1, pinPrefixes: ["500", "501", "502"] },
+  { id: "pune", name: "Pune", tier: 1, pinPrefixes: ["411", "412"] },
+  { id: "kolkata", name: "Kolkata", tier: 1, pinPrefixes: ["700", "711"] },
+  { id: "ahmedabad", name: "Ahmedabad", tier: 1, pinPrefixes: ["380", "382"] },
+  { id: "jaipur", name: "Jaipur", tier: 2, pinPrefixes: ["302", "303"] },
+  { id: "lucknow", name: "Lucknow", tier: 2, pinPrefixes: ["226", "227"] },
+  { id: "kochi", name: "Kochi", tier: 2, pinPrefixes: ["682", "683"] },
+  { id: "coimbatore", name: "Coimbatore", tier: 2, pinPrefixes: ["641"] },
+  { id: "indore", name: "Indore", tier: 2, pinPrefixes: ["452", "453"] },
+  { id: "chandigarh", name: "Chandigarh", tier: 2, pinPrefixes: ["160", "140"] },
+  { id: "nagpur", name: "Nagpur", tier: 2, pinPrefixes: ["440", "441"] },
+  { id: "bhubaneswar", name: "Bhubaneswar", tier: 2, pinPrefixes: ["751", "752"] },
+  { id: "tier-2", name: "Other mid-sized city", tier: 2, pinPrefixes: [] },
+  { id: "tier-3", name: "Smaller town", tier: 3, pinPrefixes: [] },
+];
+
+// Used when the owner has not picked a city
+const TYPICAL_REGION_ID = "tier-2";
+
+// Metro workshops charge more labour; small-town workshops less
+const SERVICE_COST_BY_TIER: Record<CityTier, number> = { 1: 1.15, 2: 1, 3: 0.9 };
+
+/**
+ * Region by id, or undefined if there is no such region
+ */
+export function getServiceRegion(id: string): ServiceRegion | undefined {
+  return SERVICE_REGIONS.find((region) => region.id === id);
+}
+
+/**
+ * Region covering a six-digit PIN code, or undefined if it is not a listed city
+ */
+export function findServiceRegionByPin(pin: string): ServiceRegion | undefined {
+  const digits = pin.trim();
+  if (!/^[1-9]\d{5}$/.test(digits)) return undefined;
+  const prefix = digits.slice(0, 3);
+  return SERVICE_REGIONS.find((region) => region.pinPrefixes.includes(prefix));
+}
+
+// ============================================
+// BRANDS
+// ============================================
+
+interface BrandServiceEntry {
+  brands: string[]; // lower-case names as discovery reports them
+  centresByTier: [metro: number, city: number, town: number];
+  centresByCity?: Record<string, number>; // region id -> count, where the brand is notably stronger
+  partsByTier: [metro: PartsTier, city: PartsTier, town: PartsTier];
+  serviceCost: number; // one scheduled service for a sub-200cc bike in a tier-2 city, INR
+}
+
+const BRAND_SERVICE: BrandServiceEntry[] = [
+  {
+    brands: ["hero"],
+    centresByTier: [40, 18, 6],
+    centresByCity: { delhi: 55, lucknow: 24, jaipur: 22 },
+    partsByTier: [1, 1, 1],
+    serviceCost: 1500,
+  },
+  {
+    brands: ["honda"],
+    centresByTier: [35, 15, 5],
+    centresByCity: { delhi: 45, bengaluru: 40 },
+    partsByTier: [1, 1, 1],
+    serviceCost: 1500,
+  },
+  {
+    brands: ["tvs"],
+    centresByTier: [30, 14, 5],
+    centresByCity: { chennai: 45, bengaluru: 38, coimbatore: 22 },
+    partsByTier: [1, 1, 1],
+    serviceCost: 1500,
+  },
+  {
+    brands: ["bajaj"],
+    centresByTier: [30, 14, 5],
+    centresByCity: { pune: 45 },
+    partsByTier: [1, 1, 1],
+    serviceCost: 1500,
+  },
+  {
+    brands: ["royal enfield"],
+    centresByTier: [20, 9, 2],
+    centresByCity: { chennai: 30, bengaluru: 26, kochi: 14 },
+    partsByTier: [1, 1, 2],
+    serviceCost: 2200,
+  },
+  {
+    brands: ["suzuki"],
+    centresByTier: [14, 6, 1],
+    partsByTier: [1, 2, 2],
+    serviceCost: 2200,
+  },
+  {
+    brands: ["yamaha"],
+    centresByTier: [15, 6, 2],
+    centresByCity: { chennai: 22 },
+    partsByTier: [1, 2, 2],
+    serviceCost: 2200,
+  },
+  {
+    brands: ["jawa", "yezdi"],
+    centresByTier: [8, 3, 1],
+    partsByTier: [2, 2, 3],
+    serviceCost: 2200,
+  },
+  {
+    brands: ["ktm"],
+    centresByTier: [12, 5, 1],
+    centresByCity: { pune: 16, bengaluru: 15 },
+    partsByTier: [1, 2, 3],
+    serviceCost: 3000,
+  },
+  {
+    brands: ["husqvarna"],
+    centresByTier: [5, 2, 0],
+    centresByCity: { pune: 8 },
+    partsByTier: [2, 2, 3],
+    serviceCost: 3000,
+  },
+  {
+    brands: ["kawasaki"],
+    centresByTier: [3, 1, 0],
+    partsByTier: [2, 3, 3],
+    serviceCost: 5000,
+  },
+  {
+    brands: ["benelli", "keeway"],
+    centresByTier: [2, 1, 0],
+    partsByTier: [2, 3, 3],
+    serviceCost: 5000,
+  },
+  {
+    brands: ["triumph"],
+    centresByTier: [3, 1, 0],
+    centresByCity: { pune: 5 },
+    partsByTier: [2, 3, 3],
+    serviceCost: 5000,
+  },
+  // Electric-only brands, at the rate a petrol service would cost (electric bikes are discounted in tco.ts)
+  {
+    brands: ["ather"],
+    centresByTier: [12, 5, 1],
+    centresByCity: { bengaluru: 22, chennai: 16 },
+    partsByTier: [1, 2, 3],
+    serviceCost: 2000,
+  },
+  {
+    brands: ["ola", "ola electric"],
+    centresByTier: [10, 4, 1],
+    partsByTier: [2, 2, 3],
+    serviceCost: 2000,
+  },
+  {
+    brands: ["revolt"],
+    centresByTier: [4, 2, 0],
+    partsByTier: [2, 3, 3],
+    serviceCost: 1800,
+  },
+  {
+    brands: ["ultraviolette"],
+    centresByTier: [2, 1, 0],
+    centresByCity: { bengaluru: 4 },
+    partsByTier: [2, 3, 3],
+    serviceCost: 3000,
+  },
+  {
+    brands: ["bmw", "harley-davidson", "harley davidson", "ducati"],
+    centresByTier: [2, 1, 0],
+    partsByTier: [2, 3, 3],
+    serviceCost: 5000,
+  },
+];
+
+// Brands the dataset does not know: assume a thin network
+const UNKNOWN_BRAND: Omit<BrandServiceEntry, "brands"> = {
+  centresByTier: [4, 2, 0],
+  partsByTier: [2, 3, 3],
+  serviceCost: 2500,
+};
+
+/**
+ * Dataset entry for a brand, matched on the whole name or its first words
+ * ("Royal Enfield", "TVS Motor", "Harley-Davidson")
+ */
+function findBrandEntry(brand: string): BrandServiceEntry | undefined {
+  const name = brand.trim().toLowerCase();
+  return BRAND_SERVICE.find((entry) =>
+    entry.brands.some((b) => name === b || name.startsWith(`${b} `))
+  );
+}
+
+/**
+ * Whether the dataset has figures for a brand (otherwise they are fallbacks)
+ */
+export function hasServiceNetworkData(brand: string): boolean {
+  return findBrandEntry(brand) !== undefined;
+}
+
+/**
+ * A brand's service network in a region; the typical tier-2 city when none is given
+ */
+export function getServiceNetwork(brand: string, region?: ServiceRegion): ServiceNetworkInfo {
+  const entry = findBrandEntry(brand);
+  const data = entry ?? UNKNOWN_BRAND;
+  const where = region ?? getServiceRegion(TYPICAL_REGION_ID)!;
+
+  return {
+    brand,
+    region: where,
+    serviceCentres: data.centresByCity?.[where.id] ?? data.centresByTier[where.tier - 1],
+    partsTier: data.partsByTier[where.tier - 1],
+    serviceCost: Math.round(data.serviceCost * SERVICE_COST_BY_TIER[where.tier]),
+    known: entry !== undefined,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Motologix - Total Cost of Ownership
+ *
+ * Estimates what a bike costs over the ownership horizon: purchase price,
+ * fuel from mileage (or home charging from energy use) and the rider's
+ * monthly distance, scheduled service,
+ * tyre replacements and insurance. All figures are INR and deliberately
+ * rough; they exist to compare bikes, not to quote them.
+ */
+
+import type { Motorcycle, ServiceRegion, TcoEstimate, TcoSettings } from "@/types";
+import { DEFAULT_TCO_SETTINGS } from "@/types";
+import { KW_TO_BHP, getEnergyUse, isElectric } from "./electric";
+import { getRealWorldMileage } from "./fuel";
+import { getServiceNetwork } from "./service-network";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SERVICE_INTERVAL_KM = 5000; // or once a year, whichever comes first
+// Electric bikes skip oil, filters and valve checks; a service is mostly inspection
+const ELECTRIC_SERVICE_FACTOR = 0.6;
+
+// Tyres: price grows roughly with the square of the section width (radials on wide tyres)
+const TYRE_PRICE_PER_MM2 = 0.35;
+const FRONT_TYRE_LIFE_KM = 30000;
+const REAR_TYRE_LIFE_KM = 20000;
+
+// IRDAI third-party premiums by engine size
+const THIRD_PARTY_PREMIUM_BY_CC: Array<[maxCC: number, premium: number]> = [
+  [75, 538],
+  [150, 714],
+  [350, 1366],
+  [Infinity, 2804],
+];
+// ...and for electric bikes, by motor power in kW
+const THIRD_PARTY_PREMIUM_BY_KW: Array<[maxKW: number, premium: number]> = [
+  [3, 457],
+  [7, 607],
+  [16, 1161],
+  [Infinity, 2383],
+];
+const OWN_DAMAGE_RATE = 0.0175; // of the insured declared value
+// Insured declared value: share of the price written off by the bike's age in years
+const IDV_DEPRECIATION = [0.05, 0.15, 0.2, 0.3, 0.4, 0.5];
+
+// ============================================
+// ESTIMATES
+// ============================================
+
+function lookupBySize(table: Array<[number, number]>, size: number): number {
+  return table.find(([max]) => size <= max)![1];
+}
+
+/**
+ * Cost of one scheduled service: the brand's rate in the owner's region,
+ * scaled up for bigger engines and down for electric bikes
+ */
+export function estimateServiceCost(bike: Motorcycle, region?: ServiceRegion): number {
+  const base = getServiceNetwork(bike.brand, region).serviceCost;
+  if (isElectric(bike)) return Math.round(base * ELECTRIC_SERVICE_FACTOR);
+  const sizeFactor = bike.engineCC > 450 ? 1.6 : bike.engineCC > 200 ? 1.25 : 1;
+  return Math.round(base * sizeFactor);
+}
+
+function tyrePrice(width: number): number {
+  return TYRE_PRICE_PER_MM2 * width * width;
+}
+
+function insuranceForYear(bike: Motorcycle, age: number): number {
+  // Motor power in kW: the stated figure, or the bhp figure converted
+  const thirdParty = isElectric(bike)
+    ? lookupBySize(THIRD_PARTY_PREMIUM_BY_KW, bike.motorPeakPower ?? bike.power / KW_TO_BHP)
+    : lookupBySize(THIRD_PARTY_PREMIUM_BY_CC, bike.engineCC);
+  if (!bike.exShowroomPrice) return thirdParty;
+
+  const depreciation = IDV_DEPRECIATION[Math.min(age, IDV_DEPRECIATION.length - 1)];
+  return thirdParty + bike.exShowroomPrice * (1 - depreciation) * OWN_DAMAGE_RATE;
+}
+
+/**
+ * Estimate the total cost of ownership over the horizon in the settings,
+ * at service rates for the owner's region
+ */
+export function estimateTotalCostOfOwnership(
+  bike: Motorcycle,
+  settings: TcoSettings = DEFAULT_TCO_SETTINGS,
+  region?: ServiceRegion
+): TcoEstimate {
+  const { horizonYears, monthlyKm, fuelPricePerLitre, electricityPricePerKwh } = settings;
+  const totalKm = monthlyKm * 12 * horizonYears;
+  const electric = isElectric(bike);
+  const mileage = electric ? null : getRealWorldMileage(bike);
+  const energy = electric ? getEnergyUse(bike) : null;
+
+  const fuel = energy
+    ? ((totalKm * energy.whPerKm) / 1000) * electricityPricePerKwh
+    : (totalKm / mileage!.kmpl) * fuelPricePerLitre;
+  const services = Math.max(horizonYears, Math.floor(totalKm / SERVICE_INTERVAL_KM));
+  const service = services * estimateServiceCost(bike, region);
+  // The bike comes with tyres; only replacements count
+  const tyres =
+    Math.floor(totalKm / FRONT_TYRE_LIFE_KM) * tyrePrice(bike.frontTyreWidth) +
+    Math.floor(totalKm / REAR_TYRE_LIFE_KM) * tyrePrice(bike.rearTyreWidth);
+
+  let insurance = 0;
+  for (let age = 0; age < horizonYears; age++) {
+    insurance += insuranceForYear(bike, age);
+  }
+
+  const purchase = bike.exShowroomPrice || null;
+  const runningCost = Math.round(fuel + service + tyres + insurance);
+  const total = purchase !== null ? purchase + runningCost : null;
+
+  return {
+    horizonYears,
+    totalKm,
+    mileageKmpl: mileage?.kmpl ?? null,
+    energyWhPerKm: energy?.whPerKm ?? null,
+    mileageSource: (energy ?? mileage)!.source,
+    purchase,
+    fuel: Math.round(fuel),
+    service: Math.round(service),
+    tyres: Math.round(tyres),
+    insurance: Math.round(insurance),
+    runningCost,
+    total,
+    perKm: total !== null && totalKm > 0 ? Math.round((total / totalKm) * 100) / 100 : null,
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Motologix - Score Uncertainty (Monte Carlo)
+ *
+ * Discovered specs are estimates: a "low" confidence bike or an
+ * auto-filled field could easily be off by 10-20%. This samples spec
+ * values around the discovered numbers, re-runs the full scoring and
+ * ranking for each sample, and reports a score interval per bike plus
+ * how often each bike came out on top.
+ */
+
+import type { FactorWeights, Motorcycle, PillionMode } from "@/types";
+import { scoreAndRankMotorcycles } from "./scoring";
+import type { ScoringOptions } from "./scoring";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ScoreInterval {
+  low: number | null; // 5th percentile, in the ranking method's units; null for rank-only methods
+  median: number | null;
+  high: number | null; // 95th percentile
+  winProbability: number; // 0-1, share of samples where the bike ranked #1
+}
+
+export interface UncertaintyOptions extends ScoringOptions {
+  samples?: number;
+  seed?: number; // same seed → same intervals, so the UI doesn't jitter
+}
+
+// ============================================
+// SAMPLING
+// ============================================
+
+type NumericSpec =
+  | "engineCC"
+  | "power"
+  | "torque"
+  | "kerbWeight"
+  | "seatHeight"
+  | "wheelbase"
+  | "groundClearance"
+  | "fuelCapacity"
+  | "batteryCapacity"
+  | "certifiedRange"
+  | "realRange"
+  | "chargingTime"
+  | "frontTyreWidth"
+  | "rearTyreWidth"
+  | "rearSuspensionTravel"
+  | "exShowroomPrice"
+  | "fuelEfficiency"
+  | "heatManagementRating";
+
+// Categorical specs (brakes, ABS, suspension type) are kept as discovered
+const SAMPLED_SPECS: NumericSpec[] = [
+  "engineCC",
+  "power",
+  "torque",
+  "kerbWeight",
+  "seatHeight",
+  "wheelbase",
+  "groundClearance",
+  "fuelCapacity",
+  "batteryCapacity",
+  "certifiedRange",
+  "realRange",
+  "chargingTime",
+  "frontTyreWidth",
+  "rearTyreWidth",
+  "rearSuspensionTravel",
+  "exShowroomPrice",
+  "fuelEfficiency",
+  "heatManagementRating",
+];
+
+// Relative standard deviation of a spec, by how much we trust it
+const SPREAD_BY_CONFIDENCE: Record<Motorcycle["confidence"], number> = {
+  high: 0.02,
+  medium: 0.05,
+  low: 0.1,
+};
+const AUTO_FILLED_SPREAD = 0.2;
+
+const DEFAULT_SAMPLES = 400;
+const DEFAULT_SEED = 42;
+
+/**
+ * Small seeded PRNG (mulberry32) returning values in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  const u = 1 - random(); // avoid log(0)
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Draw one plausible variant of the bike's specs
+ */
+function sampleMotorcycle(bike: Motorcycle, random: () => number): Motorcycle {
+  const sampled: Motorcycle = { ...bike };
+  const autoFilled = new Set(bike.autoFilledFields ?? []);
+
+  for (const spec of SAMPLED_SPECS) {
+    const value = bike[spec];
+    if (value === undefined) continue;
+
+    const spread = autoFilled.has(spec) ? AUTO_FILLED_SPREAD : SPREAD_BY_CONFIDENCE[bike.confidence];
+    const drawn = Math.max(0, value * (1 + spread * gaussian(random)));
+    sampled[spec] = spec === "heatManagementRating" ? Math.min(10, Math.max(1, drawn)) : drawn;
+  }
+
+  return sampled;
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+// Samples scored between yields in the async runner, so the page stays responsive
+const SAMPLES_PER_CHUNK = 25;
+
+interface Simulation {
+  runs: number;
+  sample: () => void;
+  intervals: () => Record<string, ScoreInterval>;
+}
+
+/**
+ * Set up a simulation: each sample scores and ranks one draw of specs
+ * exactly as the comparison does (relative scaling, aggregation method,
+ * ranking policy), and records the score the results show for each bike.
+ * Bikes sharing rank #1 share the win.
+ */
+function createSimulation(
+  motorcycles: Motorcycle[],
+  weights: FactorWeights,
+  pillionMode: PillionMode,
+  options: UncertaintyOptions
+): Simulation {
+  const { samples = DEFAULT_SAMPLES, seed = DEFAULT_SEED, ...rest } = options;
+  // Constraints already picked the bikes; a sample shouldn't drop one
+  const scoringOptions: ScoringOptions = { ...rest, constraints: undefined };
+  const random = createRandom(seed);
+  const scores: Record<string, number[]> = {};
+  const wins: Record<string, number> = {};
+  for (const bike of motorcycles) {
+    scores[bike.id] = [];
+    wins[bike.id] = 0;
+  }
+
+  const runs = Math.max(1, Math.round(samples));
+
+  const sample = () => {
+    const sampled = motorcycles.map((bike) => sampleMotorcycle(bike, random));
+    const { ranked } = scoreAndRankMotorcycles(sampled, weights, pillionMode, scoringOptions);
+    const leaders = ranked.filter((scored) => scored.rank === 1).length;
+
+    for (const scored of ranked) {
+      const id = scored.motorcycle.id;
+      // Rank-only methods (lexicographic) have no score to spread
+      const score = scored.aggregate ? scored.aggregate.score : scored.finalScore;
+      if (score !== null) scores[id].push(score);
+      if (scored.rank === 1) wins[id] += 1 / leaders;
+    }
+  };
+
+  const intervals = () => {
+    const result: Record<string, ScoreInterval> = {};
+    for (const bike of motorcycles) {
+      const sorted = [...scores[bike.id]].sort((a, b) => a - b);
+      result[bike.id] = {
+        low: sorted.length > 0 ? percentile(sorted, 0.05) : null,
+        median: sorted.length > 0 ? percentile(sorted, 0.5) : null,
+        high: sorted.length > 0 ? percentile(sorted, 0.95) : null,
+        winProbability: wins[bike.id] / runs,
+      };
+    }
+    return result;
+  };
+
+  return { runs, sample, intervals };
+}
+
+/**
+ * Run the scoring many times with sampled specs.
+ * Returns a score interval per motorcycle id, in the units of the active
+ * aggregation method.
+ */
+export function simulateScoreUncertainty(
+  motorcycles: Motorcycle[],
+  weights: FactorWeights,
+  pillionMode: PillionMode = "primary",
+  options: UncertaintyOptions = {}
+): Record<string, ScoreInterval> {
+  const simulation = createSimulation(motorcycles, weights, pillionMode, options);
+  for (let i = 0; i < simulation.runs; i++) simulation.sample();
+  return simulation.intervals();
+}
+
+/**
+ * Same as simulateScoreUncertainty, but yields to the event loop between
+ * chunks of samples. Resolves to null if the signal aborts first.
+ */
+export async function simulateScoreUncertaintyAsync(
+  motorcycles: Motorcycle[],
+  weights: FactorWeights,
+  pillionMode: PillionMode = "primary",
+  options: UncertaintyOptions = {},
+  signal?: AbortSignal
+): Promise<Record<string, ScoreInterval> | null> {
+  const simulation = createSimulation(motorcycles, weights, pillionMode, options);
+  for (let i = 0; i < simulation.runs; i++) {
+    if (i % SAMPLES_PER_CHUNK === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (signal?.aborted) return null;
+    }
+    simulation.sample();
+  }
+  return simulation.intervals();
+}
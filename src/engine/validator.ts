@@ -6,12 +6,16 @@
  */
 
 import type {
+  CoolingType,
   Motorcycle,
   FactorWeights,
   ScoredMotorcycle,
   FactorScores,
 } from "@/types";
 import { DEFAULT_WEIGHTS } from "@/types";
+import { KW_TO_BHP, isElectric } from "./electric";
+import { estimateMileageFromEngine } from "./fuel";
+import { isVehicleClass } from "./vehicle-classes";
 
 // ============================================
 // VALIDATION RESULT TYPES
@@ -39,6 +43,17 @@ export interface ValidationError {
 // MOTORCYCLE VALIDATION
 // ============================================
 
+const COOLING_TYPES: CoolingType[] = ["air", "air-oil", "liquid"];
+
+// Torque per litre of displacement outside this band is likely a unit or parsing mistake
+const MIN_TORQUE_PER_LITRE = 50;
+const MAX_TORQUE_PER_LITRE = 140;
+const TYPICAL_TORQUE_PER_LITRE = 90;
+
+// Real-world and certified range per kWh outside this band is likely a unit or parsing mistake
+const MIN_KM_PER_KWH = 8;
+const MAX_KM_PER_KWH = 60;
+
 /**
  * Validate motorcycle data completeness and sanity
  */
@@ -54,10 +69,11 @@ export function validateMotorcycle(bike: Partial<Motorcycle>): ValidationResult
     errors.push({ code: "MISSING_MODEL", message: "Model is required", field: "model" });
   }
 
-  // Core specs validation
-  if (!bike.engineCC || bike.engineCC <= 0) {
+  // Core specs validation (electric bikes have no engine displacement)
+  const electric = isElectric(bike);
+  if (!electric && (!bike.engineCC || bike.engineCC <= 0)) {
     errors.push({ code: "INVALID_ENGINE", message: "Valid engine CC is required", field: "engineCC" });
-  } else if (bike.engineCC > 2000) {
+  } else if (bike.engineCC && bike.engineCC > 2000) {
     warnings.push({ code: "LARGE_ENGINE", message: "Engine CC seems unusually large", field: "engineCC" });
   }
 
@@ -69,6 +85,13 @@ export function validateMotorcycle(bike: Partial<Motorcycle>): ValidationResult
 
   if (!bike.torque || bike.torque <= 0) {
     warnings.push({ code: "MISSING_TORQUE", message: "Torque data is missing", field: "torque" });
+  } else if (bike.engineCC && bike.engineCC > 0) {
+    // Naturally aspirated street engines make roughly 70-120 Nm per litre
+    const perLitre = (bike.torque / bike.engineCC) * 1000;
+    if (perLitre < MIN_TORQUE_PER_LITRE || perLitre > MAX_TORQUE_PER_LITRE) {
+      const typical = Math.round((bike.engineCC / 1000) * TYPICAL_TORQUE_PER_LITRE);
+      warnings.push({ code: "UNUSUAL_TORQUE", message: `Torque of ${bike.torque} Nm is implausible for a ${bike.engineCC}cc engine (typically ~${typical} Nm)`, field: "torque" });
+    }
   }
 
   if (!bike.kerbWeight || bike.kerbWeight <= 0) {
@@ -77,6 +100,72 @@ export function validateMotorcycle(bike: Partial<Motorcycle>): ValidationResult
     warnings.push({ code: "UNUSUAL_WEIGHT", message: "Kerb weight seems unusual", field: "kerbWeight" });
   }
 
+  // Electric powertrain validation
+  if (electric) {
+    if (!bike.batteryCapacity || bike.batteryCapacity <= 0) {
+      warnings.push({ code: "MISSING_BATTERY", message: "Battery capacity is missing", field: "batteryCapacity" });
+    } else if (bike.batteryCapacity < 1 || bike.batteryCapacity > 30) {
+      warnings.push({ code: "UNUSUAL_BATTERY", message: `Battery of ${bike.batteryCapacity} kWh seems unusual`, field: "batteryCapacity" });
+    }
+
+    if (!bike.realRange && !bike.certifiedRange) {
+      warnings.push({ code: "MISSING_RANGE", message: "Range is missing, estimated from battery size", field: "realRange" });
+    }
+    if (bike.realRange && bike.certifiedRange && bike.realRange > bike.certifiedRange) {
+      warnings.push({ code: "REAL_RANGE_ABOVE_CERTIFIED", message: `Real-world range (${bike.realRange} km) is above the certified range (${bike.certifiedRange} km)`, field: "realRange" });
+    }
+    for (const field of ["realRange", "certifiedRange"] as const) {
+      const range = bike[field];
+      if (range && bike.batteryCapacity && bike.batteryCapacity > 0) {
+        const perKwh = range / bike.batteryCapacity;
+        if (perKwh < MIN_KM_PER_KWH || perKwh > MAX_KM_PER_KWH) {
+          warnings.push({ code: "UNUSUAL_RANGE", message: `${range} km from ${bike.batteryCapacity} kWh is not plausible`, field });
+        }
+      }
+    }
+
+    if (bike.chargingTime !== undefined && (bike.chargingTime < 0.5 || bike.chargingTime > 15)) {
+      warnings.push({ code: "UNUSUAL_CHARGING_TIME", message: `Charging time of ${bike.chargingTime} h seems unusual`, field: "chargingTime" });
+    }
+
+    if (bike.motorPeakPower && bike.power) {
+      const statedBhp = bike.motorPeakPower * KW_TO_BHP;
+      if (Math.abs(bike.power - statedBhp) > statedBhp * 0.15) {
+        warnings.push({ code: "MOTOR_POWER_MISMATCH", message: `Power of ${bike.power} bhp doesn't match the motor's ${bike.motorPeakPower} kW peak (~${Math.round(statedBhp)} bhp)`, field: "power" });
+      }
+    }
+  }
+
+  // Vehicle class picks the class's rule overrides; without one the default street-bike rules apply
+  if (!bike.vehicleClass) {
+    warnings.push({ code: "MISSING_VEHICLE_CLASS", message: "Vehicle class is missing, scored as a street bike", field: "vehicleClass" });
+  } else if (!isVehicleClass(bike.vehicleClass)) {
+    warnings.push({ code: "INVALID_VEHICLE_CLASS", message: `Vehicle class "${bike.vehicleClass}" is not recognised, scored as a street bike`, field: "vehicleClass" });
+  }
+
+  // Engine character (optional, but implausible values would skew heat, traffic and fun scoring)
+  if (bike.coolingType && !COOLING_TYPES.includes(bike.coolingType)) {
+    warnings.push({ code: "INVALID_COOLING_TYPE", message: `Cooling type "${bike.coolingType}" is not recognised`, field: "coolingType" });
+  }
+
+  if (bike.cylinders !== undefined) {
+    if (!Number.isInteger(bike.cylinders) || bike.cylinders < 1 || bike.cylinders > 6) {
+      warnings.push({ code: "INVALID_CYLINDERS", message: `Cylinder count of ${bike.cylinders} is not plausible`, field: "cylinders" });
+    } else if (bike.engineCC && bike.engineCC / bike.cylinders > 700) {
+      warnings.push({ code: "UNUSUAL_CYLINDERS", message: `${bike.cylinders} cylinder(s) for ${bike.engineCC}cc is unusually large per cylinder`, field: "cylinders" });
+    }
+  }
+
+  for (const field of ["peakPowerRpm", "peakTorqueRpm"] as const) {
+    const rpm = bike[field];
+    if (rpm !== undefined && (rpm < 2000 || rpm > 16000)) {
+      warnings.push({ code: "UNUSUAL_PEAK_RPM", message: `Peak at ${rpm} rpm is not plausible`, field });
+    }
+  }
+  if (bike.peakPowerRpm && bike.peakTorqueRpm && bike.peakTorqueRpm > bike.peakPowerRpm) {
+    warnings.push({ code: "TORQUE_PEAK_ABOVE_POWER_PEAK", message: `Peak torque (${bike.peakTorqueRpm} rpm) should come lower in the rev range than peak power (${bike.peakPowerRpm} rpm)`, field: "peakTorqueRpm" });
+  }
+
   // Dimensions validation
   if (!bike.seatHeight || bike.seatHeight <= 0) {
     warnings.push({ code: "MISSING_SEAT_HEIGHT", message: "Seat height is missing", field: "seatHeight" });
@@ -111,6 +200,21 @@ export function validateMotorcycle(bike: Partial<Motorcycle>): ValidationResult
     warnings.push({ code: "MISSING_REAR_TYRE", message: "Rear tyre width is missing", field: "rearTyreWidth" });
   }
 
+  // Fuel efficiency plausibility (optional; estimated from engine size when missing)
+  if (bike.fuelEfficiency !== undefined) {
+    if (bike.fuelEfficiency <= 0 || bike.fuelEfficiency > 120) {
+      warnings.push({ code: "INVALID_FUEL_EFFICIENCY", message: `Fuel efficiency of ${bike.fuelEfficiency} km/l is not plausible`, field: "fuelEfficiency" });
+    } else if (bike.engineCC && bike.engineCC > 0) {
+      const typical = estimateMileageFromEngine(bike.engineCC);
+      if (bike.fuelEfficiency > typical * 2 || bike.fuelEfficiency < typical / 2) {
+        warnings.push({ code: "UNUSUAL_FUEL_EFFICIENCY", message: `Fuel efficiency of ${bike.fuelEfficiency} km/l is unusual for a ${bike.engineCC}cc bike (typically ~${typical} km/l)`, field: "fuelEfficiency" });
+      }
+    }
+    if (!bike.fuelEfficiencySource) {
+      warnings.push({ code: "MISSING_FUEL_EFFICIENCY_SOURCE", message: "Fuel efficiency source is unknown, treated as a claimed figure", field: "fuelEfficiencySource" });
+    }
+  }
+
   // Suspension validation
   if (!bike.frontSuspension) {
     warnings.push({ code: "MISSING_FRONT_SUSPENSION", message: "Front suspension type is missing", field: "frontSuspension" });
@@ -119,6 +223,14 @@ export function validateMotorcycle(bike: Partial<Motorcycle>): ValidationResult
     warnings.push({ code: "MISSING_REAR_SUSPENSION", message: "Rear suspension type is missing", field: "rearSuspension" });
   }
 
+  // Rider aids validation
+  if (bike.ridingModes !== undefined && (!Number.isInteger(bike.ridingModes) || bike.ridingModes < 0 || bike.ridingModes > 10)) {
+    warnings.push({ code: "INVALID_RIDING_MODES", message: `${bike.ridingModes} riding modes is not plausible`, field: "ridingModes" });
+  }
+  if (bike.tractionControl === "lean-sensitive" && bike.absType !== "cornering-abs") {
+    warnings.push({ code: "LEAN_SENSITIVE_WITHOUT_CORNERING_ABS", message: "Lean-sensitive traction control usually comes with cornering ABS (same IMU); check both", field: "tractionControl" });
+  }
+
   return {
     isValid: errors.length === 0,
     warnings,
@@ -352,24 +464,70 @@ export function getValidWeightsOrDefault(weights: FactorWeights): FactorWeights
   return validation.isValid ? weights : { ...DEFAULT_WEIGHTS };
 }
 
+// Specs that fillMissingData replaces with a generic default when absent
+const DEFAULTABLE_SPECS: (keyof Motorcycle)[] = [
+  "engineCC",
+  "power",
+  "torque",
+  "kerbWeight",
+  "seatHeight",
+  "wheelbase",
+  "groundClearance",
+  "fuelCapacity",
+  "frontBrake",
+  "rearBrake",
+  "absType",
+  "frontTyreWidth",
+  "rearTyreWidth",
+  "frontSuspension",
+  "rearSuspension",
+];
+
+// Electric bikes have neither; zero is their real value, not a gap to fill
+const PETROL_ONLY_SPECS: (keyof Motorcycle)[] = ["engineCC", "fuelCapacity"];
+
 /**
- * Fill missing motorcycle data with sensible defaults
+ * Fill missing motorcycle data with sensible defaults.
+ * Defaulted specs are recorded in autoFilledFields. An electric bike's
+ * power and torque come from its motor figures when only those are known.
  */
 export function fillMissingData(bike: Partial<Motorcycle>): Motorcycle {
+  const electric = isElectric(bike);
+  const known: Partial<Motorcycle> = {
+    ...bike,
+    power: bike.power || (bike.motorPeakPower ? Math.round(bike.motorPeakPower * KW_TO_BHP) : undefined),
+    torque: bike.torque || bike.motorPeakTorque,
+  };
+  const defaultedFields = DEFAULTABLE_SPECS.filter(
+    (field) => !known[field] && !(electric && PETROL_ONLY_SPECS.includes(field))
+  );
+
   return {
     id: bike.id || crypto.randomUUID(),
     brand: bike.brand || "Unknown",
     model: bike.model || "Unknown",
     variant: bike.variant,
     year: bike.year,
-    engineCC: bike.engineCC || 150,
-    power: bike.power || 10,
-    torque: bike.torque || 10,
+    vehicleClass: isVehicleClass(bike.vehicleClass) ? bike.vehicleClass : undefined,
+    powertrain: bike.powertrain,
+    engineCC: electric ? 0 : bike.engineCC || 150,
+    power: known.power || 10,
+    torque: known.torque || 10,
     kerbWeight: bike.kerbWeight || 140,
+    coolingType: bike.coolingType,
+    cylinders: bike.cylinders,
+    peakPowerRpm: bike.peakPowerRpm,
+    peakTorqueRpm: bike.peakTorqueRpm,
     seatHeight: bike.seatHeight || 780,
     wheelbase: bike.wheelbase || 1350,
     groundClearance: bike.groundClearance || 160,
-    fuelCapacity: bike.fuelCapacity || 12,
+    fuelCapacity: electric ? 0 : bike.fuelCapacity || 12,
+    batteryCapacity: bike.batteryCapacity,
+    certifiedRange: bike.certifiedRange,
+    realRange: bike.realRange,
+    chargingTime: bike.chargingTime,
+    motorPeakPower: bike.motorPeakPower,
+    motorPeakTorque: bike.motorPeakTorque,
     frontBrake: bike.frontBrake || "disc",
     rearBrake: bike.rearBrake || "drum",
     absType: bike.absType || "none",
@@ -379,10 +537,20 @@ export function fillMissingData(bike: Partial<Motorcycle>): Motorcycle {
     rearSuspension: bike.rearSuspension || "twin",
     rearSuspensionTravel: bike.rearSuspensionTravel,
     handlebarType: bike.handlebarType,
+    tractionControl: bike.tractionControl,
+    ridingModes: bike.ridingModes,
+    clutch: bike.clutch,
+    quickshifter: bike.quickshifter,
+    cruiseControl: bike.cruiseControl,
+    lighting: bike.lighting,
+    display: bike.display,
     exShowroomPrice: bike.exShowroomPrice,
+    fuelEfficiency: bike.fuelEfficiency,
+    fuelEfficiencySource: bike.fuelEfficiencySource,
     reviewSummary: bike.reviewSummary,
     heatManagementRating: bike.heatManagementRating,
     confidence: bike.confidence || "low",
     searchQuery: bike.searchQuery || "",
+    autoFilledFields: [...new Set([...(bike.autoFilledFields ?? []), ...defaultedFields])],
   };
 }
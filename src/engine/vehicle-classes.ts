@@ -0,0 +1,126 @@
+/**
+ * Motologix - Vehicle Classes
+ *
+ * The default rules are tuned for 150-450cc street bikes. A scooter, a
+ * cruiser or an ADV is judged against its own class instead: factor
+ * modules override rule groups per class (see classOverrides), and each
+ * class starts from its own default weights.
+ */
+
+import type { FactorWeights, Motorcycle, VehicleClass, VehicleClassMeta } from "@/types";
+import { DEFAULT_WEIGHTS } from "@/types";
+
+export const VEHICLE_CLASSES: VehicleClassMeta[] = [
+  {
+    id: "scooter",
+    label: "Scooter",
+    description: "Step-through automatics for the city",
+    weights: {
+      dailyTrafficEase: 0.2,
+      highwayStability: 0.04,
+      funEngagement: 0.04,
+      ownershipPracticality: 0.12,
+    },
+  },
+  {
+    id: "commuter",
+    label: "Commuter",
+    description: "100-160cc everyday bikes: frugal and easy",
+    weights: {
+      dailyTrafficEase: 0.16,
+      highwayStability: 0.06,
+      funEngagement: 0.04,
+      ownershipPracticality: 0.12,
+    },
+  },
+  {
+    id: "naked",
+    label: "Naked",
+    description: "Street bikes with an upright stance; the default rules",
+  },
+  {
+    id: "sport",
+    label: "Sport",
+    description: "Faired bikes with clip-ons, built for speed",
+    weights: {
+      dailyTrafficEase: 0.08,
+      primaryPillionComfort: 0.08,
+      highwayStability: 0.12,
+      funEngagement: 0.16,
+    },
+  },
+  {
+    id: "cruiser",
+    label: "Cruiser",
+    description: "Low seat, feet forward, torque over revs",
+    weights: {
+      dailyTrafficEase: 0.08,
+      riderComfort: 0.14,
+      highwayStability: 0.12,
+      funEngagement: 0.06,
+    },
+  },
+  {
+    id: "adv",
+    label: "ADV",
+    description: "Adventure and dual-sport bikes for bad roads and no roads",
+    weights: {
+      dailyTrafficEase: 0.08,
+      suspensionCompliance: 0.16,
+      riderComfort: 0.12,
+    },
+  },
+  {
+    id: "tourer",
+    label: "Tourer",
+    description: "Long-distance bikes: wind protection, range and room for two",
+    weights: {
+      dailyTrafficEase: 0.06,
+      highwayStability: 0.14,
+      riderComfort: 0.16,
+      funEngagement: 0.06,
+    },
+  },
+];
+
+export const VEHICLE_CLASS_IDS: VehicleClass[] = VEHICLE_CLASSES.map((c) => c.id);
+
+// Street bikes, scored by the default rules; stands in for an unknown class
+const DEFAULT_VEHICLE_CLASS: VehicleClass = "naked";
+
+/**
+ * Whether a value (e.g. from discovery) is a known vehicle class
+ */
+export function isVehicleClass(value: unknown): value is VehicleClass {
+  return VEHICLE_CLASS_IDS.includes(value as VehicleClass);
+}
+
+/**
+ * Class by id; an unknown id gets the default street-bike class
+ */
+export function getVehicleClass(id: string): VehicleClassMeta {
+  return (
+    VEHICLE_CLASSES.find((c) => c.id === id) ??
+    VEHICLE_CLASSES.find((c) => c.id === DEFAULT_VEHICLE_CLASS)!
+  );
+}
+
+/**
+ * The class every bike belongs to, or undefined for a mixed or unclassified set
+ */
+export function getSharedVehicleClass(bikes: Motorcycle[]): VehicleClass | undefined {
+  const first = bikes[0]?.vehicleClass;
+  return first && bikes.every((bike) => bike.vehicleClass === first) ? first : undefined;
+}
+
+/**
+ * Default weights for a class (the plain defaults without one or for an
+ * unknown class), summing to 1
+ */
+export function getClassDefaultWeights(vehicleClass?: VehicleClass): FactorWeights {
+  const weights = { ...DEFAULT_WEIGHTS, ...(vehicleClass && getVehicleClass(vehicleClass).weights) };
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  return Object.fromEntries(
+    Object.entries(weights).map(([key, weight]) => [key, weight / total])
+  ) as FactorWeights;
+}
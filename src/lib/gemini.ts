@@ -57,9 +57,13 @@ CRITICAL RULES:
 2. If a specification is unknown, omit it or set to null
 3. Use metric units (mm, kg, bhp, Nm)
 4. For Indian market bikes, use Indian variant specs
-5. Be precise with ABS type (none, single-channel, dual-channel)
+5. Be precise with ABS type (none, single-channel, dual-channel, switchable-abs, cornering-abs)
 6. Price MUST be EX-SHOWROOM price in INR (not on-road price)
 7. Always specify the variant name if multiple variants exist
+8. Fuel efficiency: prefer real-world figures (owner reports, road tests) over claimed/ARAI figures, and state which one you used
+9. Electric bikes: set "powertrain" to "electric", engineCC and fuelCapacity to 0, and power/torque to the motor's peak figures; omit the electric fields for petrol bikes
+10. Rider aids and features: only report what the chosen variant has as standard; use "none" (or 0 riding modes) when it lacks a feature
+11. Vehicle class: classify by body style and intended use, not engine size alone (a 125cc scooter is "scooter", a 100-160cc everyday motorcycle is "commuter", a faired bike with clip-ons is "sport", an adventure or dual-sport bike is "adv")
 
 Return a JSON object with this structure:
 {
@@ -67,24 +71,45 @@ Return a JSON object with this structure:
   "model": "string",
   "variant": "string (top/base variant name)",
   "year": 2025 (or 2024 if 2025 not available),
+  "vehicleClass": "scooter" or "commuter" or "naked" or "sport" or "cruiser" or "adv" or "tourer",
+  "powertrain": "petrol" or "electric",
   "engineCC": number,
   "power": number (bhp),
   "torque": number (Nm),
+  "coolingType": "air" or "air-oil" or "liquid",
+  "cylinders": number,
+  "peakPowerRpm": number (rpm at which peak power is made),
+  "peakTorqueRpm": number (rpm at which peak torque is made),
   "kerbWeight": number (kg),
   "seatHeight": number (mm),
   "wheelbase": number (mm),
   "groundClearance": number (mm),
   "fuelCapacity": number (liters),
+  "batteryCapacity": number (usable kWh, electric only),
+  "certifiedRange": number (km, IDC certified range, electric only),
+  "realRange": number (km, real-world range from owner reports or road tests, electric only),
+  "chargingTime": number (hours, 0-80% on the standard home charger, electric only),
+  "motorPeakPower": number (kW, electric only),
+  "motorPeakTorque": number (Nm, electric only),
   "frontBrake": "disc" or "drum",
   "rearBrake": "disc" or "drum",
-  "absType": "none" or "single-channel" or "dual-channel",
+  "absType": "none" or "single-channel" or "dual-channel" or "switchable-abs" (dual-channel, rear can be turned off) or "cornering-abs",
   "frontTyreWidth": number (mm),
   "rearTyreWidth": number (mm),
   "frontSuspension": "string describing type",
   "rearSuspension": "monoshock" or "twin" or "other",
   "rearSuspensionTravel": number (mm, if known),
   "handlebarType": "clip-on" or "standard" or "raised",
+  "tractionControl": "none" or "switchable" or "lean-sensitive",
+  "ridingModes": number (selectable riding modes, 0 if none),
+  "clutch": "standard" or "slipper-assist",
+  "quickshifter": "none" or "up" or "bidirectional",
+  "cruiseControl": "none" or "standard" or "adaptive",
+  "lighting": "halogen" or "led-headlamp" or "full-led",
+  "display": "analogue" or "lcd" or "tft" or "tft-navigation" (turn-by-turn via a phone),
   "exShowroomPrice": number (EX-SHOWROOM price in INR, NOT on-road),
+  "fuelEfficiency": number (km/l),
+  "fuelEfficiencySource": "real-world" or "claimed",
   "confidence": "high" or "medium" or "low",
   "sources": ["list of sources used"]
 }
@@ -128,24 +153,45 @@ export interface BikeDiscoveryResult {
   model: string;
   variant?: string;
   year?: number;
+  vehicleClass?: "scooter" | "commuter" | "naked" | "sport" | "cruiser" | "adv" | "tourer";
+  powertrain?: "petrol" | "electric";
   engineCC: number;
   power: number;
   torque: number;
+  coolingType?: "air" | "air-oil" | "liquid";
+  cylinders?: number;
+  peakPowerRpm?: number;
+  peakTorqueRpm?: number;
   kerbWeight: number;
   seatHeight: number;
   wheelbase: number;
   groundClearance: number;
   fuelCapacity: number;
+  batteryCapacity?: number;
+  certifiedRange?: number;
+  realRange?: number;
+  chargingTime?: number;
+  motorPeakPower?: number;
+  motorPeakTorque?: number;
   frontBrake: "disc" | "drum";
   rearBrake: "disc" | "drum";
-  absType: "none" | "single-channel" | "dual-channel";
+  absType: "none" | "single-channel" | "dual-channel" | "switchable-abs" | "cornering-abs";
   frontTyreWidth: number;
   rearTyreWidth: number;
   frontSuspension: string;
   rearSuspension: "monoshock" | "twin" | "other";
   rearSuspensionTravel?: number;
   handlebarType?: "clip-on" | "standard" | "raised";
+  tractionControl?: "none" | "switchable" | "lean-sensitive";
+  ridingModes?: number;
+  clutch?: "standard" | "slipper-assist";
+  quickshifter?: "none" | "up" | "bidirectional";
+  cruiseControl?: "none" | "standard" | "adaptive";
+  lighting?: "halogen" | "led-headlamp" | "full-led";
+  display?: "analogue" | "lcd" | "tft" | "tft-navigation";
   exShowroomPrice?: number;
+  fuelEfficiency?: number;
+  fuelEfficiencySource?: "real-world" | "claimed";
   confidence: "high" | "medium" | "low";
   sources: string[];
 }
@@ -13,9 +13,33 @@ import type {
   PillionMode,
   ComparisonResult,
   ScoredMotorcycle,
+  ScoringRuleset,
+  RiderProfile,
+  ScoringConstraints,
+  ExcludedMotorcycle,
+  AggregationMethod,
+  WeightPreset,
+  NormalizationMode,
+  RelativeScaling,
+  RankingPolicy,
+  TcoSettings,
+  CustomFactor,
+  CustomFactorKey,
+  LoadScenarioId,
 } from "@/types";
-import { DEFAULT_WEIGHTS } from "@/types";
-import { scoreAndRankMotorcycles } from "@/engine/scoring";
+import { DEFAULT_RANKING_POLICY, DEFAULT_TCO_SETTINGS, DEFAULT_WEIGHTS } from "@/types";
+import {
+  scoreAndRankMotorcycles,
+  scoreUnderLoadScenarios,
+  type ScoringOptions,
+} from "@/engine/scoring";
+import { getServiceRegion } from "@/engine/service-network";
+import { simulateScoreUncertaintyAsync, type ScoreInterval } from "@/engine/uncertainty";
+import { parseRuleset } from "@/engine/rules";
+import { DEFAULT_RULESET, getBuiltInRuleset } from "@/engine/rulesets";
+import { BUILT_IN_PRESETS, parsePresets, weightDistance } from "@/engine/presets";
+import { getClassDefaultWeights, getSharedVehicleClass } from "@/engine/vehicle-classes";
+import { createCustomFactor, type CustomFactorInput } from "@/engine/custom";
 import { generateComparisonResult } from "@/agents/reasoning";
 
 // ============================================
@@ -27,12 +51,30 @@ interface AppState {
   bikeQueries: string[];
   weights: FactorWeights;
   pillionMode: PillionMode;
+  loadScenario: LoadScenarioId | null; // null = follow the pillion mode
+  activePresetId: string | null; // preset last applied; sliders may have moved since
+  userPresets: WeightPreset[];
+  ruleset: ScoringRuleset | null; // null = built-in default
+  rulesetSource: string | null; // the JSON it was loaded from; persisted instead of the parsed ruleset
+  rulesetVersion: string | null; // built-in version picked instead of the newest
+  normalizationMode: NormalizationMode;
+  relativeScaling: RelativeScaling | null; // null = absolute scores
+  riderProfile: RiderProfile | null;
+  constraints: ScoringConstraints;
+  uncertaintyMode: boolean; // show score intervals instead of point scores
+  aggregationMethod: AggregationMethod;
+  rankingPolicy: RankingPolicy;
+  tcoSettings: TcoSettings;
+  serviceRegionId: string | null; // owner's city for the service network; null = typical city
+  customFactors: CustomFactor[];
 
   // Fetched data
   motorcycles: Motorcycle[];
 
   // Results
   scoredMotorcycles: ScoredMotorcycle[];
+  excludedMotorcycles: ExcludedMotorcycle[];
+  scoreIntervals: Record<string, ScoreInterval>; // by motorcycle id, when uncertaintyMode is on
   comparison: ComparisonResult | null;
 
   // UI state
@@ -46,13 +88,33 @@ interface AppState {
   removeBikeQuery: (query: string) => void;
   clearBikeQueries: () => void;
   setWeights: (weights: Partial<FactorWeights>) => void;
-  resetWeights: () => void;
+  resetWeights: () => void; // to the default weights of the compared bikes' class
   setPillionMode: (mode: PillionMode) => void;
+  setLoadScenario: (scenario: LoadScenarioId | null) => void;
+  applyPreset: (id: string) => void;
+  saveUserPreset: (name: string, description?: string) => void;
+  deleteUserPreset: (id: string) => void;
+  importPresets: (source: string) => void;
+  loadRuleset: (source: string) => void;
+  selectRuleset: (version: string) => void;
+  resetRuleset: () => void;
+  setNormalizationMode: (mode: NormalizationMode) => void;
+  setRelativeScaling: (scaling: RelativeScaling | null) => void;
+  setRiderProfile: (profile: RiderProfile | null) => void;
+  setConstraints: (constraints: ScoringConstraints) => void;
+  setUncertaintyMode: (enabled: boolean) => void;
+  setAggregationMethod: (method: AggregationMethod) => void;
+  setRankingPolicy: (policy: Partial<RankingPolicy>) => void;
+  setTcoSettings: (settings: Partial<TcoSettings>) => void;
+  setServiceRegion: (regionId: string | null) => void;
+  addCustomFactor: (input: CustomFactorInput) => void;
+  removeCustomFactor: (key: CustomFactorKey) => void;
   setParentModeEnabled: (enabled: boolean) => void;
   discoverBikes: () => Promise<void>;
   addMotorcycle: (motorcycle: Motorcycle) => void;
   removeMotorcycle: (id: string) => void;
   runComparison: () => Promise<void>;
+  scoreLoadScenarios: (motorcycleId: string, scenarios: LoadScenarioId[]) => ScoredMotorcycle[];
   reset: () => void;
 }
 
@@ -64,8 +126,26 @@ const initialState = {
   bikeQueries: [],
   weights: { ...DEFAULT_WEIGHTS },
   pillionMode: "primary" as PillionMode,
+  loadScenario: null as LoadScenarioId | null,
+  activePresetId: null as string | null,
+  userPresets: [] as WeightPreset[],
+  ruleset: null as ScoringRuleset | null,
+  rulesetSource: null as string | null,
+  rulesetVersion: null as string | null,
+  normalizationMode: "step" as NormalizationMode,
+  relativeScaling: null as RelativeScaling | null,
+  riderProfile: null as RiderProfile | null,
+  constraints: {} as ScoringConstraints,
+  uncertaintyMode: false,
+  aggregationMethod: "weighted-sum" as AggregationMethod,
+  rankingPolicy: { ...DEFAULT_RANKING_POLICY } as RankingPolicy,
+  tcoSettings: { ...DEFAULT_TCO_SETTINGS } as TcoSettings,
+  serviceRegionId: null as string | null,
+  customFactors: [] as CustomFactor[],
   motorcycles: [],
   scoredMotorcycles: [],
+  excludedMotorcycles: [],
+  scoreIntervals: {} as Record<string, ScoreInterval>,
   comparison: null,
   isLoading: false,
   isDiscovering: false,
@@ -73,6 +153,53 @@ const initialState = {
   parentModeEnabled: false,
 };
 
+/**
+ * Scoring options from the user's settings, shared by every way of scoring
+ */
+function getScoringOptions(state: AppState): ScoringOptions {
+  return {
+    ruleset: state.ruleset ?? undefined,
+    rider: state.riderProfile ?? undefined,
+    mode: state.normalizationMode,
+    relative: state.relativeScaling ?? undefined,
+    tco: state.tcoSettings,
+    region: state.serviceRegionId ? getServiceRegion(state.serviceRegionId) : undefined,
+    loadScenario: state.loadScenario ?? undefined,
+    customFactors: state.customFactors,
+  };
+}
+
+// The uncertainty simulation still running, if any; a newer comparison cancels it
+let uncertaintyRun: AbortController | null = null;
+
+function cancelUncertaintyRun() {
+  uncertaintyRun?.abort();
+  uncertaintyRun = null;
+}
+
+/**
+ * Parse a saved ruleset again, or look up the saved built-in version.
+ * Stores saved before the source was kept hold the parsed ruleset itself,
+ * with every factor filled in.
+ */
+function restoreRuleset(
+  saved: Partial<AppState>
+): Pick<AppState, "ruleset" | "rulesetSource" | "rulesetVersion"> {
+  const none = { ruleset: null, rulesetSource: null, rulesetVersion: null };
+  if (saved.rulesetVersion) {
+    const ruleset = getBuiltInRuleset(saved.rulesetVersion);
+    return ruleset ? { ...none, ruleset, rulesetVersion: ruleset.version } : none;
+  }
+
+  const source = saved.rulesetSource ?? (saved.ruleset ? JSON.stringify(saved.ruleset) : null);
+  if (!source) return none;
+  try {
+    return { ...none, ruleset: parseRuleset(source), rulesetSource: source };
+  } catch {
+    return none;
+  }
+}
+
 // ============================================
 // STORE IMPLEMENTATION
 // ============================================
@@ -108,7 +235,15 @@ export const useAppStore = create<AppState>()(
       },
 
       clearBikeQueries: () => {
-        set({ bikeQueries: [], motorcycles: [], scoredMotorcycles: [], comparison: null });
+        cancelUncertaintyRun();
+        set({
+          bikeQueries: [],
+          motorcycles: [],
+          scoredMotorcycles: [],
+          excludedMotorcycles: [],
+          scoreIntervals: {},
+          comparison: null,
+        });
       },
 
       // ==================
@@ -117,7 +252,7 @@ export const useAppStore = create<AppState>()(
 
       setWeights: (partialWeights: Partial<FactorWeights>) => {
         const current = get().weights;
-        const updated = { ...current, ...partialWeights };
+        const updated = { ...current, ...partialWeights } as FactorWeights;
 
         // Normalize to sum to 1.0
         const total = Object.values(updated).reduce((sum, w) => sum + w, 0);
@@ -133,7 +268,7 @@ export const useAppStore = create<AppState>()(
       },
 
       resetWeights: () => {
-        set({ weights: { ...DEFAULT_WEIGHTS } });
+        set({ weights: getClassDefaultWeights(getSharedVehicleClass(get().motorcycles)) });
       },
 
       // ==================
@@ -144,6 +279,181 @@ export const useAppStore = create<AppState>()(
         set({ pillionMode: mode });
       },
 
+      setLoadScenario: (scenario: LoadScenarioId | null) => {
+        set({ loadScenario: scenario });
+      },
+
+      // ==================
+      // WEIGHT PRESETS
+      // ==================
+
+      applyPreset: (id: string) => {
+        const preset = [...BUILT_IN_PRESETS, ...get().userPresets].find((p) => p.id === id);
+        if (!preset) return;
+
+        set({ activePresetId: id, pillionMode: preset.pillionMode });
+        get().setWeights(preset.weights);
+      },
+
+      saveUserPreset: (name: string, description?: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+
+        const { weights, pillionMode, userPresets } = get();
+        const preset: WeightPreset = {
+          id: `user-${crypto.randomUUID()}`,
+          name: trimmed,
+          description,
+          weights: { ...weights },
+          pillionMode,
+        };
+        set({ userPresets: [...userPresets, preset], activePresetId: preset.id });
+      },
+
+      deleteUserPreset: (id: string) => {
+        set({
+          userPresets: get().userPresets.filter((p) => p.id !== id),
+          activePresetId: get().activePresetId === id ? null : get().activePresetId,
+        });
+      },
+
+      importPresets: (source: string) => {
+        try {
+          const imported = parsePresets(source);
+          const importedIds = imported.map((p) => p.id);
+          // Imported presets replace saved ones with the same id
+          set({
+            userPresets: [
+              ...get().userPresets.filter((p) => !importedIds.includes(p.id)),
+              ...imported,
+            ],
+            error: null,
+          });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : "Could not import presets",
+          });
+        }
+      },
+
+      // ==================
+      // SCORING RULESET
+      // ==================
+
+      loadRuleset: (source: string) => {
+        try {
+          set({ ruleset: parseRuleset(source), rulesetSource: source, rulesetVersion: null, error: null });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : "Could not load ruleset",
+          });
+        }
+      },
+
+      selectRuleset: (version: string) => {
+        const ruleset = getBuiltInRuleset(version);
+        if (!ruleset) return;
+        // The newest version is the default; keep it unpinned so it follows future versions
+        const isDefault = ruleset === DEFAULT_RULESET;
+        set({
+          ruleset: isDefault ? null : ruleset,
+          rulesetSource: null,
+          rulesetVersion: isDefault ? null : ruleset.version,
+        });
+      },
+
+      resetRuleset: () => {
+        set({ ruleset: null, rulesetSource: null, rulesetVersion: null });
+      },
+
+      setNormalizationMode: (mode: NormalizationMode) => {
+        set({ normalizationMode: mode });
+      },
+
+      setRelativeScaling: (scaling: RelativeScaling | null) => {
+        set({ relativeScaling: scaling });
+      },
+
+      // ==================
+      // RIDER PROFILE
+      // ==================
+
+      setRiderProfile: (profile: RiderProfile | null) => {
+        set({ riderProfile: profile });
+      },
+
+      // ==================
+      // HARD CONSTRAINTS
+      // ==================
+
+      setConstraints: (constraints: ScoringConstraints) => {
+        set({ constraints });
+      },
+
+      // ==================
+      // UNCERTAINTY MODE
+      // ==================
+
+      setUncertaintyMode: (enabled: boolean) => {
+        set({ uncertaintyMode: enabled });
+      },
+
+      // ==================
+      // AGGREGATION METHOD
+      // ==================
+
+      setAggregationMethod: (method: AggregationMethod) => {
+        set({ aggregationMethod: method });
+      },
+
+      // ==================
+      // RANKING POLICY
+      // ==================
+
+      setRankingPolicy: (policy: Partial<RankingPolicy>) => {
+        set({ rankingPolicy: { ...get().rankingPolicy, ...policy } });
+      },
+
+      // ==================
+      // COST OF OWNERSHIP
+      // ==================
+
+      setTcoSettings: (settings: Partial<TcoSettings>) => {
+        set({ tcoSettings: { ...get().tcoSettings, ...settings } });
+      },
+
+      setServiceRegion: (regionId: string | null) => {
+        set({ serviceRegionId: regionId });
+      },
+
+      // ==================
+      // CUSTOM FACTORS
+      // ==================
+
+      addCustomFactor: (input: CustomFactorInput) => {
+        try {
+          const factor = createCustomFactor(input, get().customFactors);
+          // Like other optional factors it starts unweighted
+          set({
+            customFactors: [...get().customFactors, factor],
+            weights: { ...get().weights, [factor.key]: 0 },
+            error: null,
+          });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : "Could not add custom factor",
+          });
+        }
+      },
+
+      removeCustomFactor: (key: CustomFactorKey) => {
+        const weights = Object.fromEntries(
+          Object.entries(get().weights).filter(([factor]) => factor !== key)
+        ) as FactorWeights;
+        set({ customFactors: get().customFactors.filter((f) => f.key !== key), weights });
+        get().setWeights({});
+      },
+
       // ==================
       // PARENT MODE
       // ==================
@@ -191,8 +501,16 @@ export const useAppStore = create<AppState>()(
             );
           }
 
+          // Weights still at the defaults move to the defaults for the new bikes' class
+          const { weights, motorcycles: previous } = get();
+          const atDefaults =
+            weightDistance(weights, getClassDefaultWeights(getSharedVehicleClass(previous))) === 0;
+
           set({
             motorcycles,
+            ...(atDefaults && {
+              weights: { ...weights, ...getClassDefaultWeights(getSharedVehicleClass(motorcycles)) },
+            }),
             isDiscovering: false,
             error:
               failures.length > 0
@@ -233,7 +551,15 @@ export const useAppStore = create<AppState>()(
       // ==================
 
       runComparison: async () => {
-        const { motorcycles, weights, pillionMode } = get();
+        const {
+          motorcycles,
+          weights,
+          pillionMode,
+          constraints,
+          uncertaintyMode,
+          aggregationMethod,
+          rankingPolicy,
+        } = get();
 
         if (motorcycles.length === 0) {
           set({ error: "No motorcycles to compare" });
@@ -243,21 +569,63 @@ export const useAppStore = create<AppState>()(
         set({ isLoading: true, error: null });
 
         try {
+          const scoringOptions = getScoringOptions(get());
+
           // Score and rank motorcycles using deterministic engine
-          const scoredMotorcycles = scoreAndRankMotorcycles(
-            motorcycles,
-            weights,
-            pillionMode
-          );
+          const { ranked: scoredMotorcycles, excluded: excludedMotorcycles } =
+            scoreAndRankMotorcycles(motorcycles, weights, pillionMode, {
+              ...scoringOptions,
+              constraints,
+              aggregation: aggregationMethod,
+              rankingPolicy,
+            });
+
+          cancelUncertaintyRun();
+
+          if (scoredMotorcycles.length === 0) {
+            set({
+              scoredMotorcycles,
+              excludedMotorcycles,
+              scoreIntervals: {},
+              comparison: null,
+              isLoading: false,
+              error: "No bikes meet your hard constraints",
+            });
+            return;
+          }
 
           // Generate explanations using reasoning agent
           const comparison = await generateComparisonResult(scoredMotorcycles, weights);
 
           set({
             scoredMotorcycles,
+            excludedMotorcycles,
+            scoreIntervals: {},
             comparison,
             isLoading: false,
           });
+
+          // Re-score with sampled specs in the background, ranked the same way as the results
+          if (uncertaintyMode) {
+            cancelUncertaintyRun();
+            const run = new AbortController();
+            uncertaintyRun = run;
+            simulateScoreUncertaintyAsync(
+              scoredMotorcycles.map((scored) => scored.motorcycle),
+              weights,
+              pillionMode,
+              { ...scoringOptions, aggregation: aggregationMethod, rankingPolicy },
+              run.signal
+            )
+              .then((scoreIntervals) => {
+                if (scoreIntervals && !run.signal.aborted) set({ scoreIntervals });
+              })
+              // Intervals are extra; a failed simulation leaves the point scores
+              .catch(() => set({ scoreIntervals: {} }))
+              .finally(() => {
+                if (uncertaintyRun === run) uncertaintyRun = null;
+              });
+          }
         } catch (error) {
           set({
             isLoading: false,
@@ -266,11 +634,27 @@ export const useAppStore = create<AppState>()(
         }
       },
 
+      // Score one compared bike under other load scenarios, with every other setting as is
+      scoreLoadScenarios: (motorcycleId: string, scenarios: LoadScenarioId[]) => {
+        const state = get();
+        const motorcycle = state.motorcycles.find((m) => m.id === motorcycleId);
+        if (!motorcycle) return [];
+
+        return scoreUnderLoadScenarios(
+          motorcycle,
+          state.weights,
+          state.pillionMode,
+          scenarios,
+          getScoringOptions(state)
+        );
+      },
+
       // ==================
       // RESET
       // ==================
 
       reset: () => {
+        cancelUncertaintyRun();
         set({ ...initialState });
       },
     }),
@@ -281,8 +665,39 @@ export const useAppStore = create<AppState>()(
       partialize: (state) => ({
         weights: state.weights,
         pillionMode: state.pillionMode,
+        loadScenario: state.loadScenario,
+        activePresetId: state.activePresetId,
+        userPresets: state.userPresets,
+        rulesetSource: state.rulesetSource,
+        rulesetVersion: state.rulesetVersion,
+        normalizationMode: state.normalizationMode,
+        relativeScaling: state.relativeScaling,
+        riderProfile: state.riderProfile,
+        constraints: state.constraints,
+        uncertaintyMode: state.uncertaintyMode,
+        aggregationMethod: state.aggregationMethod,
+        rankingPolicy: state.rankingPolicy,
+        tcoSettings: state.tcoSettings,
+        serviceRegionId: state.serviceRegionId,
+        customFactors: state.customFactors,
         parentModeEnabled: state.parentModeEnabled,
       }),
+      // Weights saved before a factor existed get its default weight; likewise cost settings.
+      // A loaded ruleset is parsed again from its source; a built-in one is looked up by version.
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<AppState>;
+        return {
+          ...current,
+          ...saved,
+          ...restoreRuleset(saved),
+          weights: { ...DEFAULT_WEIGHTS, ...saved.weights },
+          tcoSettings: { ...DEFAULT_TCO_SETTINGS, ...saved.tcoSettings },
+          userPresets: (saved.userPresets ?? current.userPresets).map((preset) => ({
+            ...preset,
+            weights: { ...DEFAULT_WEIGHTS, ...preset.weights },
+          })),
+        };
+      },
     }
   )
 );
@@ -1,5 +1,7 @@
 // Motologix Type Definitions
 
+import type { BuiltInFactorKey } from "@/engine/factors";
+
 // ============================================
 // MOTORCYCLE
 // ============================================
@@ -12,18 +14,34 @@ export interface Motorcycle {
   model: string;
   variant?: string;
   year?: number;
+  vehicleClass?: VehicleClass; // missing = street bike (the default rules)
 
   // Core Specs
-  engineCC: number;
-  power: number; // bhp
-  torque: number; // Nm
+  powertrain?: Powertrain; // missing = petrol
+  engineCC: number; // 0 for electric bikes
+  power: number; // bhp (electric: the motor's peak)
+  torque: number; // Nm (electric: the motor's peak)
   kerbWeight: number; // kg
 
+  // Engine character
+  coolingType?: CoolingType;
+  cylinders?: number;
+  peakPowerRpm?: number;
+  peakTorqueRpm?: number;
+
+  // Electric powertrain
+  batteryCapacity?: number; // kWh, usable
+  certifiedRange?: number; // km, IDC test cycle
+  realRange?: number; // km, owner reports or road tests
+  chargingTime?: number; // hours, 0-80% on the standard home charger
+  motorPeakPower?: number; // kW
+  motorPeakTorque?: number; // Nm
+
   // Dimensions
   seatHeight: number; // mm
   wheelbase: number; // mm
   groundClearance: number; // mm
-  fuelCapacity: number; // liters
+  fuelCapacity: number; // liters, 0 for electric bikes
 
   // Braking
   frontBrake: "disc" | "drum";
@@ -40,8 +58,19 @@ export interface Motorcycle {
   // Ergonomics
   handlebarType?: "clip-on" | "standard" | "raised";
 
+  // Rider aids & electronics (missing = not known)
+  tractionControl?: TractionControl;
+  ridingModes?: number; // selectable modes, 0 = none
+  clutch?: ClutchType;
+  quickshifter?: Quickshifter;
+  cruiseControl?: CruiseControl;
+  lighting?: Lighting;
+  display?: InstrumentDisplay;
+
   // Practical
   exShowroomPrice?: number; // Ex-showroom INR
+  fuelEfficiency?: number; // km/l
+  fuelEfficiencySource?: FuelEfficiencySource; // where the km/l figure comes from
 
   // AI-derived
   reviewSummary?: string;
@@ -50,38 +79,102 @@ export interface Motorcycle {
   // Metadata
   confidence: "high" | "medium" | "low";
   searchQuery: string; // original user input
+  autoFilledFields?: (keyof Motorcycle)[]; // specs defaulted because discovery didn't find them
 }
 
+export type Powertrain = "petrol" | "electric";
+
+/**
+ * Body style; each class can adjust rule thresholds and default weights.
+ * "commuter" = 100-160cc everyday bikes, "adv" = adventure/dual-sport
+ */
+export type VehicleClass =
+  | "scooter"
+  | "commuter"
+  | "naked"
+  | "sport"
+  | "cruiser"
+  | "adv"
+  | "tourer";
+
+/**
+ * How the engine sheds heat: "air-oil" = air-cooled with an oil cooler
+ */
+export type CoolingType = "air" | "air-oil" | "liquid";
+
+/**
+ * Traction control: "switchable" = can be turned off, "lean-sensitive" = IMU-based
+ */
+export type TractionControl = "none" | "switchable" | "lean-sensitive";
+
+/**
+ * "slipper-assist" = slips on hard downshifts and lightens the lever pull
+ */
+export type ClutchType = "standard" | "slipper-assist";
+
+/**
+ * "up" = clutchless upshifts only, "bidirectional" = up and down
+ */
+export type Quickshifter = "none" | "up" | "bidirectional";
+
+export type CruiseControl = "none" | "standard" | "adaptive";
+
+/**
+ * "full-led" = headlamp, tail lamp and indicators
+ */
+export type Lighting = "halogen" | "led-headlamp" | "full-led";
+
+/**
+ * "tft-navigation" = colour TFT with phone-linked turn-by-turn navigation
+ */
+export type InstrumentDisplay = "analogue" | "lcd" | "tft" | "tft-navigation";
+
+/**
+ * Provenance of a mileage figure: "real-world" = owner reports or road tests,
+ * "claimed" = manufacturer/ARAI test cycle, "estimated" = from engine size
+ */
+export type FuelEfficiencySource = "real-world" | "claimed" | "estimated";
+
 // ============================================
 // FACTOR WEIGHTS & SCORES
 // ============================================
 
-export interface FactorWeights {
-  dailyTrafficEase: number; // default: 0.12
-  brakingSafetyConfidence: number; // default: 0.15
-  primaryPillionComfort: number; // default: 0.15
-  highwayStability: number; // default: 0.10
-  riderComfort: number; // default: 0.10
-  suspensionCompliance: number; // default: 0.10
-  funEngagement: number; // default: 0.08
-  heatManagement: number; // default: 0.05
-  ownershipPracticality: number; // default: 0.08
-  longTermSuitability: number; // default: 0.07
-}
+/**
+ * Built-in factor keys come from the factor registry (engine/factors),
+ * one module per factor; custom factors add their own keys
+ */
+export type { BuiltInFactorKey };
+
+export type FactorWeights = Record<BuiltInFactorKey, number> & {
+  [customFactor: CustomFactorKey]: number; // user-defined factors, default 0
+};
 
 export type FactorKey = keyof FactorWeights;
 
-export interface FactorScores {
-  dailyTrafficEase: number; // 1-10
-  brakingSafetyConfidence: number;
-  primaryPillionComfort: number;
-  highwayStability: number;
-  riderComfort: number;
-  suspensionCompliance: number;
-  funEngagement: number;
-  heatManagement: number;
-  ownershipPracticality: number;
-  longTermSuitability: number;
+/**
+ * User-defined factors are keyed "custom:<slug>" so they never collide with built-in ones
+ */
+export type CustomFactorKey = `custom:${string}`;
+
+export type FactorScores = Record<BuiltInFactorKey, number> & {
+  [customFactor: CustomFactorKey]: number; // 1-10
+};
+
+export type FactorConfidence = "high" | "medium" | "low";
+
+// Hard constraints: bikes that fail any of these are excluded before ranking
+export interface ScoringConstraints {
+  maxExShowroomPrice?: number; // INR
+  maxSeatHeight?: number; // mm
+  requiredAbsTypes?: Motorcycle["absType"][]; // bike must have one of these
+  minFuelCapacity?: number; // liters; electric bikes are exempt
+  minFactorScores?: Partial<FactorScores>;
+}
+
+export interface ConstraintViolation {
+  constraint: keyof ScoringConstraints;
+  factor?: FactorKey; // for minFactorScores
+  message: string;
 }
 
 export interface ScoredMotorcycle {
@@ -90,6 +183,387 @@ export interface ScoredMotorcycle {
   finalScore: number; // 0-100
   rank: number;
   confidences: Record<FactorKey, "high" | "medium" | "low">;
+  traces: Record<FactorKey, FactorTrace>;
+  dominatedBy?: string[]; // ids of bikes at least as good on every factor, better on one
+  aggregate?: AggregatedScore; // set when ranked by a method other than the weighted sum
+  relative?: RelativeScores; // set when factor scores were rescaled across the compared bikes
+  tie?: RankTie; // set when the bike shares its rank under the ranking policy
+  tco: TcoEstimate;
+  notApplicable: NotApplicableFactors; // left out of the final score, other weights renormalized
+}
+
+/**
+ * Factors that do not apply to a bike, with the reason for each
+ */
+export type NotApplicableFactors = Partial<Record<FactorKey, string>>;
+
+export interface ExcludedMotorcycle extends ScoredMotorcycle {
+  violations: ConstraintViolation[];
+}
+
+export interface RankingResult {
+  ranked: ScoredMotorcycle[];
+  excluded: ExcludedMotorcycle[];
+}
+
+// ============================================
+// RELATIVE SCORING
+// ============================================
+
+/**
+ * Rescale each factor across the bikes being compared:
+ * "min-max" = worst bike 1, best bike 10; "z-score" = average bike 5.5, ±1.5 per std dev
+ */
+export type RelativeScaling = "min-max" | "z-score";
+
+export interface RelativeScores {
+  method: RelativeScaling;
+  absoluteFactorScores: FactorScores; // before rescaling
+  absoluteFinalScore: number;
+}
+
+// ============================================
+// RANKING POLICY
+// ============================================
+
+/**
+ * Bikes whose scores are closer than `minMeaningfulGap` points share a rank
+ * ("statistically tied"); within a tie they are ordered by `tieBreakers`, in order
+ */
+export interface RankingPolicy {
+  minMeaningfulGap: number; // in points of the ranking score
+  tieBreakers: FactorKey[];
+}
+
+export interface RankTie {
+  tiedWith: string[]; // ids of the other bikes sharing this rank
+  brokenBy: FactorKey | null; // tie-breaker that decided this bike's place, null if none did
+  message: string;
+}
+
+// ============================================
+// AGGREGATION METHODS
+// ============================================
+
+/**
+ * How factor scores and weights are combined into a ranking
+ */
+export type AggregationMethod = "weighted-sum" | "topsis" | "weighted-product" | "lexicographic";
+
+export interface AggregatedScore {
+  method: AggregationMethod;
+  score: number | null; // meaning depends on the method; null for ordinal methods
+  rank: number;
+}
+
+// ============================================
+// SCORING RULESETS
+// ============================================
+
+/**
+ * Fields a rule can read: raw specs, derived values, and scoring context
+ */
+export type RuleField =
+  | "brand"
+  | "vehicleClass"
+  | "powertrain" // petrol when not stated
+  | "engineCC"
+  | "power"
+  | "torque"
+  | "kerbWeight"
+  | "coolingType"
+  | "cylinders"
+  | "peakPowerRpm"
+  | "peakTorqueRpm"
+  | "seatHeight"
+  | "wheelbase"
+  | "groundClearance"
+  | "fuelCapacity"
+  | "batteryCapacity"
+  | "chargingTime"
+  | "frontBrake"
+  | "rearBrake"
+  | "absType"
+  | "frontTyreWidth"
+  | "rearTyreWidth"
+  | "frontSuspension"
+  | "rearSuspension"
+  | "rearSuspensionTravel"
+  | "handlebarType"
+  | "tractionControl"
+  | "ridingModes"
+  | "clutch"
+  | "quickshifter"
+  | "cruiseControl"
+  | "lighting"
+  | "display"
+  | "exShowroomPrice"
+  | "fuelEfficiency"
+  | "heatManagementRating"
+  | "powerToWeight" // derived: bhp per 100 kg
+  | "torqueToWeight" // derived: Nm per 100 kg (unset when torque is unknown)
+  | "realWorldRange" // derived: km on a full tank (or charge) at real-world mileage
+  | "pillionMode" // context
+  | "seatReachMargin" // rider: inseam minus seat height, mm
+  | "loadRatio" // rider: (rider + pillion weight) / kerb weight
+  | "loadScenario" // context: load scenario id
+  | "pillionWeight" // load: kg, 0 when riding solo
+  | "luggageWeight" // load: kg
+  | "payload" // load: rider + pillion + luggage, kg
+  | "payloadRatio" // load: payload / kerb weight
+  | "loadedTorqueToWeight" // load: Nm per 100 kg of kerb weight plus payload
+  | "tcoPerKm" // derived: total cost of ownership per km, INR (needs the price)
+  | "serviceCentres" // region: authorised service centres for the brand in the owner's city
+  | "partsTier" // region: 1 = parts stocked locally … 3 = ordered in
+  | "serviceCost"; // region: one scheduled service at the owner's city rates, INR
+
+export type RuleComparator =
+  | "lt"
+  | "lte"
+  | "gt"
+  | "gte"
+  | "eq"
+  | "neq"
+  | "between" // inclusive [min, max]
+  | "includes" // case-insensitive substring, any of the listed values
+  | "exists"; // threshold true = value is present, false = value is missing
+
+export type RuleThreshold = number | string | boolean | [number, number] | string[];
+
+export interface RuleCondition {
+  field: RuleField;
+  comparator: RuleComparator;
+  threshold: RuleThreshold;
+}
+
+export interface ScoringRule extends RuleCondition {
+  delta: number;
+  and?: RuleCondition[]; // extra conditions that must also hold
+}
+
+export interface RuleGroup {
+  label: string;
+  match: "first" | "all"; // "first" = if/else ladder, "all" = independent checks
+  when?: RuleCondition[]; // group only applies if all of these hold
+  rules: ScoringRule[];
+}
+
+export interface FactorRuleset {
+  baseline: number;
+  clamp: [number, number];
+  roundTo: number; // e.g. 0.5
+  // If the field holds a value within [min, max], it replaces the rule-based score
+  override?: { field: RuleField; min: number; max: number };
+  groups: RuleGroup[];
+  notApplicableWhen?: ApplicabilityRule[]; // first match leaves the factor out of the ranking
+  classOverrides?: Partial<Record<VehicleClass, ClassRuleOverride>>;
+}
+
+/**
+ * How a vehicle class adjusts a factor's rules. Each group replaces the
+ * default group with the same label (a group with no rules switches it off)
+ * or, if no default group has that label, is added after them.
+ */
+export interface ClassRuleOverride {
+  baseline?: number;
+  groups?: RuleGroup[];
+}
+
+/**
+ * A factor does not apply to a bike (e.g. pillion comfort when riding solo)
+ * when all the conditions hold
+ */
+export interface ApplicabilityRule {
+  when: RuleCondition[];
+  reason: string; // shown next to the greyed-out factor
+}
+
+/**
+ * How numeric rule ladders are applied:
+ * "step" = thresholds as written; "linear" / "sigmoid" = each step is
+ * smoothed into a ramp or S-curve centred on the same breakpoint
+ */
+export type NormalizationMode = "step" | "linear" | "sigmoid";
+
+export interface ScoringRuleset {
+  id: string;
+  version: string;
+  description?: string;
+  factors: Partial<Record<BuiltInFactorKey, FactorRuleset>>; // a factor the version predates is not scored
+  basedOn?: string; // built-in version a loaded file was written against
+  inheritedFactors?: BuiltInFactorKey[]; // left out of a loaded file, taken from its basedOn version
+}
+
+// ============================================
+// SCORE TRACES (auditable derivation)
+// ============================================
+
+export interface FiredRule {
+  group: string; // label of the rule group
+  field: RuleField;
+  comparator: RuleComparator;
+  threshold: RuleThreshold;
+  value: number | string; // the input value that matched
+  delta: number;
+  curve?: Exclude<NormalizationMode, "step">; // delta came from a smoothed ladder
+}
+
+export interface FactorTrace {
+  factor: FactorKey;
+  baseline: number;
+  fired: FiredRule[];
+  override?: { field: RuleField; value: number }; // replaced the rule-based score
+  formula?: FormulaTrace; // custom factors: scored by a formula instead of rules
+  notApplicable?: string; // why the factor is left out of the ranking; it is still scored
+  vehicleClass?: VehicleClass; // the class whose rule overrides were applied
+  rawScore: number; // baseline + deltas (or override value)
+  roundedScore: number;
+  clamp: [number, number];
+  score: number; // final 1-10 score
+}
+
+export interface FormulaTrace {
+  expression: string;
+  inputs: Partial<Record<RuleField, number | string>>; // fields the formula read
+  missing?: string; // why the formula had no value; the factor falls back to the baseline
+}
+
+// ============================================
+// CUSTOM FACTORS
+// ============================================
+
+/**
+ * A factor the user defines with a formula over motorcycle fields,
+ * e.g. clamp(10 - (seatHeight - 760) / 20, 1, 10). See engine/formula.ts.
+ */
+export interface CustomFactor {
+  key: CustomFactorKey;
+  label: string;
+  description?: string;
+  category: FactorMeta["category"];
+  expression: string;
+}
+
+// ============================================
+// RIDER PROFILE
+// ============================================
+
+export interface RiderProfile {
+  height: number; // cm
+  inseam?: number; // cm, estimated from height if missing
+  bodyWeight: number; // kg
+  pillionWeight?: number; // kg
+}
+
+// ============================================
+// LOAD SCENARIOS
+// ============================================
+
+export type LoadScenarioId =
+  | "solo"
+  | "solo-luggage"
+  | "pillion"
+  | "pillion-luggage"
+  | "child-pillion";
+
+/**
+ * A vehicle class and the weights it starts from. Listed weights replace
+ * the defaults and the set is renormalized; the class's rule overrides
+ * live with each factor's rules.
+ */
+export interface VehicleClassMeta {
+  id: VehicleClass;
+  label: string;
+  description: string;
+  weights?: Partial<Record<BuiltInFactorKey, number>>;
+}
+
+/**
+ * Who and what the bike carries. The rider and adult pillion weights are
+ * defaults; the rider profile replaces them when one is set.
+ */
+export interface LoadScenario {
+  id: LoadScenarioId;
+  label: string;
+  description: string;
+  pillion: "none" | "adult" | "child";
+  riderWeight: number; // kg
+  pillionWeight: number; // kg, 0 = no pillion
+  luggageWeight: number; // kg
+}
+
+/**
+ * A load scenario with the rider profile applied
+ */
+export interface ResolvedLoad {
+  scenario: LoadScenarioId;
+  riderWeight: number; // kg
+  pillionWeight: number; // kg
+  luggageWeight: number; // kg
+  payload: number; // kg, everything on board
+}
+
+// ============================================
+// TOTAL COST OF OWNERSHIP
+// ============================================
+
+export interface TcoSettings {
+  horizonYears: number; // 9 matches long-term suitability
+  monthlyKm: number;
+  fuelPricePerLitre: number; // INR
+  electricityPricePerKwh: number; // INR, charging at home
+}
+
+/**
+ * Estimated cost of owning a bike over the horizon, in INR.
+ * Purchase is the ex-showroom price; the totals are null when it is unknown.
+ */
+export interface TcoEstimate {
+  horizonYears: number;
+  totalKm: number;
+  mileageKmpl: number | null; // real-world; null for electric bikes
+  energyWhPerKm: number | null; // real-world; electric bikes only
+  mileageSource: FuelEfficiencySource; // of the mileage, or of the range the energy use comes from
+  purchase: number | null;
+  fuel: number; // electricity for electric bikes
+  service: number;
+  tyres: number;
+  insurance: number; // third party, plus own damage when the price is known
+  runningCost: number; // fuel + service + tyres + insurance
+  total: number | null;
+  perKm: number | null;
+}
+
+// ============================================
+// SERVICE NETWORK
+// ============================================
+
+// 1 = metro, 2 = mid-sized city, 3 = smaller town
+export type CityTier = 1 | 2 | 3;
+
+// 1 = stocked locally, 2 = a few days away, 3 = ordered in (a week or more)
+export type PartsTier = 1 | 2 | 3;
+
+/**
+ * Where the owner lives: a named city, or a generic city tier
+ */
+export interface ServiceRegion {
+  id: string;
+  name: string;
+  tier: CityTier;
+  pinPrefixes: string[]; // first three digits of the PIN codes it covers
+}
+
+/**
+ * A brand's service network as seen from one region
+ */
+export interface ServiceNetworkInfo {
+  brand: string;
+  region: ServiceRegion; // the typical tier-2 city when none was chosen
+  serviceCentres: number; // authorised centres in or near the city
+  partsTier: PartsTier;
+  serviceCost: number; // one scheduled service for a sub-200cc bike at the region's rates, INR
+  known: boolean; // false when the brand is not in the dataset and these are fallbacks
 }
 
 // ============================================
@@ -98,6 +572,21 @@ export interface ScoredMotorcycle {
 
 export type PillionMode = "primary" | "secondary" | "none";
 
+// ============================================
+// WEIGHT PRESETS
+// ============================================
+
+/**
+ * A named set of weights plus pillion mode (built-in persona or user-saved)
+ */
+export interface WeightPreset {
+  id: string;
+  name: string;
+  description?: string;
+  weights: FactorWeights;
+  pillionMode: PillionMode;
+}
+
 export interface ComparisonResult {
   motorcycles: ScoredMotorcycle[];
   explanation?: string;
@@ -158,113 +647,48 @@ export interface GeminiExplanationResult {
 // FACTOR METADATA
 // ============================================
 
+export type FactorCategory = "safety" | "comfort" | "practicality" | "enjoyment";
+
 export interface FactorMeta {
   key: FactorKey;
   label: string;
   description: string;
-  category: "safety" | "comfort" | "practicality" | "enjoyment";
+  category: FactorCategory;
   defaultWeight: number;
+  optional?: boolean; // off by default (zero weight) and left out of the guided questions
 }
 
-export const FACTOR_METADATA: FactorMeta[] = [
-  {
-    key: "dailyTrafficEase",
-    label: "Daily Traffic Ease",
-    description: "How easy is the bike to maneuver in heavy traffic",
-    category: "practicality",
-    defaultWeight: 0.12,
-  },
-  {
-    key: "brakingSafetyConfidence",
-    label: "Braking & Safety",
-    description: "Confidence in braking performance and safety features",
-    category: "safety",
-    defaultWeight: 0.15,
-  },
-  {
-    key: "primaryPillionComfort",
-    label: "Pillion Comfort",
-    description: "Comfort and safety for pillion riders",
-    category: "comfort",
-    defaultWeight: 0.15,
-  },
-  {
-    key: "highwayStability",
-    label: "Highway Stability",
-    description: "Stability and confidence at highway speeds",
-    category: "safety",
-    defaultWeight: 0.1,
-  },
-  {
-    key: "riderComfort",
-    label: "Rider Comfort",
-    description: "Long-ride comfort for the rider",
-    category: "comfort",
-    defaultWeight: 0.1,
-  },
-  {
-    key: "suspensionCompliance",
-    label: "Suspension Quality",
-    description: "How well the suspension handles Indian roads",
-    category: "comfort",
-    defaultWeight: 0.1,
-  },
-  {
-    key: "funEngagement",
-    label: "Fun & Engagement",
-    description: "How enjoyable and engaging the riding experience is",
-    category: "enjoyment",
-    defaultWeight: 0.08,
-  },
-  {
-    key: "heatManagement",
-    label: "Heat Management",
-    description: "How well the bike manages engine heat in traffic",
-    category: "practicality",
-    defaultWeight: 0.05,
-  },
-  {
-    key: "ownershipPracticality",
-    label: "Ownership Practicality",
-    description: "Service network, reliability, parts availability",
-    category: "practicality",
-    defaultWeight: 0.08,
-  },
-  {
-    key: "longTermSuitability",
-    label: "Long-Term Suitability",
-    description: "Suitability for 9+ years of ownership",
-    category: "practicality",
-    defaultWeight: 0.07,
-  },
-];
+/**
+ * A built-in factor module (see engine/factors): its metadata, the rules
+ * that score it by default, and how far to trust the score for a given bike
+ */
+export interface FactorDefinition<K extends string = string> {
+  key: K;
+  label: string;
+  description: string;
+  category: FactorCategory;
+  defaultWeight: number;
+  optional?: boolean;
+  rules: FactorRuleset; // default scorer; an alternate ruleset may replace it
+  confidence: (bike: Motorcycle) => FactorConfidence;
+}
+
+export { FACTOR_METADATA } from "@/engine/factors";
 
 // ============================================
 // DEFAULT VALUES
 // ============================================
 
-export const DEFAULT_WEIGHTS: FactorWeights = {
-  dailyTrafficEase: 0.12,
-  brakingSafetyConfidence: 0.15,
-  primaryPillionComfort: 0.15,
-  highwayStability: 0.1,
-  riderComfort: 0.1,
-  suspensionCompliance: 0.1,
-  funEngagement: 0.08,
-  heatManagement: 0.05,
-  ownershipPracticality: 0.08,
-  longTermSuitability: 0.07,
+export { DEFAULT_WEIGHTS, EMPTY_FACTOR_SCORES } from "@/engine/factors";
+
+export const DEFAULT_RANKING_POLICY: RankingPolicy = {
+  minMeaningfulGap: 2,
+  tieBreakers: ["brakingSafetyConfidence", "primaryPillionComfort"],
 };
 
-export const EMPTY_FACTOR_SCORES: FactorScores = {
-  dailyTrafficEase: 5,
-  brakingSafetyConfidence: 5,
-  primaryPillionComfort: 5,
-  highwayStability: 5,
-  riderComfort: 5,
-  suspensionCompliance: 5,
-  funEngagement: 5,
-  heatManagement: 5,
-  ownershipPracticality: 5,
-  longTermSuitability: 5,
+export const DEFAULT_TCO_SETTINGS: TcoSettings = {
+  horizonYears: 9,
+  monthlyKm: 800,
+  fuelPricePerLitre: 105,
+  electricityPricePerKwh: 8,
 };